@@ -16,12 +16,22 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     slotsCount: config.timeSlots.length,
     disabledDatesCount: config.dateDisableRules.length,
     rulesCount: config.slotDisableRules.length,
+    delayTagsCount: config.delayTagRules.length,
+    dateSurchargesCount: config.dateSurchargeRules.length,
+    pickupLocationsCount: config.pickupLocations.length,
   };
 };
 
 export default function DeliverySettings() {
-  const { citiesCount, slotsCount, disabledDatesCount, rulesCount } =
-    useLoaderData<typeof loader>();
+  const {
+    citiesCount,
+    slotsCount,
+    disabledDatesCount,
+    rulesCount,
+    delayTagsCount,
+    dateSurchargesCount,
+    pickupLocationsCount,
+  } = useLoaderData<typeof loader>();
 
   return (
     <s-page heading="Delivery Settings">
@@ -81,11 +91,71 @@ export default function DeliverySettings() {
             </s-stack>
           </s-stack>
         </s-section>
+
+        <s-section heading="Delivery Fees">
+          <s-stack direction="block" gap="small">
+            <s-paragraph>
+              Set a base fee per city and surcharges for time slots and busy
+              dates (e.g. evening slots, Valentine&apos;s Day).
+            </s-paragraph>
+            <s-stack direction="inline" gap="small">
+              <s-badge>{dateSurchargesCount} date surcharges</s-badge>
+              <s-button href="/app/delivery/fees">Manage Fees</s-button>
+            </s-stack>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Pickup Locations">
+          <s-stack direction="block" gap="small">
+            <s-paragraph>
+              Let customers collect their order from your stores, with their own
+              opening hours, pickup slots and closures.
+            </s-paragraph>
+            <s-stack direction="inline" gap="small">
+              <s-badge>{pickupLocationsCount} pickup locations</s-badge>
+              <s-button href="/app/delivery/pickup">
+                Manage Pickup Locations
+              </s-button>
+            </s-stack>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Delay Tags">
+          <s-stack direction="block" gap="small">
+            <s-paragraph>
+              Choose which product tags add preparation days to an order, or set
+              the preparation time on products directly.
+            </s-paragraph>
+            <s-stack direction="inline" gap="small">
+              <s-badge>{delayTagsCount} tag rules</s-badge>
+              <s-button href="/app/delivery/tags">Manage Delay Tags</s-button>
+              <s-button href="/app/delivery/products">
+                Product Preparation Time
+              </s-button>
+              <s-button href="/app/delivery/production">
+                Production Calendar
+              </s-button>
+            </s-stack>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Storefront">
+          <s-stack direction="block" gap="small">
+            <s-paragraph>
+              Configure how the cart delivery date picker finds your theme&apos;s
+              cart form and checkout button.
+            </s-paragraph>
+            <s-stack direction="inline" gap="small">
+              <s-button href="/app/delivery/settings">Manage Settings</s-button>
+            </s-stack>
+          </s-stack>
+        </s-section>
       </s-stack>
 
       <s-section slot="aside" heading="Quick Links">
         <s-stack direction="block" gap="small">
           <s-link href="/app/delivery/test">Test Delivery Calculator</s-link>
+          <s-link href="/app/delivery/manifest">Daily Delivery Manifest</s-link>
           <s-link
             href="https://admin.shopify.com/content/metaobjects"
             target="_blank"
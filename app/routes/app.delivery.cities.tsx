@@ -8,6 +8,7 @@ import type {
 } from "react-router";
 import { useLoaderData } from "react-router";
 import prisma from "../db.server";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
 import {
   createCity,
   loadCities,
@@ -25,7 +26,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const intent = formData.get("intent");
@@ -55,6 +56,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         isSpecial,
         cutoffTime,
       });
+      await republishCheckoutRules(prisma, admin, shop);
 
       return {
         success: true,
@@ -87,6 +89,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           error: "City not found",
         };
       }
+      await republishCheckoutRules(prisma, admin, shop);
 
       return {
         success: true,
@@ -105,6 +108,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     try {
       await updateCity(prisma, shop, id, { isActive: false });
+      await republishCheckoutRules(prisma, admin, shop);
 
       return {
         success: true,
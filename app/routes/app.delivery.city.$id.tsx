@@ -1,41 +1,106 @@
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import db from "app/db.server";
+import {
+  parseGeoJsonPolygons,
+  parseTime,
+  validateDeliveryZone,
+} from "app/services";
+import { republishCheckoutRules } from "app/services/checkoutValidationService";
+import {
+  assignTimeSlotToCity,
+  createDeliveryZone,
+  loadDeliveryZones,
+  loadTimeSlots,
+  saveCityCutoffSchedule,
+  unassignTimeSlotFromCity,
+} from "app/services/deliveryConfigService";
+import type { DeliveryZoneMatchType } from "app/services/types/delivery";
 import { authenticate } from "app/shopify.server";
-import type { FormEvent } from "react";
+import type { ChangeEvent, FormEvent } from "react";
+import { useState } from "react";
 import type {
   ActionFunctionArgs,
   HeadersFunction,
   LoaderFunctionArgs,
+  ShouldRevalidateFunction,
 } from "react-router";
 import { redirect, useFetcher, useLoaderData } from "react-router";
 
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const ZONE_TYPE_LABELS: Record<DeliveryZoneMatchType, string> = {
+  postalCode: "Postal code",
+  postalPrefix: "Postal code prefix",
+  area: "Area name",
+  polygon: "Map polygon (GeoJSON)",
+};
+
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
   const cityId = parseInt(params.id as string, 10);
 
-  const city = await db.city.findFirst({
-    where: { id: cityId, shop },
-  });
+  const [city, slots, zones] = await Promise.all([
+    db.city.findFirst({
+      where: { id: cityId, shop },
+      include: { timeSlots: true, cutoffTimes: true },
+    }),
+    loadTimeSlots(db, shop),
+    loadDeliveryZones(db, shop, cityId),
+  ]);
 
   if (!city) {
     throw new Response("City not found", { status: 404 });
   }
 
-  return { city };
+  const assignedSlotIds = city.timeSlots.map((cts) => cts.timeSlotId);
+
+  return {
+    // Prisma decimals do not serialize to the client
+    city: { ...city, deliveryFee: city.deliveryFee.toNumber() },
+    slots,
+    zones,
+    assignedSlotIds,
+  };
 };
 
 export const action = async ({ request, params }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const cityId = parseInt(params.id as string, 10);
   const formData = await request.formData();
   const intent = formData.get("intent");
 
   if (intent === "delete") {
-    await db.city.delete({
-      where: { id: cityId, shop },
-    });
+    try {
+      await db.city.delete({
+        where: { id: cityId, shop },
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete city",
+      };
+    }
+
+    try {
+      await republishCheckoutRules(db, admin, shop);
+    } catch (error) {
+      // The city is gone, so the page must not reload it (see shouldRevalidate)
+      return {
+        success: false,
+        deleted: true,
+        error: error instanceof Error ? error.message : "Failed to delete city",
+      };
+    }
     return redirect("/app/delivery/cities");
   }
 
@@ -43,15 +108,26 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     case "update": {
       const name = formData.get("name") as string;
       const cutoffTime = formData.get("cutoffTime") as string;
-      const isSpecial = formData.get("isSpecial") === "on";
-      await db.city.update({
-        where: { id: cityId, shop },
-        data: {
-          name,
-          cuttoffTime: cutoffTime,
-          isSpecial,
-        },
-      });
+      const isSpecial = formData.get("isSpecial") === "true";
+      const bufferStr = formData.get("sameDayBufferMinutes") as string;
+      try {
+        await db.city.update({
+          where: { id: cityId, shop },
+          data: {
+            name,
+            cuttoffTime: cutoffTime,
+            isSpecial,
+            sameDayBufferMinutes: bufferStr ? parseInt(bufferStr, 10) : null,
+          },
+        });
+        await republishCheckoutRules(db, admin, shop);
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to update city",
+        };
+      }
       return redirect("/app/delivery/cities");
     }
     case "delete": {
@@ -60,6 +136,195 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       });
       return redirect("/app/delivery/cities");
     }
+    case "assignSlot": {
+      const timeSlotId = parseInt(formData.get("timeSlotId") as string, 10);
+      try {
+        const success = await assignTimeSlotToCity(
+          db,
+          shop,
+          cityId,
+          timeSlotId,
+        );
+        if (!success) {
+          return { success: false, error: "Time slot not found" };
+        }
+        await republishCheckoutRules(db, admin, shop);
+
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to assign slot",
+        };
+      }
+    }
+    case "saveSpecialRules": {
+      const extraLeadDays = parseInt(
+        (formData.get("specialExtraLeadDays") as string) || "0",
+        10,
+      );
+      const weekdays = formData
+        .getAll("specialWeekdays")
+        .map((day) => parseInt(day as string, 10));
+      const slotIds = formData
+        .getAll("specialSlotIds")
+        .map((id) => parseInt(id as string, 10));
+
+      if (isNaN(extraLeadDays) || extraLeadDays < 0) {
+        return {
+          success: false,
+          error: "Extra lead days must be a whole number, 0 or more",
+        };
+      }
+      if (weekdays.length === 0) {
+        return { success: false, error: "Select at least one weekday" };
+      }
+
+      try {
+        await db.city.update({
+          where: { id: cityId, shop },
+          data: {
+            specialExtraLeadDays: extraLeadDays,
+            specialNoSameDay: formData.get("specialNoSameDay") === "on",
+            // Every weekday or no slot selected means no restriction
+            specialWeekdays:
+              weekdays.length === WEEKDAYS.length ? null : weekdays.join(","),
+            specialSlotIds: slotIds.length > 0 ? slotIds.join(",") : null,
+          },
+        });
+        await republishCheckoutRules(db, admin, shop);
+
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to save special city rules",
+        };
+      }
+    }
+    case "createZone": {
+      const matchType =
+        (formData.get("matchType") as DeliveryZoneMatchType) ?? "";
+      const geometry = ((formData.get("geometry") as string) ?? "").trim();
+      const polygons =
+        matchType === "polygon" && geometry
+          ? parseGeoJsonPolygons(geometry)
+          : undefined;
+
+      if (polygons === null) {
+        return {
+          success: false,
+          error: "GeoJSON must contain a Polygon or MultiPolygon",
+        };
+      }
+
+      const zone = {
+        cityId,
+        matchType,
+        value: (formData.get("value") as string) ?? "",
+        polygons,
+        cutoffTime: ((formData.get("zoneCutoffTime") as string) ?? "").trim(),
+        timeSlotIds: formData
+          .getAll("zoneSlotIds")
+          .map((id) => parseInt(id as string, 10)),
+      };
+
+      const [error] = validateDeliveryZone(zone);
+      if (error) {
+        return { success: false, error };
+      }
+
+      try {
+        const created = await createDeliveryZone(db, shop, zone);
+        if (!created) {
+          return { success: false, error: "City not found" };
+        }
+        await republishCheckoutRules(db, admin, shop);
+
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to add zone",
+        };
+      }
+    }
+    case "deleteZone": {
+      const zoneId = parseInt(formData.get("zoneId") as string, 10);
+
+      try {
+        await db.deliveryZone.deleteMany({
+          where: { id: zoneId, cityId, shop },
+        });
+        await republishCheckoutRules(db, admin, shop);
+
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to delete zone",
+        };
+      }
+    }
+    case "saveCutoffSchedule": {
+      const schedule: Record<number, string> = {};
+      for (let day = 0; day < WEEKDAYS.length; day++) {
+        const cutoffTime = (
+          (formData.get(`cutoff-${day}`) as string) ?? ""
+        ).trim();
+        if (!cutoffTime) continue;
+        if (!parseTime(cutoffTime)) {
+          return {
+            success: false,
+            error: `Invalid cutoff time for ${WEEKDAYS[day]}`,
+          };
+        }
+        schedule[day] = cutoffTime;
+      }
+
+      try {
+        const success = await saveCityCutoffSchedule(
+          db,
+          shop,
+          cityId,
+          schedule,
+        );
+        if (!success) {
+          return { success: false, error: "City not found" };
+        }
+        await republishCheckoutRules(db, admin, shop);
+
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to save cutoff schedule",
+        };
+      }
+    }
+    case "unassignSlot": {
+      const timeSlotId = parseInt(formData.get("timeSlotId") as string, 10);
+      try {
+        await unassignTimeSlotFromCity(db, shop, cityId, timeSlotId);
+        await republishCheckoutRules(db, admin, shop);
+
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to unassign slot",
+        };
+      }
+    }
     default: {
       return null;
     }
@@ -67,8 +332,31 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 };
 
 export default function EditCityPage() {
-  const { city } = useLoaderData<typeof loader>();
-  const fetcher = useFetcher();
+  const { city, slots, zones, assignedSlotIds } =
+    useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const slotFetcher = useFetcher<typeof action>();
+  const scheduleFetcher = useFetcher<typeof action>();
+  const specialFetcher = useFetcher<typeof action>();
+  const zoneFetcher = useFetcher<typeof action>();
+
+  const isSlotSubmitting = slotFetcher.state !== "idle";
+  const isScheduleSubmitting = scheduleFetcher.state !== "idle";
+  const isSpecialSubmitting = specialFetcher.state !== "idle";
+  const isZoneSubmitting = zoneFetcher.state !== "idle";
+
+  const [zoneType, setZoneType] = useState<string>("postalCode");
+  const [geoJson, setGeoJson] = useState("");
+
+  const specialWeekdays = city.specialWeekdays?.split(",").map(Number);
+  const specialSlotIds = city.specialSlotIds?.split(",").map(Number) ?? [];
+
+  const handleGeoJsonFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.currentTarget.files?.[0];
+    if (file) {
+      setGeoJson(await file.text());
+    }
+  };
 
   const handleDeteleteCity = (id: number) => {
     fetcher.submit(
@@ -86,6 +374,7 @@ export default function EditCityPage() {
     const name = formData.get("name") as string;
     const cutoffTime = formData.get("cutoffTime") as string;
     const isSpecial = formData.get("isSpecial") === "on";
+    const sameDayBufferMinutes = formData.get("sameDayBufferMinutes") as string;
     const id = city.id;
 
     fetcher.submit(
@@ -95,6 +384,7 @@ export default function EditCityPage() {
         name: name,
         cutoffTime: cutoffTime,
         isSpecial: isSpecial ? "true" : "false",
+        sameDayBufferMinutes: sameDayBufferMinutes,
       },
       { method: "POST" },
     );
@@ -132,14 +422,325 @@ export default function EditCityPage() {
               />
             </s-stack>
 
+            <s-number-field
+              label="Same-day buffer (minutes)"
+              name="sameDayBufferMinutes"
+              min={0}
+              defaultValue={
+                city.sameDayBufferMinutes !== null
+                  ? String(city.sameDayBufferMinutes)
+                  : ""
+              }
+              details="Same-day slots must start at least this long after the order is placed"
+            />
+
             <s-checkbox
               label="Special City"
               name="isSpecial"
               defaultChecked={city.isSpecial}
             />
+            {fetcher.data?.error && (
+              <s-text tone="critical">{fetcher.data.error}</s-text>
+            )}
           </s-stack>
         </form>
       </s-section>
+      <s-section heading="Delivery Zones">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Shipping addresses are matched to this city by postal code, postal
+            code prefix, area name or a map polygon drawn around the area. Once
+            any city has zones, checkout rejects addresses outside all of them.
+            A zone can have its own cutoff time and slots.
+          </s-paragraph>
+          {zones.length === 0 ? (
+            <s-paragraph>No zones for this city yet.</s-paragraph>
+          ) : (
+            <s-stack direction="block" gap="small">
+              {zones.map((zone) => (
+                <s-box key={zone.id} padding="base" background="subdued">
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <s-stack direction="inline" gap="small">
+                      <s-text type="strong">{zone.value}</s-text>
+                      <s-badge>{ZONE_TYPE_LABELS[zone.matchType]}</s-badge>
+                      {zone.cutoffTime && (
+                        <s-badge tone="warning">
+                          Cutoff {zone.cutoffTime}
+                        </s-badge>
+                      )}
+                      {zone.timeSlotIds && zone.timeSlotIds.length > 0 && (
+                        <s-badge tone="info">
+                          {slots
+                            .filter((slot) =>
+                              zone.timeSlotIds?.includes(slot.id),
+                            )
+                            .map((slot) => slot.label)
+                            .join(", ")}
+                        </s-badge>
+                      )}
+                    </s-stack>
+                    <zoneFetcher.Form
+                      method="POST"
+                      style={{ marginLeft: "auto" }}
+                    >
+                      <input type="hidden" name="intent" value="deleteZone" />
+                      <input type="hidden" name="zoneId" value={zone.id} />
+                      <s-button
+                        variant="tertiary"
+                        tone="critical"
+                        type="submit"
+                        disabled={isZoneSubmitting}
+                      >
+                        Delete
+                      </s-button>
+                    </zoneFetcher.Form>
+                  </s-stack>
+                </s-box>
+              ))}
+            </s-stack>
+          )}
+          <zoneFetcher.Form method="POST">
+            <input type="hidden" name="intent" value="createZone" />
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" gap="base" alignItems="end">
+                <s-select
+                  label="Type"
+                  name="matchType"
+                  value={zoneType}
+                  onChange={(e) => setZoneType(e.currentTarget.value)}
+                >
+                  {Object.entries(ZONE_TYPE_LABELS).map(([value, label]) => (
+                    <s-option key={value} value={value}>
+                      {label}
+                    </s-option>
+                  ))}
+                </s-select>
+                <s-text-field
+                  label={zoneType === "polygon" ? "Zone name" : "Value"}
+                  name="value"
+                  placeholder={
+                    zoneType === "polygon"
+                      ? "e.g., North Outskirts"
+                      : "e.g., 1216, 12 or Gulshan"
+                  }
+                  required
+                />
+                <s-text-field
+                  label="Cutoff override (HH:mm)"
+                  name="zoneCutoffTime"
+                  placeholder="City cutoff"
+                />
+              </s-stack>
+              {zoneType === "polygon" && (
+                <s-stack direction="block" gap="small">
+                  <s-text-area
+                    label="GeoJSON"
+                    name="geometry"
+                    value={geoJson}
+                    onChange={(e) => setGeoJson(e.currentTarget.value)}
+                    rows={6}
+                    details="Draw the area at geojson.io and paste the result, or import a .geojson file. Polygons and MultiPolygons are used."
+                  />
+                  <input
+                    type="file"
+                    accept=".geojson,.json,application/geo+json,application/json"
+                    onChange={handleGeoJsonFile}
+                  />
+                </s-stack>
+              )}
+              {slots.length > 0 && (
+                <s-stack direction="block" gap="small">
+                  <s-text type="strong">Slots offered in the zone</s-text>
+                  <s-paragraph>
+                    Leave all unchecked to offer the city&apos;s slots.
+                  </s-paragraph>
+                  <s-stack direction="inline" gap="base">
+                    {slots.map((slot) => (
+                      <s-checkbox
+                        key={slot.id}
+                        label={slot.label}
+                        name="zoneSlotIds"
+                        value={String(slot.id)}
+                      />
+                    ))}
+                  </s-stack>
+                </s-stack>
+              )}
+              <s-button type="submit" disabled={isZoneSubmitting}>
+                Add Zone
+              </s-button>
+            </s-stack>
+          </zoneFetcher.Form>
+          {zoneFetcher.data?.error && (
+            <s-text tone="critical">{zoneFetcher.data.error}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+      <s-section heading="Special City Rules">
+        <specialFetcher.Form method="POST">
+          <input type="hidden" name="intent" value="saveSpecialRules" />
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              {city.isSpecial
+                ? "These restrictions apply because this is a special city."
+                : "These restrictions only apply once the city is marked as Special City."}
+            </s-paragraph>
+
+            <s-number-field
+              label="Extra lead days"
+              name="specialExtraLeadDays"
+              min={0}
+              defaultValue={String(city.specialExtraLeadDays)}
+              details="Days added to the minimum delivery date"
+            />
+
+            <s-checkbox
+              label="No same-day delivery"
+              name="specialNoSameDay"
+              defaultChecked={city.specialNoSameDay}
+            />
+
+            <s-stack direction="block" gap="small">
+              <s-text type="strong">Delivery weekdays</s-text>
+              <s-stack direction="inline" gap="base">
+                {WEEKDAYS.map((day, index) => (
+                  <s-checkbox
+                    key={day}
+                    label={day}
+                    name="specialWeekdays"
+                    value={String(index)}
+                    defaultChecked={
+                      !specialWeekdays || specialWeekdays.includes(index)
+                    }
+                  />
+                ))}
+              </s-stack>
+            </s-stack>
+
+            {slots.length > 0 && (
+              <s-stack direction="block" gap="small">
+                <s-text type="strong">Slots offered</s-text>
+                <s-paragraph>
+                  Leave all unchecked to offer every slot of the city.
+                </s-paragraph>
+                <s-stack direction="inline" gap="base">
+                  {slots.map((slot) => (
+                    <s-checkbox
+                      key={slot.id}
+                      label={slot.label}
+                      name="specialSlotIds"
+                      value={String(slot.id)}
+                      defaultChecked={specialSlotIds.includes(slot.id)}
+                    />
+                  ))}
+                </s-stack>
+              </s-stack>
+            )}
+
+            {specialFetcher.data?.error && (
+              <s-text tone="critical">{specialFetcher.data.error}</s-text>
+            )}
+            <s-button type="submit" disabled={isSpecialSubmitting}>
+              {isSpecialSubmitting ? "Saving..." : "Save Special Rules"}
+            </s-button>
+          </s-stack>
+        </specialFetcher.Form>
+      </s-section>
+      <s-section heading="Weekday Cutoff Times">
+        <scheduleFetcher.Form method="POST">
+          <input type="hidden" name="intent" value="saveCutoffSchedule" />
+          <s-stack direction="block" gap="small">
+            <s-paragraph>
+              Leave a day empty to use the city cutoff time:{" "}
+              {city.cuttoffTime || "none"}.
+            </s-paragraph>
+            {WEEKDAYS.map((day, index) => (
+              <s-stack
+                key={day}
+                direction="inline"
+                gap="base"
+                alignItems="center"
+              >
+                <label htmlFor={`cutoff-${index}`} style={{ width: "120px" }}>
+                  {day}
+                </label>
+                <input
+                  id={`cutoff-${index}`}
+                  name={`cutoff-${index}`}
+                  type="time"
+                  defaultValue={
+                    city.cutoffTimes.find((c) => c.dayOfWeek === index)
+                      ?.cutoffTime ?? ""
+                  }
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #8c9196",
+                    borderRadius: "8px",
+                    fontSize: "14px",
+                  }}
+                />
+              </s-stack>
+            ))}
+            {scheduleFetcher.data?.error && (
+              <s-text tone="critical">{scheduleFetcher.data.error}</s-text>
+            )}
+            <s-button type="submit" disabled={isScheduleSubmitting}>
+              {isScheduleSubmitting ? "Saving..." : "Save Cutoff Schedule"}
+            </s-button>
+          </s-stack>
+        </scheduleFetcher.Form>
+      </s-section>
+      <s-section heading="Time Slots">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            {assignedSlotIds.length === 0
+              ? "No slots assigned. All active time slots are offered in this city."
+              : "Only the assigned time slots are offered in this city."}
+          </s-paragraph>
+          {slots.length === 0 ? (
+            <s-paragraph>
+              No time slots configured yet.{" "}
+              <s-link href="/app/delivery/slots">Add Time Slots</s-link>
+            </s-paragraph>
+          ) : (
+            slots.map((slot) => {
+              const isAssigned = assignedSlotIds.includes(slot.id);
+              return (
+                <s-box key={slot.id} padding="base" background="subdued">
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <s-stack direction="inline" gap="small">
+                      <s-text type="strong">{slot.label}</s-text>
+                      {isAssigned && <s-badge tone="success">Assigned</s-badge>}
+                    </s-stack>
+                    <slotFetcher.Form
+                      method="POST"
+                      style={{ marginLeft: "auto" }}
+                    >
+                      <input
+                        type="hidden"
+                        name="intent"
+                        value={isAssigned ? "unassignSlot" : "assignSlot"}
+                      />
+                      <input type="hidden" name="timeSlotId" value={slot.id} />
+                      <s-button
+                        variant="tertiary"
+                        tone={isAssigned ? "critical" : undefined}
+                        type="submit"
+                        disabled={isSlotSubmitting}
+                      >
+                        {isAssigned ? "Unassign" : "Assign"}
+                      </s-button>
+                    </slotFetcher.Form>
+                  </s-stack>
+                </s-box>
+              );
+            })
+          )}
+          {slotFetcher.data?.error && (
+            <s-text tone="critical">{slotFetcher.data.error}</s-text>
+          )}
+        </s-stack>
+      </s-section>
       <s-stack
         direction="inline"
         gap="base"
@@ -184,6 +785,13 @@ export default function EditCityPage() {
   );
 }
 
+// A deleted city cannot be reloaded, so keep the page to show why its
+// checkout rules were not updated
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  actionResult,
+  defaultShouldRevalidate,
+}) => (actionResult?.deleted ? false : defaultShouldRevalidate);
+
 export function ErrorBoundary() {
   return boundary.error(useLoaderData());
 }
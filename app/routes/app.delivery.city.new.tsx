@@ -1,11 +1,12 @@
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import db from "app/db.server";
+import { republishCheckoutRules } from "app/services/checkoutValidationService";
 import { authenticate } from "app/shopify.server";
 import type { ActionFunctionArgs, HeadersFunction } from "react-router";
-import { redirect, useRouteError } from "react-router";
+import { redirect, useActionData, useRouteError } from "react-router";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const intent = formData.get("intent");
@@ -15,15 +16,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const name = formData.get("name") as string;
       const cutoffTime = formData.get("cutoffTime") as string;
       const isSpecial = formData.get("isSpecial") === "true";
+      const bufferStr = formData.get("sameDayBufferMinutes") as string;
 
-      await db.city.create({
-        data: {
-          shop,
-          name,
-          cuttoffTime: cutoffTime,
-          isSpecial,
-        },
-      });
+      try {
+        await db.city.create({
+          data: {
+            shop,
+            name,
+            cuttoffTime: cutoffTime,
+            isSpecial,
+            sameDayBufferMinutes: bufferStr ? parseInt(bufferStr, 10) : null,
+          },
+        });
+        await republishCheckoutRules(db, admin, shop);
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to create city",
+        };
+      }
 
       return redirect("/app/delivery/cities");
     }
@@ -34,6 +46,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function AddNewCityPage() {
+  const actionData = useActionData<typeof action>();
+
   return (
     <s-page heading="Add New City">
       <s-link slot="breadcrumb-actions" href="/app/delivery/cities">
@@ -67,7 +81,17 @@ export default function AddNewCityPage() {
               />
             </s-stack>
 
+            <s-number-field
+              label="Same-day buffer (minutes)"
+              name="sameDayBufferMinutes"
+              min={0}
+              details="Same-day slots must start at least this long after the order is placed"
+            />
+
             <s-checkbox label="Special City" name="isSpecial" />
+            {actionData?.error && (
+              <s-text tone="critical">{actionData.error}</s-text>
+            )}
           </s-stack>
         </form>
       </s-section>
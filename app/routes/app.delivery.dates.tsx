@@ -8,39 +8,68 @@ import type {
 } from "react-router";
 import { useFetcher, useLoaderData } from "react-router";
 import prisma from "../db.server";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
 import {
   createDateDisableRule,
+  createWeekdayDisableRule,
+  loadCities,
   loadDateDisableRules,
+  loadWeekdayDisableRules,
 } from "../services/deliveryConfigService";
 import { authenticate } from "../shopify.server";
 
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
 
-  const dates = await loadDateDisableRules(prisma, shop);
+  const [dates, weekdayRules, cities] = await Promise.all([
+    loadDateDisableRules(prisma, shop),
+    loadWeekdayDisableRules(prisma, shop),
+    loadCities(prisma, shop),
+  ]);
 
-  return { dates };
+  return { dates, weekdayRules, cities };
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const intent = formData.get("intent");
 
   if (intent === "create") {
     const startDateStr = formData.get("date") as string;
+    const endDateStr = formData.get("endDate") as string;
+    const repeatsYearly = formData.get("repeatsYearly") === "true";
     const reason = formData.get("reason") as string;
 
+    if (endDateStr && endDateStr < startDateStr) {
+      return {
+        success: false,
+        error: "End date must be on or after the start date",
+      };
+    }
+
     try {
       await createDateDisableRule(prisma, shop, {
         startDate: new Date(startDateStr),
-        endDate: null,
-        reason: reason || null,
+        endDate: endDateStr ? new Date(endDateStr) : undefined,
+        repeatsYearly,
+        reason: reason || undefined,
       });
+      await republishCheckoutRules(prisma, admin, shop);
 
-      return { success: true };
+      return { success: true, message: "Disabled date saved successfully" };
     } catch (error) {
       return {
         success: false,
@@ -53,12 +82,69 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const id = parseInt(formData.get("id") as string, 10);
 
     try {
-      await prisma.disableDateRules.update({
-        where: { id },
-        data: { isActive: false },
+      await prisma.disableDateRules.deleteMany({
+        where: { id, shop },
       });
+      await republishCheckoutRules(prisma, admin, shop);
 
-      return { success: true };
+      return { success: true, message: "Disabled date deleted" };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete rule",
+      };
+    }
+  }
+
+  if (intent === "createWeekly") {
+    const daysOfWeek = formData
+      .getAll("daysOfWeek")
+      .map((day) => parseInt(day as string, 10));
+    const cityIdStr = formData.get("cityId") as string;
+    const startDateStr = formData.get("startDate") as string;
+    const endDateStr = formData.get("endDate") as string;
+    const reason = formData.get("reason") as string;
+
+    if (daysOfWeek.length === 0) {
+      return { success: false, error: "Select at least one weekday" };
+    }
+
+    if (startDateStr && endDateStr && endDateStr < startDateStr) {
+      return {
+        success: false,
+        error: "End date must be on or after the start date",
+      };
+    }
+
+    try {
+      await createWeekdayDisableRule(prisma, shop, {
+        cityId: cityIdStr ? parseInt(cityIdStr, 10) : undefined,
+        daysOfWeek,
+        startDate: startDateStr ? new Date(startDateStr) : undefined,
+        endDate: endDateStr ? new Date(endDateStr) : undefined,
+        reason: reason || undefined,
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true, message: "Weekly closure saved successfully" };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create rule",
+      };
+    }
+  }
+
+  if (intent === "deleteWeekly") {
+    const id = parseInt(formData.get("id") as string, 10);
+
+    try {
+      await prisma.disableWeekdayRules.deleteMany({
+        where: { id, shop },
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true, message: "Weekly closure deleted" };
     } catch (error) {
       return {
         success: false,
@@ -71,15 +157,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function DisabledDates() {
-  const { dates } = useLoaderData<typeof loader>();
+  const { dates, weekdayRules, cities } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
   const shopify = useAppBridge();
 
   const isSubmitting = fetcher.state !== "idle";
 
   useEffect(() => {
-    if (fetcher.data?.success) {
-      shopify.toast.show("Disabled date saved successfully");
+    if (fetcher.data?.success && fetcher.data.message) {
+      shopify.toast.show(fetcher.data.message);
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
     }
   }, [fetcher.data, shopify]);
 
@@ -92,6 +180,18 @@ export default function DisabledDates() {
     form.reset();
   };
 
+  const handleCreateWeekly = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("intent", "createWeekly");
+    fetcher.submit(formData, { method: "POST" });
+    form.reset();
+  };
+
+  const cityName = (cityId?: number) =>
+    cities.find((city) => city.id === cityId)?.name ?? "Unknown city";
+
   // Format date for display
   const formatDate = (dateStr: string) => {
     try {
@@ -124,7 +224,17 @@ export default function DisabledDates() {
       <s-section heading="Add Disabled Date">
         <fetcher.Form method="POST" onSubmit={handleCreate}>
           <s-stack direction="block" gap="base">
-            <s-date-field label="Date" name="date" required />
+            <s-stack direction="inline" gap="base">
+              <s-date-field label="Date" name="date" required />
+              <s-date-field label="Until (optional)" name="endDate" />
+            </s-stack>
+
+            <s-checkbox
+              label="Repeats every year"
+              name="repeatsYearly"
+              value="true"
+              details="For fixed-date holidays, e.g. 16 December"
+            />
 
             <s-text-field
               label="Reason (optional)"
@@ -150,7 +260,11 @@ export default function DisabledDates() {
               <s-box
                 key={item.id}
                 padding="base"
-                background={isPast(item.startDate) ? "subdued" : "base"}
+                background={
+                  !item.repeatsYearly && isPast(item.endDate ?? item.startDate)
+                    ? "subdued"
+                    : "base"
+                }
               >
                 <s-stack direction="inline" gap="base" alignItems="center">
                   <s-stack direction="block" gap="small" inlineSize="auto">
@@ -159,10 +273,14 @@ export default function DisabledDates() {
                       {item.endDate && ` - ${formatDate(item.endDate)}`}
                     </s-text>
                     <s-stack direction="inline" gap="small">
-                      {item.reason && <s-badge>{item.reason}</s-badge>}
-                      {isPast(item.startDate) && (
-                        <s-badge tone="neutral">Past</s-badge>
+                      {item.repeatsYearly && (
+                        <s-badge tone="info">Every year</s-badge>
                       )}
+                      {item.reason && <s-badge>{item.reason}</s-badge>}
+                      {!item.repeatsYearly &&
+                        isPast(item.endDate ?? item.startDate) && (
+                          <s-badge tone="neutral">Past</s-badge>
+                        )}
                     </s-stack>
                   </s-stack>
                   <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
@@ -184,11 +302,101 @@ export default function DisabledDates() {
         )}
       </s-section>
 
+      <s-section heading="Add Recurring Weekly Closure">
+        <fetcher.Form method="POST" onSubmit={handleCreateWeekly}>
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base">
+              {WEEKDAYS.map((day, index) => (
+                <s-checkbox
+                  key={day}
+                  label={day}
+                  name="daysOfWeek"
+                  value={String(index)}
+                />
+              ))}
+            </s-stack>
+
+            <s-select label="City" name="cityId">
+              <s-option value="">All cities</s-option>
+              {cities.map((city) => (
+                <s-option key={city.id} value={String(city.id)}>
+                  {city.name}
+                </s-option>
+              ))}
+            </s-select>
+
+            <s-stack direction="inline" gap="base">
+              <s-date-field label="From (optional)" name="startDate" />
+              <s-date-field label="Until (optional)" name="endDate" />
+            </s-stack>
+
+            <s-text-field
+              label="Reason (optional)"
+              name="reason"
+              placeholder="e.g., Closed on Fridays"
+            />
+
+            <s-button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Adding..." : "Add Weekly Closure"}
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Recurring Weekly Closures">
+        {weekdayRules.length === 0 ? (
+          <s-paragraph>
+            No weekly closures yet. Add one for days you never deliver.
+          </s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="small">
+            {weekdayRules.map((rule) => (
+              <s-box key={rule.id} padding="base" background="base">
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <s-stack direction="block" gap="small" inlineSize="auto">
+                    <s-text type="strong">
+                      Every{" "}
+                      {rule.daysOfWeek.map((day) => WEEKDAYS[day]).join(", ")}
+                    </s-text>
+                    <s-stack direction="inline" gap="small">
+                      <s-badge tone="info">
+                        {rule.cityId ? cityName(rule.cityId) : "All cities"}
+                      </s-badge>
+                      {(rule.startDate || rule.endDate) && (
+                        <s-badge>
+                          {rule.startDate ? formatDate(rule.startDate) : "…"}
+                          {" - "}
+                          {rule.endDate ? formatDate(rule.endDate) : "…"}
+                        </s-badge>
+                      )}
+                      {rule.reason && <s-badge>{rule.reason}</s-badge>}
+                    </s-stack>
+                  </s-stack>
+                  <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                    <input type="hidden" name="intent" value="deleteWeekly" />
+                    <input type="hidden" name="id" value={rule.id} />
+                    <s-button
+                      variant="tertiary"
+                      tone="critical"
+                      type="submit"
+                      disabled={isSubmitting}
+                    >
+                      Remove
+                    </s-button>
+                  </fetcher.Form>
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
       <s-section slot="aside" heading="Tips">
         <s-stack direction="block" gap="small">
           <s-paragraph>
             <s-text type="strong">Holidays:</s-text> Add national and religious
-            holidays when your team is unavailable.
+            holidays when your team is unavailable. Mark fixed-date holidays as
+            repeating every year so they only need to be entered once.
           </s-paragraph>
           <s-paragraph>
             <s-text type="strong">Maintenance:</s-text> Block dates for
@@ -198,6 +406,11 @@ export default function DisabledDates() {
             <s-text type="strong">Past dates:</s-text> Old entries are kept for
             records but will not affect delivery selection.
           </s-paragraph>
+          <s-paragraph>
+            <s-text type="strong">Weekly closures:</s-text> Close every week on
+            the selected days, for all cities or one city, optionally only
+            between two dates.
+          </s-paragraph>
         </s-stack>
       </s-section>
     </s-page>
@@ -0,0 +1,349 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { formatFeeAmount, parseFeeAmount } from "../services";
+import {
+  createDateSurchargeRule,
+  loadCities,
+  loadDateSurchargeRules,
+  loadTimeSlots,
+  updateCity,
+  updateTimeSlot,
+} from "../services/deliveryConfigService";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const [cities, slots, surcharges] = await Promise.all([
+    loadCities(prisma, shop),
+    loadTimeSlots(prisma, shop),
+    loadDateSurchargeRules(prisma, shop),
+  ]);
+
+  return { cities, slots, surcharges };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const id = parseInt(formData.get("id") as string, 10);
+  const amount = parseFeeAmount((formData.get("amount") as string) ?? "");
+
+  if (intent === "saveCityFee" || intent === "saveSlotSurcharge") {
+    if (amount === null) {
+      return { success: false, error: "Enter an amount of 0 or more" };
+    }
+
+    try {
+      const updated =
+        intent === "saveCityFee"
+          ? await updateCity(prisma, shop, id, { deliveryFee: amount })
+          : await updateTimeSlot(prisma, shop, id, { surcharge: amount });
+
+      return updated
+        ? { success: true }
+        : { success: false, error: "Not found" };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save fee",
+      };
+    }
+  }
+
+  if (intent === "createSurcharge") {
+    const startDateStr = formData.get("date") as string;
+    const endDateStr = formData.get("endDate") as string;
+    const cityIdStr = formData.get("cityId") as string;
+    const label = formData.get("label") as string;
+
+    if (!amount) {
+      return { success: false, error: "Enter an amount greater than 0" };
+    }
+
+    if (endDateStr && endDateStr < startDateStr) {
+      return {
+        success: false,
+        error: "End date must be on or after the start date",
+      };
+    }
+
+    try {
+      await createDateSurchargeRule(prisma, shop, {
+        cityId: cityIdStr ? parseInt(cityIdStr, 10) : undefined,
+        startDate: new Date(startDateStr),
+        endDate: endDateStr ? new Date(endDateStr) : undefined,
+        repeatsYearly: formData.get("repeatsYearly") === "true",
+        amount,
+        label: label || undefined,
+      });
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to create surcharge",
+      };
+    }
+  }
+
+  if (intent === "deleteSurcharge") {
+    try {
+      await prisma.dateSurchargeRule.deleteMany({
+        where: { id, shop },
+      });
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to delete surcharge",
+      };
+    }
+  }
+
+  return { success: false, error: "Unknown intent" };
+};
+
+export default function DeliveryFees() {
+  const { cities, slots, surcharges } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Delivery fees saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleCreateSurcharge = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("intent", "createSurcharge");
+    fetcher.submit(formData, { method: "POST" });
+    form.reset();
+  };
+
+  const cityName = (cityId?: number) =>
+    cities.find((city) => city.id === cityId)?.name ?? "Unknown city";
+
+  // Format date for display
+  const formatDate = (dateStr: string) => {
+    try {
+      const date = new Date(dateStr + "T00:00:00");
+      return date.toLocaleDateString("en-US", {
+        weekday: "short",
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      });
+    } catch {
+      return dateStr;
+    }
+  };
+
+  return (
+    <s-page heading="Delivery Fees">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="City Base Fees">
+        {cities.length === 0 ? (
+          <s-paragraph>No cities configured yet.</s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="small">
+            {cities.map((city) => (
+              <fetcher.Form key={city.id} method="POST">
+                <input type="hidden" name="intent" value="saveCityFee" />
+                <input type="hidden" name="id" value={city.id} />
+                <s-stack direction="inline" gap="base" alignItems="end">
+                  <s-number-field
+                    label={city.name}
+                    name="amount"
+                    min={0}
+                    step={0.01}
+                    defaultValue={formatFeeAmount(city.deliveryFee ?? 0)}
+                  />
+                  {city.isSpecial && <s-badge tone="warning">Special</s-badge>}
+                  <s-button type="submit" disabled={isSubmitting}>
+                    Save
+                  </s-button>
+                </s-stack>
+              </fetcher.Form>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section heading="Time Slot Surcharges">
+        {slots.length === 0 ? (
+          <s-paragraph>No time slots configured yet.</s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="small">
+            {slots.map((slot) => (
+              <fetcher.Form key={slot.id} method="POST">
+                <input type="hidden" name="intent" value="saveSlotSurcharge" />
+                <input type="hidden" name="id" value={slot.id} />
+                <s-stack direction="inline" gap="base" alignItems="end">
+                  <s-number-field
+                    label={slot.label}
+                    name="amount"
+                    min={0}
+                    step={0.01}
+                    defaultValue={formatFeeAmount(slot.surcharge ?? 0)}
+                  />
+                  <s-button type="submit" disabled={isSubmitting}>
+                    Save
+                  </s-button>
+                </s-stack>
+              </fetcher.Form>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section heading="Add Date Surcharge">
+        <fetcher.Form method="POST" onSubmit={handleCreateSurcharge}>
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base">
+              <s-date-field label="Date" name="date" required />
+              <s-date-field label="Until (optional)" name="endDate" />
+            </s-stack>
+
+            <s-checkbox
+              label="Repeats every year"
+              name="repeatsYearly"
+              value="true"
+              details="For fixed-date holidays, e.g. Valentine's Day"
+            />
+
+            <s-stack direction="inline" gap="base">
+              <s-number-field
+                label="Amount"
+                name="amount"
+                min={0}
+                step={0.01}
+                required
+              />
+              <s-select label="City" name="cityId">
+                <s-option value="">All cities</s-option>
+                {cities.map((city) => (
+                  <s-option key={city.id} value={String(city.id)}>
+                    {city.name}
+                  </s-option>
+                ))}
+              </s-select>
+            </s-stack>
+
+            <s-text-field
+              label="Label (optional)"
+              name="label"
+              placeholder="e.g., Valentine's Day"
+            />
+
+            <s-button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Adding..." : "Add Date Surcharge"}
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Date Surcharges">
+        {surcharges.length === 0 ? (
+          <s-paragraph>
+            No date surcharges yet. Add one for busy days such as holidays.
+          </s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="small">
+            {surcharges.map((rule) => (
+              <s-box key={rule.id} padding="base" background="base">
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <s-stack direction="block" gap="small" inlineSize="auto">
+                    <s-text type="strong">
+                      {formatDate(rule.startDate)}
+                      {rule.endDate && ` - ${formatDate(rule.endDate)}`}
+                    </s-text>
+                    <s-stack direction="inline" gap="small">
+                      <s-badge tone="success">
+                        +{formatFeeAmount(rule.amount)}
+                      </s-badge>
+                      <s-badge tone="info">
+                        {rule.cityId ? cityName(rule.cityId) : "All cities"}
+                      </s-badge>
+                      {rule.repeatsYearly && (
+                        <s-badge tone="info">Every year</s-badge>
+                      )}
+                      {rule.label && <s-badge>{rule.label}</s-badge>}
+                    </s-stack>
+                  </s-stack>
+                  <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                    <input
+                      type="hidden"
+                      name="intent"
+                      value="deleteSurcharge"
+                    />
+                    <input type="hidden" name="id" value={rule.id} />
+                    <s-button
+                      variant="tertiary"
+                      tone="critical"
+                      type="submit"
+                      disabled={isSubmitting}
+                    >
+                      Remove
+                    </s-button>
+                  </fetcher.Form>
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="How Fees Add Up">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            The delivery fee is the city&apos;s base fee, plus the time
+            slot&apos;s surcharge, plus the date&apos;s surcharge. Amounts are
+            in your shop&apos;s currency.
+          </s-paragraph>
+          <s-paragraph>
+            When several date surcharges cover a date, only the highest one is
+            added.
+          </s-paragraph>
+          <s-paragraph>
+            The storefront availability endpoint returns the fee of every slot.
+            Try it in the Test Delivery Calculator.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
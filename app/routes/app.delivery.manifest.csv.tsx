@@ -0,0 +1,40 @@
+import type { LoaderFunctionArgs } from "react-router";
+import prisma from "../db.server";
+import { normalizeDate } from "../services";
+import { loadDeliveryBookings } from "../services/deliveryBookingService";
+import { loadCities, loadTimeSlots } from "../services/deliveryConfigService";
+import {
+  buildDeliveryManifest,
+  formatManifestCsv,
+} from "../services/deliveryManifestService";
+import { authenticate } from "../shopify.server";
+
+/**
+ * CSV download of the delivery manifest for `?date=YYYY-MM-DD`
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const url = new URL(request.url);
+  const date = normalizeDate(url.searchParams.get("date") ?? "");
+
+  if (!date) {
+    return new Response("Invalid date", { status: 400 });
+  }
+
+  const [bookings, cities, timeSlots] = await Promise.all([
+    loadDeliveryBookings(prisma, shop, date),
+    loadCities(prisma, shop),
+    loadTimeSlots(prisma, shop),
+  ]);
+
+  const manifest = buildDeliveryManifest(date, bookings, cities, timeSlots);
+
+  return new Response(formatManifestCsv(manifest), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="delivery-manifest-${date}.csv"`,
+    },
+  });
+};
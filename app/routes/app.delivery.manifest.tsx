@@ -0,0 +1,165 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { getZonedDateString, normalizeDate } from "../services";
+import { loadDeliveryBookings } from "../services/deliveryBookingService";
+import {
+  loadCities,
+  loadSettings,
+  loadTimeSlots,
+} from "../services/deliveryConfigService";
+import { buildDeliveryManifest } from "../services/deliveryManifestService";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const settings = await loadSettings(prisma, shop);
+  const url = new URL(request.url);
+  const date =
+    normalizeDate(url.searchParams.get("date") ?? "") ??
+    getZonedDateString(new Date(), settings.timezone);
+
+  const [bookings, cities, timeSlots] = await Promise.all([
+    loadDeliveryBookings(prisma, shop, date),
+    loadCities(prisma, shop),
+    loadTimeSlots(prisma, shop),
+  ]);
+
+  return { manifest: buildDeliveryManifest(date, bookings, cities, timeSlots) };
+};
+
+const cellStyle = {
+  padding: "6px 8px",
+  borderBottom: "1px solid #e1e3e5",
+  textAlign: "left" as const,
+  verticalAlign: "top" as const,
+};
+
+export default function DeliveryManifestPage() {
+  const { manifest } = useLoaderData<typeof loader>();
+  const shopify = useAppBridge();
+
+  const handleDownload = async () => {
+    const response = await fetch(
+      `/app/delivery/manifest/csv?date=${manifest.date}`,
+    );
+    if (!response.ok) {
+      shopify.toast.show("Failed to download the manifest CSV", {
+        isError: true,
+      });
+      return;
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `delivery-manifest-${manifest.date}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <s-page heading="Delivery Manifest">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="Delivery Date">
+        <Form method="GET">
+          <s-stack direction="inline" gap="base" alignItems="end">
+            <s-date-field
+              label="Date"
+              name="date"
+              defaultValue={manifest.date}
+              required
+            />
+            <s-button type="submit">Show Manifest</s-button>
+            <s-button onClick={() => window.print()}>Print</s-button>
+            <s-button
+              onClick={handleDownload}
+              disabled={manifest.totalOrders === 0}
+            >
+              Download CSV
+            </s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      <s-section heading={`Orders for ${manifest.date}`}>
+        {manifest.totalOrders === 0 ? (
+          <s-paragraph>No deliveries booked for this date.</s-paragraph>
+        ) : (
+          <div className="delivery-manifest">
+            <style>{`
+              @media print {
+                .delivery-manifest section { break-inside: avoid; }
+              }
+            `}</style>
+            <s-paragraph>
+              {manifest.totalOrders}{" "}
+              {manifest.totalOrders === 1 ? "order" : "orders"}
+            </s-paragraph>
+
+            {manifest.cities.map((city) => (
+              <section key={city.cityId ?? "none"}>
+                <h2 style={{ fontSize: "16px", margin: "16px 0 8px" }}>
+                  {city.name}
+                </h2>
+
+                {city.slots.map((slot) => (
+                  <section key={slot.timeSlotId ?? "none"}>
+                    <h3 style={{ fontSize: "14px", margin: "12px 0 4px" }}>
+                      {slot.label} ({slot.bookings.length})
+                    </h3>
+                    <table
+                      style={{
+                        width: "100%",
+                        borderCollapse: "collapse",
+                        fontSize: "13px",
+                      }}
+                    >
+                      <thead>
+                        <tr>
+                          <th style={cellStyle}>Order</th>
+                          <th style={cellStyle}>Customer</th>
+                          <th style={cellStyle}>Phone</th>
+                          <th style={cellStyle}>Address</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {slot.bookings.map((booking) => (
+                          <tr key={booking.orderId}>
+                            <td style={cellStyle}>
+                              {booking.orderName ?? booking.orderId}
+                            </td>
+                            <td style={cellStyle}>{booking.fullName}</td>
+                            <td style={cellStyle}>{booking.phoneNumber}</td>
+                            <td style={cellStyle}>{booking.deliveryAddress}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </section>
+                ))}
+              </section>
+            ))}
+          </div>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,598 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { parseTime } from "../services";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
+import {
+  createDateDisableRule,
+  createPickupLocation,
+  createSlotDisableRule,
+  loadPickupLocations,
+  loadTimeSlots,
+  savePickupLocationTimeSlots,
+  savePickupOpeningHours,
+  updatePickupLocation,
+} from "../services/deliveryConfigService";
+import type { OpeningHours } from "../services/types/delivery";
+import { authenticate } from "../shopify.server";
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const timeInputStyle = {
+  padding: "8px 12px",
+  border: "1px solid #8c9196",
+  borderRadius: "8px",
+  fontSize: "14px",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const [locations, slots] = await Promise.all([
+    loadPickupLocations(prisma, shop),
+    loadTimeSlots(prisma, shop),
+  ]);
+
+  return { locations, slots };
+};
+
+/**
+ * Reads the opening hours form fields, one open/close pair per weekday
+ *
+ * @returns The hours by weekday, or an error message
+ */
+function parseOpeningHoursForm(
+  formData: FormData,
+): { openingHours: Record<number, OpeningHours> } | { error: string } {
+  const openingHours: Record<number, OpeningHours> = {};
+
+  for (let day = 0; day < WEEKDAYS.length; day++) {
+    const openTime = ((formData.get(`open-${day}`) as string) ?? "").trim();
+    const closeTime = ((formData.get(`close-${day}`) as string) ?? "").trim();
+    if (!openTime && !closeTime) continue;
+
+    if (!parseTime(openTime) || !parseTime(closeTime)) {
+      return { error: `Enter opening and closing times for ${WEEKDAYS[day]}` };
+    }
+    if (openTime >= closeTime) {
+      return {
+        error: `${WEEKDAYS[day]} must close after it opens`,
+      };
+    }
+    openingHours[day] = { openTime, closeTime };
+  }
+
+  return { openingHours };
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shop = session.shop;
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const id = parseInt(formData.get("id") as string, 10);
+
+  if (intent === "createLocation") {
+    const name = ((formData.get("name") as string) ?? "").trim();
+    const cutoffTime = formData.get("cutoffTime") as string;
+
+    if (!name) {
+      return { success: false, error: "Enter a location name" };
+    }
+    if (!parseTime(cutoffTime)) {
+      return { success: false, error: "Enter a valid cutoff time" };
+    }
+
+    try {
+      await createPickupLocation(prisma, shop, {
+        name,
+        address:
+          ((formData.get("address") as string) ?? "").trim() || undefined,
+        cutoffTime,
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to create pickup location",
+      };
+    }
+  }
+
+  if (intent === "saveLocation") {
+    const name = ((formData.get("name") as string) ?? "").trim();
+    const cutoffTime = formData.get("cutoffTime") as string;
+    const bufferStr = formData.get("sameDayBufferMinutes") as string;
+    const hours = parseOpeningHoursForm(formData);
+
+    if (!name) {
+      return { success: false, error: "Enter a location name" };
+    }
+    if (!parseTime(cutoffTime)) {
+      return { success: false, error: "Enter a valid cutoff time" };
+    }
+    if ("error" in hours) {
+      return { success: false, error: hours.error };
+    }
+
+    try {
+      const updated = await updatePickupLocation(prisma, shop, id, {
+        name,
+        address: ((formData.get("address") as string) ?? "").trim() || null,
+        cutoffTime,
+        sameDayBufferMinutes: bufferStr ? parseInt(bufferStr, 10) : null,
+      });
+      if (!updated) {
+        return { success: false, error: "Pickup location not found" };
+      }
+
+      await Promise.all([
+        savePickupOpeningHours(prisma, shop, id, hours.openingHours),
+        savePickupLocationTimeSlots(
+          prisma,
+          shop,
+          id,
+          formData
+            .getAll("slotIds")
+            .map((slotId) => parseInt(slotId as string, 10)),
+        ),
+      ]);
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to save pickup location",
+      };
+    }
+  }
+
+  if (intent === "deleteLocation") {
+    try {
+      await updatePickupLocation(prisma, shop, id, { isActive: false });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to delete pickup location",
+      };
+    }
+  }
+
+  if (intent === "createClosure") {
+    const locationId = parseInt(formData.get("pickupLocationId") as string, 10);
+    const timeSlotIdStr = formData.get("timeSlotId") as string;
+    const startDateStr = formData.get("date") as string;
+    const endDateStr = formData.get("endDate") as string;
+    const reason = formData.get("reason") as string;
+
+    const locations = await loadPickupLocations(prisma, shop);
+    if (!locations.some((location) => location.id === locationId)) {
+      return { success: false, error: "Pickup location not found" };
+    }
+
+    if (endDateStr && endDateStr < startDateStr) {
+      return {
+        success: false,
+        error: "End date must be on or after the start date",
+      };
+    }
+
+    const rule = {
+      pickupLocationId: locationId,
+      startDate: new Date(startDateStr),
+      endDate: endDateStr ? new Date(endDateStr) : undefined,
+      reason: reason || undefined,
+    };
+
+    try {
+      if (timeSlotIdStr) {
+        await createSlotDisableRule(prisma, shop, {
+          ...rule,
+          timeSlotId: parseInt(timeSlotIdStr, 10),
+        });
+      } else {
+        await createDateDisableRule(prisma, shop, rule);
+      }
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to create closure",
+      };
+    }
+  }
+
+  if (intent === "deleteClosure") {
+    const where = { id, shop, pickupLocationId: { not: null } };
+
+    try {
+      if (formData.get("kind") === "slot") {
+        await prisma.disableTimeSlotRules.deleteMany({ where });
+      } else {
+        await prisma.disableDateRules.deleteMany({ where });
+      }
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to delete closure",
+      };
+    }
+  }
+
+  return { success: false, error: "Unknown intent" };
+};
+
+export default function PickupLocations() {
+  const { locations, slots } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Pickup locations saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleCreate =
+    (intent: string) => (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      const form = e.currentTarget;
+      const formData = new FormData(form);
+      formData.set("intent", intent);
+      fetcher.submit(formData, { method: "POST" });
+      form.reset();
+    };
+
+  const slotLabel = (slotId: number) =>
+    slots.find((slot) => slot.id === slotId)?.label ?? `Slot #${slotId}`;
+
+  // Format date for display
+  const formatDate = (dateStr: string) => {
+    try {
+      const date = new Date(dateStr + "T00:00:00");
+      return date.toLocaleDateString("en-US", {
+        weekday: "short",
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      });
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const closures = locations.flatMap((location) => [
+    ...location.dateDisableRules.map((rule) => ({
+      ...rule,
+      kind: "date",
+      location,
+      label: "Closed",
+    })),
+    ...location.slotDisableRules.map((rule) => ({
+      ...rule,
+      kind: "slot",
+      location,
+      label: slotLabel(rule.timeSlotId),
+    })),
+  ]);
+
+  return (
+    <s-page heading="Pickup Locations">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="Add Pickup Location">
+        <fetcher.Form method="POST" onSubmit={handleCreate("createLocation")}>
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Location Name"
+              name="name"
+              placeholder="e.g., Gulshan Store"
+              required
+            />
+            <s-text-field
+              label="Address (optional)"
+              name="address"
+              placeholder="e.g., 12 Gulshan Avenue"
+            />
+            <s-stack direction="block">
+              <label htmlFor="new-cutoffTime">Cutoff Time</label>
+              <input
+                id="new-cutoffTime"
+                name="cutoffTime"
+                type="time"
+                required
+                style={timeInputStyle}
+              />
+            </s-stack>
+            <s-button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Adding..." : "Add Pickup Location"}
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      {locations.map((location) => (
+        <s-section key={location.id} heading={location.name}>
+          <fetcher.Form method="POST">
+            <input type="hidden" name="intent" value="saveLocation" />
+            <input type="hidden" name="id" value={location.id} />
+            <s-stack direction="block" gap="base">
+              <s-text-field
+                label="Location Name"
+                name="name"
+                defaultValue={location.name}
+                required
+              />
+              <s-text-field
+                label="Address (optional)"
+                name="address"
+                defaultValue={location.address ?? ""}
+              />
+              <s-stack direction="inline" gap="base" alignItems="end">
+                <s-stack direction="block">
+                  <label htmlFor={`cutoffTime-${location.id}`}>
+                    Cutoff Time
+                  </label>
+                  <input
+                    id={`cutoffTime-${location.id}`}
+                    name="cutoffTime"
+                    type="time"
+                    defaultValue={location.cutoffTime}
+                    style={timeInputStyle}
+                  />
+                </s-stack>
+                <s-number-field
+                  label="Same-day buffer (minutes)"
+                  name="sameDayBufferMinutes"
+                  min={0}
+                  defaultValue={
+                    location.sameDayBufferMinutes !== undefined
+                      ? String(location.sameDayBufferMinutes)
+                      : ""
+                  }
+                />
+              </s-stack>
+
+              <s-stack direction="block" gap="small">
+                <s-text type="strong">Opening hours</s-text>
+                <s-paragraph>
+                  Leave a day empty to close the location that day. Leave every
+                  day empty to stay open every day.
+                </s-paragraph>
+                {WEEKDAYS.map((day, index) => (
+                  <s-stack
+                    key={day}
+                    direction="inline"
+                    gap="base"
+                    alignItems="center"
+                  >
+                    <label
+                      htmlFor={`open-${location.id}-${index}`}
+                      style={{ width: "120px" }}
+                    >
+                      {day}
+                    </label>
+                    <input
+                      id={`open-${location.id}-${index}`}
+                      name={`open-${index}`}
+                      type="time"
+                      aria-label={`${day} opening time`}
+                      defaultValue={
+                        location.openingHours[index]?.openTime ?? ""
+                      }
+                      style={timeInputStyle}
+                    />
+                    <input
+                      name={`close-${index}`}
+                      type="time"
+                      aria-label={`${day} closing time`}
+                      defaultValue={
+                        location.openingHours[index]?.closeTime ?? ""
+                      }
+                      style={timeInputStyle}
+                    />
+                  </s-stack>
+                ))}
+              </s-stack>
+
+              {slots.length > 0 && (
+                <s-stack direction="block" gap="small">
+                  <s-text type="strong">Pickup slots</s-text>
+                  <s-paragraph>
+                    Leave all unchecked to offer every slot within the opening
+                    hours.
+                  </s-paragraph>
+                  <s-stack direction="inline" gap="base">
+                    {slots.map((slot) => (
+                      <s-checkbox
+                        key={slot.id}
+                        label={slot.label}
+                        name="slotIds"
+                        value={String(slot.id)}
+                        defaultChecked={location.timeSlots?.some(
+                          (assigned) => assigned.id === slot.id,
+                        )}
+                      />
+                    ))}
+                  </s-stack>
+                </s-stack>
+              )}
+
+              <s-stack direction="inline" gap="base">
+                <s-button type="submit" disabled={isSubmitting}>
+                  Save
+                </s-button>
+                <s-button
+                  variant="tertiary"
+                  tone="critical"
+                  disabled={isSubmitting}
+                  onClick={() =>
+                    fetcher.submit(
+                      { intent: "deleteLocation", id: location.id },
+                      { method: "POST" },
+                    )
+                  }
+                >
+                  Delete
+                </s-button>
+              </s-stack>
+            </s-stack>
+          </fetcher.Form>
+        </s-section>
+      ))}
+
+      {locations.length > 0 && (
+        <s-section heading="Add Closure">
+          <fetcher.Form method="POST" onSubmit={handleCreate("createClosure")}>
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" gap="base">
+                <s-select label="Location" name="pickupLocationId" required>
+                  {locations.map((location) => (
+                    <s-option key={location.id} value={String(location.id)}>
+                      {location.name}
+                    </s-option>
+                  ))}
+                </s-select>
+                <s-select label="Time Slot" name="timeSlotId">
+                  <s-option value="">Whole day</s-option>
+                  {slots.map((slot) => (
+                    <s-option key={slot.id} value={String(slot.id)}>
+                      {slot.label}
+                    </s-option>
+                  ))}
+                </s-select>
+              </s-stack>
+
+              <s-stack direction="inline" gap="base">
+                <s-date-field label="Date" name="date" required />
+                <s-date-field label="Until (optional)" name="endDate" />
+              </s-stack>
+
+              <s-text-field
+                label="Reason (optional)"
+                name="reason"
+                placeholder="e.g., Stocktaking"
+              />
+
+              <s-button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Adding..." : "Add Closure"}
+              </s-button>
+            </s-stack>
+          </fetcher.Form>
+        </s-section>
+      )}
+
+      {closures.length > 0 && (
+        <s-section heading="Closures">
+          <s-stack direction="block" gap="small">
+            {closures.map((closure) => (
+              <s-box
+                key={`${closure.kind}-${closure.id}`}
+                padding="base"
+                background="base"
+              >
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <s-stack direction="block" gap="small" inlineSize="auto">
+                    <s-text type="strong">
+                      {formatDate(closure.startDate)}
+                      {closure.endDate && ` - ${formatDate(closure.endDate)}`}
+                    </s-text>
+                    <s-stack direction="inline" gap="small">
+                      <s-badge tone="info">{closure.location.name}</s-badge>
+                      <s-badge tone="warning">{closure.label}</s-badge>
+                      {closure.reason && <s-badge>{closure.reason}</s-badge>}
+                    </s-stack>
+                  </s-stack>
+                  <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                    <input type="hidden" name="intent" value="deleteClosure" />
+                    <input type="hidden" name="kind" value={closure.kind} />
+                    <input type="hidden" name="id" value={closure.id} />
+                    <s-button
+                      variant="tertiary"
+                      tone="critical"
+                      type="submit"
+                      disabled={isSubmitting}
+                    >
+                      Remove
+                    </s-button>
+                  </fetcher.Form>
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        </s-section>
+      )}
+
+      <s-section slot="aside" heading="How Pickup Works">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            Customers who collect their order choose a pickup location instead
+            of a delivery city, and do not need to enter an address.
+          </s-paragraph>
+          <s-paragraph>
+            Product preparation days and the production calendar apply as for
+            delivery. City rules, slot capacity, delivery zones and delivery
+            fees do not.
+          </s-paragraph>
+          <s-paragraph>
+            Slots are only offered within the opening hours of the day, and
+            never on closure dates.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,278 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
+import {
+  createProductionClosure,
+  loadProductionClosures,
+  loadSettings,
+  saveSettings,
+} from "../services/deliveryConfigService";
+import { authenticate } from "../shopify.server";
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const [settings, closures] = await Promise.all([
+    loadSettings(prisma, shop),
+    loadProductionClosures(prisma, shop),
+  ]);
+
+  return { workingDays: settings.productionDays, closures };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shop = session.shop;
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "saveWorkingDays") {
+    const workingDays = formData
+      .getAll("workingDays")
+      .map((day) => parseInt(day as string, 10));
+
+    if (workingDays.length === 0) {
+      return { success: false, error: "Select at least one working day" };
+    }
+
+    try {
+      await saveSettings(prisma, shop, { productionDays: workingDays });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to save working days",
+      };
+    }
+  }
+
+  if (intent === "createClosure") {
+    const startDateStr = formData.get("date") as string;
+    const endDateStr = formData.get("endDate") as string;
+    const reason = formData.get("reason") as string;
+
+    if (endDateStr && endDateStr < startDateStr) {
+      return {
+        success: false,
+        error: "End date must be on or after the start date",
+      };
+    }
+
+    try {
+      await createProductionClosure(prisma, shop, {
+        startDate: new Date(startDateStr),
+        endDate: endDateStr ? new Date(endDateStr) : undefined,
+        reason: reason || undefined,
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to create closure",
+      };
+    }
+  }
+
+  if (intent === "deleteClosure") {
+    const id = parseInt(formData.get("id") as string, 10);
+
+    try {
+      await prisma.productionClosure.deleteMany({
+        where: { id, shop },
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to delete closure",
+      };
+    }
+  }
+
+  return { success: false, error: "Unknown intent" };
+};
+
+export default function ProductionCalendar() {
+  const { workingDays, closures } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Production calendar saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleCreateClosure = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("intent", "createClosure");
+    fetcher.submit(formData, { method: "POST" });
+    form.reset();
+  };
+
+  // Format date for display
+  const formatDate = (dateStr: string) => {
+    try {
+      const date = new Date(dateStr + "T00:00:00");
+      return date.toLocaleDateString("en-US", {
+        weekday: "short",
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      });
+    } catch {
+      return dateStr;
+    }
+  };
+
+  return (
+    <s-page heading="Production Calendar">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="Working Days">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="intent" value="saveWorkingDays" />
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              Days the kitchen prepares orders. Preparation time only counts
+              these days.
+            </s-paragraph>
+
+            <s-stack direction="inline" gap="base">
+              {WEEKDAYS.map((day, index) => (
+                <s-checkbox
+                  key={day}
+                  label={day}
+                  name="workingDays"
+                  value={String(index)}
+                  defaultChecked={workingDays.includes(index)}
+                />
+              ))}
+            </s-stack>
+
+            <s-button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save Working Days"}
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Add Kitchen Closure">
+        <fetcher.Form method="POST" onSubmit={handleCreateClosure}>
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base">
+              <s-date-field label="Date" name="date" required />
+              <s-date-field label="Until (optional)" name="endDate" />
+            </s-stack>
+
+            <s-text-field
+              label="Reason (optional)"
+              name="reason"
+              placeholder="e.g., Staff holiday, Kitchen renovation"
+            />
+
+            <s-button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Adding..." : "Add Closure"}
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Kitchen Closures">
+        {closures.length === 0 ? (
+          <s-paragraph>
+            No closures yet. Add dates when the kitchen does not prepare orders.
+          </s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="small">
+            {closures.map((closure) => (
+              <s-box key={closure.id} padding="base" background="base">
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <s-stack direction="block" gap="small" inlineSize="auto">
+                    <s-text type="strong">
+                      {formatDate(closure.startDate)}
+                      {closure.endDate && ` - ${formatDate(closure.endDate)}`}
+                    </s-text>
+                    {closure.reason && <s-badge>{closure.reason}</s-badge>}
+                  </s-stack>
+                  <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                    <input type="hidden" name="intent" value="deleteClosure" />
+                    <input type="hidden" name="id" value={closure.id} />
+                    <s-button
+                      variant="tertiary"
+                      tone="critical"
+                      type="submit"
+                      disabled={isSubmitting}
+                    >
+                      Remove
+                    </s-button>
+                  </fetcher.Form>
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="About the Production Calendar">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            A 2 day cake ordered on Thursday, with the kitchen closed on Friday
+            and Saturday, is prepared on Thursday and Sunday and delivered on
+            Monday.
+          </s-paragraph>
+          <s-paragraph>
+            Closing the kitchen does not stop deliveries. Use Disabled Dates for
+            days you do not deliver.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,241 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { Form, useFetcher, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { getProductDelay, parsePrepDays } from "../services";
+import { loadDeliveryConfig } from "../services/deliveryConfigService";
+import {
+  loadProductPrepTimes,
+  saveProductPrepDays,
+} from "../services/productPrepTimeService";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const url = new URL(request.url);
+  const query = url.searchParams.get("q") ?? "";
+  const after = url.searchParams.get("after") ?? "";
+
+  const [config, { products, nextCursor }] = await Promise.all([
+    loadDeliveryConfig(prisma, shop),
+    loadProductPrepTimes(admin, { query, after }),
+  ]);
+
+  return {
+    query,
+    isFirstPage: !after,
+    nextCursor,
+    products: products.map((product) => ({
+      ...product,
+      delayDays: getProductDelay(
+        { tags: product.tags, productPrepDays: product.prepDays },
+        config.delayTagRules,
+      ),
+    })),
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "bulkUpdate") {
+    const productIds = formData.getAll("productId") as string[];
+    const prepDaysStr = ((formData.get("prepDays") as string) ?? "").trim();
+    const prepDays = parsePrepDays(prepDaysStr);
+
+    if (productIds.length === 0) {
+      return { success: false, error: "Select at least one product" };
+    }
+
+    if (prepDaysStr && prepDays === undefined) {
+      return {
+        success: false,
+        error: "Preparation time must be a whole number of days, 0 or more",
+      };
+    }
+
+    try {
+      await saveProductPrepDays(admin, productIds, prepDays ?? null);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to update preparation time",
+      };
+    }
+  }
+
+  return { success: false, error: "Unknown intent" };
+};
+
+/**
+ * Formats a delay in days
+ */
+function formatDays(days: number): string {
+  if (days === 0) return "No delay";
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+export default function ProductPrepTimes() {
+  const { query, isFirstPage, nextCursor, products } =
+    useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Preparation time saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const pageUrl = (after?: string) => {
+    const params = new URLSearchParams();
+    if (query) params.set("q", query);
+    if (after) params.set("after", after);
+    const search = params.toString();
+    return `/app/delivery/products${search ? `?${search}` : ""}`;
+  };
+
+  return (
+    <s-page heading="Product Preparation Time">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="Search">
+        <Form method="GET">
+          <s-stack direction="inline" gap="base" alignItems="end">
+            <s-search-field
+              label="Products"
+              name="q"
+              defaultValue={query}
+              placeholder="Title, tag:cake, product_type:Cakes"
+            />
+            <s-button type="submit">Search</s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      <s-section heading="Products">
+        {products.length === 0 ? (
+          <s-paragraph>No products found.</s-paragraph>
+        ) : (
+          <fetcher.Form method="POST">
+            <input type="hidden" name="intent" value="bulkUpdate" />
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" gap="base" alignItems="end">
+                <s-number-field
+                  label="Preparation time (days)"
+                  name="prepDays"
+                  min={0}
+                  details="Leave empty to remove it and use tags again"
+                />
+                <s-button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Saving..." : "Apply to Selected"}
+                </s-button>
+              </s-stack>
+
+              <s-stack direction="block" gap="small">
+                {products.map((product) => (
+                  <s-box key={product.id} padding="base" background="subdued">
+                    <s-stack direction="inline" gap="base" alignItems="center">
+                      <s-checkbox
+                        label={product.title}
+                        name="productId"
+                        value={product.id}
+                      />
+                      <div style={{ marginLeft: "auto" }}>
+                        <s-stack direction="inline" gap="small">
+                          <s-badge
+                            tone={product.delayDays > 0 ? "warning" : "neutral"}
+                          >
+                            {formatDays(product.delayDays)}
+                          </s-badge>
+                          <s-badge tone="info">
+                            {product.prepDays !== undefined
+                              ? "From metafield"
+                              : "From tags"}
+                          </s-badge>
+                          {product.variantOverrides.length > 0 && (
+                            <s-badge>
+                              Variant overrides:{" "}
+                              {product.variantOverrides.length}
+                            </s-badge>
+                          )}
+                          {product.hasMoreVariants && (
+                            <s-link
+                              href={`shopify://admin/products/${product.id.split("/").pop()}`}
+                              target="_blank"
+                            >
+                              More variants
+                            </s-link>
+                          )}
+                        </s-stack>
+                      </div>
+                    </s-stack>
+                  </s-box>
+                ))}
+              </s-stack>
+            </s-stack>
+          </fetcher.Form>
+        )}
+
+        <s-stack direction="inline" gap="base">
+          {!isFirstPage && (
+            <s-button href={pageUrl()} variant="secondary">
+              First Page
+            </s-button>
+          )}
+          {nextCursor && (
+            <s-button href={pageUrl(nextCursor)} variant="secondary">
+              Next Page
+            </s-button>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="About Preparation Time">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            Preparation time is stored in the{" "}
+            <s-text type="strong">delivery.prep_days</s-text> metafield. A
+            variant&apos;s own value takes priority over the product&apos;s.
+          </s-paragraph>
+          <s-paragraph>
+            Products without the metafield use their delay tags instead.
+          </s-paragraph>
+          <s-paragraph>
+            The earliest delivery date follows the product in the cart with the
+            longest preparation time.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -8,6 +8,7 @@ import type {
 } from "react-router";
 import { useFetcher, useLoaderData } from "react-router";
 import prisma from "../db.server";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
 import {
   createSlotDisableRule,
   loadCities,
@@ -30,7 +31,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const intent = formData.get("intent");
@@ -50,6 +51,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         cityId: cityIdStr ? parseInt(cityIdStr) : undefined,
         reason: reason || undefined,
       });
+      await republishCheckoutRules(prisma, admin, shop);
 
       return { success: true };
     } catch (error) {
@@ -67,6 +69,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       await prisma.disableTimeSlotRules.delete({
         where: { id },
       });
+      await republishCheckoutRules(prisma, admin, shop);
 
       return { success: true };
     } catch (error) {
@@ -323,11 +326,15 @@ export default function SlotDisableRules() {
             slot itself
           </s-paragraph>
           <s-paragraph>
-            <s-text type="strong">2. Date-specific</s-text> - Rules with a date
+            <s-text type="strong">2. City assignment</s-text> - Slots assigned
+            on the city page
+          </s-paragraph>
+          <s-paragraph>
+            <s-text type="strong">3. Date-specific</s-text> - Rules with a date
             but no city
           </s-paragraph>
           <s-paragraph>
-            <s-text type="strong">3. City + Date</s-text> - Most specific rules
+            <s-text type="strong">4. City + Date</s-text> - Most specific rules
           </s-paragraph>
         </s-stack>
       </s-section>
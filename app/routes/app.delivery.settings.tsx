@@ -0,0 +1,243 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { publishCheckoutRules } from "../services/checkoutValidationService";
+import { registerCarrierService } from "../services/deliveryCarrierService";
+import {
+  DEFAULT_STOREFRONT_SELECTORS,
+  loadDeliveryConfig,
+  loadSettings,
+  saveSettings,
+} from "../services/deliveryConfigService";
+import { syncShopTimezone } from "../services/shopTimezoneService";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const settings = await loadSettings(prisma, shop);
+
+  return { settings };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shop = session.shop;
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "update") {
+    const cartForm = (formData.get("cartForm") as string).trim();
+    const checkoutButton = (formData.get("checkoutButton") as string).trim();
+
+    try {
+      const settings = await saveSettings(prisma, shop, {
+        selectors: {
+          cartForm: cartForm || DEFAULT_STOREFRONT_SELECTORS.cartForm,
+          checkoutButton:
+            checkoutButton || DEFAULT_STOREFRONT_SELECTORS.checkoutButton,
+        },
+      });
+
+      return { success: true, settings };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to save settings",
+      };
+    }
+  }
+
+  if (intent === "syncTimezone") {
+    try {
+      const timezone = await syncShopTimezone(prisma, admin, shop);
+
+      if (!timezone) {
+        return { success: false, error: "Shop timezone is not available" };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to sync timezone",
+      };
+    }
+  }
+
+  if (intent === "publishRules") {
+    try {
+      const config = await loadDeliveryConfig(prisma, shop);
+      await publishCheckoutRules(admin, config);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to publish checkout rules",
+      };
+    }
+  }
+
+  if (intent === "registerCarrierService") {
+    try {
+      await registerCarrierService(admin, process.env.SHOPIFY_APP_URL || "");
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to register shipping rates",
+      };
+    }
+  }
+
+  return { success: false, error: "Unknown intent" };
+};
+
+export default function DeliverySettingsPage() {
+  const { settings } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Settings saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  return (
+    <s-page heading="Storefront Settings">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="Timezone">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Cutoff times and delivery dates are calculated in your store&apos;s
+            timezone: <s-badge>{settings.timezone}</s-badge>
+          </s-paragraph>
+          <fetcher.Form method="POST">
+            <input type="hidden" name="intent" value="syncTimezone" />
+            <s-button type="submit" disabled={isSubmitting}>
+              Sync from Shopify
+            </s-button>
+          </fetcher.Form>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Checkout Validation">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Checkout is blocked when the delivery city, date or time slot is
+            missing or breaks your delivery rules, including orders placed
+            through accelerated checkouts that skip the cart page.
+          </s-paragraph>
+          <s-paragraph>
+            Slot capacity, slot cutoffs, same-day buffers and zone cutoffs are
+            only checked by the cart picker, and map zones are checked by their
+            outline there but only roughly at checkout.
+          </s-paragraph>
+          <s-paragraph>
+            Publish once to turn checkout validation on. After that, the rules
+            are published again whenever you save a city, time slot, delay tag,
+            disabled date or pickup location.
+          </s-paragraph>
+          <fetcher.Form method="POST">
+            <input type="hidden" name="intent" value="publishRules" />
+            <s-button type="submit" disabled={isSubmitting}>
+              Publish Checkout Rules
+            </s-button>
+          </fetcher.Form>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Shipping Rates">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Offer each available delivery date and time slot as a shipping rate
+            at checkout, priced with your delivery fees. Closed dates and full
+            slots are never offered.
+          </s-paragraph>
+          <s-paragraph>
+            Requires third-party calculated shipping rates on your Shopify plan.
+            Rates are calculated live, so changes apply right away.
+          </s-paragraph>
+          <fetcher.Form method="POST">
+            <input type="hidden" name="intent" value="registerCarrierService" />
+            <s-button type="submit" disabled={isSubmitting}>
+              Register Shipping Rates
+            </s-button>
+          </fetcher.Form>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Theme Selectors">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="intent" value="update" />
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Cart form selector"
+              name="cartForm"
+              defaultValue={settings.selectors.cartForm}
+              placeholder={DEFAULT_STOREFRONT_SELECTORS.cartForm}
+            />
+
+            <s-text-field
+              label="Checkout button selector"
+              name="checkoutButton"
+              defaultValue={settings.selectors.checkoutButton}
+              placeholder={DEFAULT_STOREFRONT_SELECTORS.checkoutButton}
+            />
+
+            <s-button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save Settings"}
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section slot="aside" heading="About Selectors">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            The delivery date picker block uses these CSS selectors to find the
+            cart form and checkout buttons in your theme.
+          </s-paragraph>
+          <s-paragraph>
+            Checkout stays disabled until the customer has filled in all
+            delivery details.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -8,24 +8,117 @@ import type {
 } from "react-router";
 import { useFetcher, useLoaderData } from "react-router";
 import prisma from "../db.server";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
 import {
+  addDaysToDateString,
+  getSlotCapacityStatus,
+  getZonedDateString,
+  parseTime,
+} from "../services";
+import { loadSlotBookingCounts } from "../services/deliveryBookingService";
+import {
+  createSlotCapacityRule,
   createTimeSlot,
+  loadCities,
+  loadSettings,
+  loadSlotCapacityRules,
   loadTimeSlots,
+  saveSettings,
   updateTimeSlot,
 } from "../services/deliveryConfigService";
 import { authenticate } from "../shopify.server";
 
+/** Number of upcoming days shown in the remaining capacity overview */
+const CAPACITY_DAYS = 7;
+
+/**
+ * Reads a slot's cutoff time and days before from the form
+ *
+ * @param formData - Submitted form data
+ * @returns Cutoff (null time = no slot cutoff), or an error message
+ */
+function parseSlotCutoff(
+  formData: FormData,
+): { cutoffTime: string | null; cutoffDaysBefore: number } | { error: string } {
+  const cutoffTime =
+    ((formData.get("cutoffTime") as string) ?? "").trim() || null;
+  const daysStr = ((formData.get("cutoffDaysBefore") as string) ?? "").trim();
+  const cutoffDaysBefore = daysStr ? parseInt(daysStr, 10) : 0;
+
+  if (cutoffTime && !parseTime(cutoffTime)) {
+    return { error: "Cutoff time must be in HH:mm format" };
+  }
+  if (isNaN(cutoffDaysBefore) || cutoffDaysBefore < 0) {
+    return { error: "Days before must be a whole number, 0 or more" };
+  }
+
+  return { cutoffTime, cutoffDaysBefore };
+}
+
+/**
+ * Describes a slot's cutoff for the slot list
+ *
+ * @param cutoffTime - Cutoff time in HH:mm format
+ * @param cutoffDaysBefore - Days before the delivery date
+ * @returns e.g. "Order by 20:00, 1 day before"
+ */
+function describeSlotCutoff(
+  cutoffTime: string,
+  cutoffDaysBefore: number = 0,
+): string {
+  if (cutoffDaysBefore === 0) {
+    return `Order by ${cutoffTime} same day`;
+  }
+  return `Order by ${cutoffTime}, ${cutoffDaysBefore} ${
+    cutoffDaysBefore === 1 ? "day" : "days"
+  } before`;
+}
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
 
-  const slots = await loadTimeSlots(prisma, shop);
+  const [slots, settings, capacityRules, cities] = await Promise.all([
+    loadTimeSlots(prisma, shop),
+    loadSettings(prisma, shop),
+    loadSlotCapacityRules(prisma, shop),
+    loadCities(prisma, shop),
+  ]);
+
+  const today = getZonedDateString(new Date(), settings.timezone);
+  const lastDay = addDaysToDateString(today, CAPACITY_DAYS - 1);
+  const bookings = await loadSlotBookingCounts(prisma, shop, today, lastDay);
+  const capacity = {
+    defaultCapacity: settings.slotCapacity,
+    rules: capacityRules,
+    bookings,
+  };
 
-  return { slots };
+  // Shop-wide remaining capacity per active slot for the upcoming days
+  const upcomingCapacity = Array.from({ length: CAPACITY_DAYS }, (_, i) => {
+    const date = addDaysToDateString(today, i);
+    return {
+      date,
+      slots: slots
+        .filter((slot) => slot.isActive)
+        .map((slot) => ({
+          slot,
+          status: getSlotCapacityStatus(slot.id, date, null, capacity) ?? null,
+        })),
+    };
+  });
+
+  return {
+    slots,
+    slotCapacity: settings.slotCapacity ?? null,
+    capacityRules,
+    cities,
+    upcomingCapacity,
+  };
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const intent = formData.get("intent");
@@ -33,12 +126,37 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   if (intent === "create") {
     const startTime = formData.get("startTime") as string;
     const endTime = formData.get("endTime") as string;
+    const bufferStr = (
+      (formData.get("sameDayBufferMinutes") as string) ?? ""
+    ).trim();
+    const sameDayBufferMinutes = bufferStr
+      ? parseInt(bufferStr, 10)
+      : undefined;
+
+    if (
+      sameDayBufferMinutes !== undefined &&
+      (isNaN(sameDayBufferMinutes) || sameDayBufferMinutes < 0)
+    ) {
+      return {
+        success: false,
+        error: "Same-day buffer must be a whole number of minutes, 0 or more",
+      };
+    }
+
+    const cutoff = parseSlotCutoff(formData);
+    if ("error" in cutoff) {
+      return { success: false, error: cutoff.error };
+    }
 
     try {
       const newSlot = await createTimeSlot(prisma, shop, {
         startTime,
         endTime,
+        sameDayBufferMinutes,
+        cutoffTime: cutoff.cutoffTime ?? undefined,
+        cutoffDaysBefore: cutoff.cutoffDaysBefore,
       });
+      await republishCheckoutRules(prisma, admin, shop);
 
       return {
         success: true,
@@ -66,6 +184,79 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         isActive,
       });
 
+      if (!updated) {
+        return {
+          success: false,
+          error: "Time slot not found",
+        };
+      }
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return {
+        success: true,
+        slot: updated,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to update time slot",
+      };
+    }
+  }
+
+  if (intent === "saveBuffer") {
+    const id = parseInt(formData.get("id") as string);
+    const bufferStr = (
+      (formData.get("sameDayBufferMinutes") as string) ?? ""
+    ).trim();
+    const sameDayBufferMinutes = bufferStr ? parseInt(bufferStr, 10) : null;
+
+    if (
+      sameDayBufferMinutes !== null &&
+      (isNaN(sameDayBufferMinutes) || sameDayBufferMinutes < 0)
+    ) {
+      return {
+        success: false,
+        error: "Same-day buffer must be a whole number of minutes, 0 or more",
+      };
+    }
+
+    try {
+      const updated = await updateTimeSlot(prisma, shop, id, {
+        sameDayBufferMinutes,
+      });
+
+      if (!updated) {
+        return {
+          success: false,
+          error: "Time slot not found",
+        };
+      }
+
+      return {
+        success: true,
+        slot: updated,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to update time slot",
+      };
+    }
+  }
+
+  if (intent === "saveCutoff") {
+    const id = parseInt(formData.get("id") as string);
+    const cutoff = parseSlotCutoff(formData);
+    if ("error" in cutoff) {
+      return { success: false, error: cutoff.error };
+    }
+
+    try {
+      const updated = await updateTimeSlot(prisma, shop, id, cutoff);
+
       if (!updated) {
         return {
           success: false,
@@ -101,6 +292,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           error: "Time slot not found",
         };
       }
+      await republishCheckoutRules(prisma, admin, shop);
 
       return {
         success: true,
@@ -120,6 +312,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     try {
       await updateTimeSlot(prisma, shop, id, { isActive: false });
+      await republishCheckoutRules(prisma, admin, shop);
 
       return {
         success: true,
@@ -133,11 +326,83 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
   }
 
+  if (intent === "saveCapacity") {
+    const capacityStr = (formData.get("slotCapacity") as string).trim();
+    const slotCapacity = capacityStr ? parseInt(capacityStr, 10) : null;
+
+    if (slotCapacity !== null && (isNaN(slotCapacity) || slotCapacity < 0)) {
+      return { success: false, error: "Capacity must be 0 or more" };
+    }
+
+    try {
+      await saveSettings(prisma, shop, { slotCapacity });
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to save capacity",
+      };
+    }
+  }
+
+  if (intent === "createCapacityRule") {
+    const capacity = parseInt(formData.get("capacity") as string, 10);
+    const timeSlotIdStr = formData.get("timeSlotId") as string;
+    const cityIdStr = formData.get("cityId") as string;
+    const dateStr = formData.get("date") as string;
+
+    if (isNaN(capacity) || capacity < 0) {
+      return { success: false, error: "Capacity must be 0 or more" };
+    }
+
+    try {
+      await createSlotCapacityRule(prisma, shop, {
+        timeSlotId: timeSlotIdStr ? parseInt(timeSlotIdStr, 10) : undefined,
+        cityId: cityIdStr ? parseInt(cityIdStr, 10) : undefined,
+        date: dateStr ? new Date(dateStr) : undefined,
+        capacity,
+      });
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to create capacity rule",
+      };
+    }
+  }
+
+  if (intent === "deleteCapacityRule") {
+    const id = parseInt(formData.get("id") as string, 10);
+
+    try {
+      await prisma.slotCapacityRule.deleteMany({
+        where: { id, shop },
+      });
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to delete capacity rule",
+      };
+    }
+  }
+
   return { success: false, error: "Unknown intent" };
 };
 
 export default function DeliverySlots() {
-  const { slots } = useLoaderData<typeof loader>();
+  const { slots, slotCapacity, capacityRules, cities, upcomingCapacity } =
+    useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
   const shopify = useAppBridge();
 
@@ -146,6 +411,8 @@ export default function DeliverySlots() {
   useEffect(() => {
     if (fetcher.data?.success) {
       shopify.toast.show("Time slot saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
     }
   }, [fetcher.data, shopify]);
 
@@ -158,6 +425,26 @@ export default function DeliverySlots() {
     form.reset();
   };
 
+  const handleCreateCapacityRule = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("intent", "createCapacityRule");
+    fetcher.submit(formData, { method: "POST" });
+    form.reset();
+  };
+
+  const slotLabel = (slotId?: number) => {
+    if (!slotId) return "All slots";
+    const slot = slots.find((s) => s.id === slotId);
+    return slot ? slot.label || `${slot.startTime} - ${slot.endTime}` : "Slot";
+  };
+
+  const cityName = (cityId?: number) =>
+    cityId
+      ? (cities.find((city) => city.id === cityId)?.name ?? "Unknown city")
+      : "All cities";
+
   return (
     <s-page heading="Delivery Time Slots">
       <s-link slot="breadcrumb-actions" href="/app/delivery">
@@ -217,6 +504,46 @@ export default function DeliverySlots() {
               </div>
             </s-stack>
 
+            <s-number-field
+              label="Same-day buffer (minutes, optional)"
+              name="sameDayBufferMinutes"
+              min={0}
+              details="Same-day orders must be placed at least this long before the slot starts"
+            />
+
+            <s-stack direction="inline" gap="base">
+              <div>
+                <label
+                  htmlFor="cutoffTime"
+                  style={{
+                    display: "block",
+                    marginBottom: "4px",
+                    fontWeight: 500,
+                  }}
+                >
+                  Order cutoff (optional)
+                </label>
+                <input
+                  id="cutoffTime"
+                  type="time"
+                  name="cutoffTime"
+                  style={{
+                    padding: "8px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                  }}
+                />
+              </div>
+
+              <s-number-field
+                label="Days before delivery"
+                name="cutoffDaysBefore"
+                min={0}
+                defaultValue="0"
+                details="0 = same day, 1 = the day before"
+              />
+            </s-stack>
+
             <s-button type="submit" disabled={isSubmitting}>
               {isSubmitting ? "Adding..." : "Add Time Slot"}
             </s-button>
@@ -238,6 +565,9 @@ export default function DeliverySlots() {
                 startTime: string;
                 endTime: string;
                 isActive: boolean;
+                sameDayBufferMinutes?: number;
+                cutoffTime?: string;
+                cutoffDaysBefore?: number;
               }) => (
                 <s-box key={slot.id} padding="base" background="subdued">
                   <s-stack direction="inline" gap="base" alignItems="center">
@@ -252,6 +582,19 @@ export default function DeliverySlots() {
                         {!slot.isActive && (
                           <s-badge tone="critical">Inactive</s-badge>
                         )}
+                        {slot.sameDayBufferMinutes ? (
+                          <s-badge tone="info">
+                            Same-day: {slot.sameDayBufferMinutes} min before
+                          </s-badge>
+                        ) : null}
+                        {slot.cutoffTime && (
+                          <s-badge tone="warning">
+                            {describeSlotCutoff(
+                              slot.cutoffTime,
+                              slot.cutoffDaysBefore,
+                            )}
+                          </s-badge>
+                        )}
                       </s-stack>
                     </s-stack>
                     <div
@@ -261,6 +604,67 @@ export default function DeliverySlots() {
                         gap: "8px",
                       }}
                     >
+                      <fetcher.Form method="POST">
+                        <input type="hidden" name="intent" value="saveBuffer" />
+                        <input type="hidden" name="id" value={slot.id} />
+                        <s-stack
+                          direction="inline"
+                          gap="small"
+                          alignItems="end"
+                        >
+                          <s-number-field
+                            label="Same-day buffer (min)"
+                            name="sameDayBufferMinutes"
+                            min={0}
+                            defaultValue={
+                              slot.sameDayBufferMinutes !== undefined
+                                ? String(slot.sameDayBufferMinutes)
+                                : ""
+                            }
+                          />
+                          <s-button
+                            variant="tertiary"
+                            type="submit"
+                            disabled={isSubmitting}
+                          >
+                            Save
+                          </s-button>
+                        </s-stack>
+                      </fetcher.Form>
+                      <fetcher.Form method="POST">
+                        <input type="hidden" name="intent" value="saveCutoff" />
+                        <input type="hidden" name="id" value={slot.id} />
+                        <s-stack
+                          direction="inline"
+                          gap="small"
+                          alignItems="end"
+                        >
+                          <input
+                            type="time"
+                            name="cutoffTime"
+                            aria-label="Order cutoff"
+                            defaultValue={slot.cutoffTime ?? ""}
+                            style={{
+                              padding: "8px",
+                              border: "1px solid #ccc",
+                              borderRadius: "4px",
+                            }}
+                          />
+                          <s-number-field
+                            label="Days before"
+                            name="cutoffDaysBefore"
+                            min={0}
+                            defaultValue={String(slot.cutoffDaysBefore ?? 0)}
+                          />
+                          <s-button
+                            variant="tertiary"
+                            type="submit"
+                            disabled={isSubmitting}
+                          >
+                            Save
+                          </s-button>
+                        </s-stack>
+                      </fetcher.Form>
                       <fetcher.Form method="POST">
                         <input type="hidden" name="intent" value="toggle" />
                         <input type="hidden" name="id" value={slot.id} />
@@ -297,6 +701,154 @@ export default function DeliverySlots() {
           </s-stack>
         )}
       </s-section>
+
+      <s-section heading="Slot Capacity">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="intent" value="saveCapacity" />
+          <s-stack direction="block" gap="base">
+            <s-number-field
+              label="Default max orders per slot and date"
+              name="slotCapacity"
+              min={0}
+              defaultValue={slotCapacity === null ? "" : String(slotCapacity)}
+              details="Counted across all cities. Leave empty for no limit."
+            />
+            <s-button type="submit" disabled={isSubmitting}>
+              Save Capacity
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Capacity Overrides">
+        <s-stack direction="block" gap="base">
+          <fetcher.Form method="POST" onSubmit={handleCreateCapacityRule}>
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" gap="base">
+                <s-select label="Time slot" name="timeSlotId">
+                  <s-option value="">All slots</s-option>
+                  {slots.map((slot) => (
+                    <s-option key={slot.id} value={String(slot.id)}>
+                      {slotLabel(slot.id)}
+                    </s-option>
+                  ))}
+                </s-select>
+
+                <s-select label="City" name="cityId">
+                  <s-option value="">All cities</s-option>
+                  {cities.map((city) => (
+                    <s-option key={city.id} value={String(city.id)}>
+                      {city.name}
+                    </s-option>
+                  ))}
+                </s-select>
+
+                <s-date-field label="Date (optional)" name="date" />
+
+                <s-number-field
+                  label="Max orders"
+                  name="capacity"
+                  min={0}
+                  required
+                />
+              </s-stack>
+
+              <s-button type="submit" disabled={isSubmitting}>
+                Add Override
+              </s-button>
+            </s-stack>
+          </fetcher.Form>
+
+          {capacityRules.length === 0 ? (
+            <s-paragraph>
+              No overrides. The default capacity applies to every slot and date.
+            </s-paragraph>
+          ) : (
+            <s-stack direction="block" gap="small">
+              {capacityRules.map((rule) => (
+                <s-box key={rule.id} padding="base" background="subdued">
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <s-stack direction="block" gap="small" inlineSize="auto">
+                      <s-text type="strong">
+                        {rule.capacity} orders per slot
+                      </s-text>
+                      <s-stack direction="inline" gap="small">
+                        <s-badge>{slotLabel(rule.timeSlotId)}</s-badge>
+                        <s-badge tone="info">{cityName(rule.cityId)}</s-badge>
+                        <s-badge>{rule.date ?? "Every date"}</s-badge>
+                      </s-stack>
+                    </s-stack>
+                    <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                      <input
+                        type="hidden"
+                        name="intent"
+                        value="deleteCapacityRule"
+                      />
+                      <input type="hidden" name="id" value={rule.id} />
+                      <s-button
+                        variant="tertiary"
+                        tone="critical"
+                        type="submit"
+                        disabled={isSubmitting}
+                      >
+                        Remove
+                      </s-button>
+                    </fetcher.Form>
+                  </s-stack>
+                </s-box>
+              ))}
+            </s-stack>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Remaining Capacity">
+        <s-stack direction="block" gap="small">
+          {upcomingCapacity.map((day) => (
+            <s-box key={day.date} padding="base" background="subdued">
+              <s-stack direction="block" gap="small">
+                <s-text type="strong">{day.date}</s-text>
+                <s-stack direction="inline" gap="small">
+                  {day.slots.length === 0 && (
+                    <s-text color="subdued">No active slots</s-text>
+                  )}
+                  {day.slots.map(({ slot, status }) => (
+                    <s-badge
+                      key={slot.id}
+                      tone={
+                        !status
+                          ? "neutral"
+                          : status.remaining === 0
+                            ? "critical"
+                            : "success"
+                      }
+                    >
+                      {slotLabel(slot.id)}:{" "}
+                      {status
+                        ? `${status.remaining} of ${status.limit} left`
+                        : "Unlimited"}
+                    </s-badge>
+                  ))}
+                </s-stack>
+              </s-stack>
+            </s-box>
+          ))}
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="About Capacity">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            Once a slot reaches its capacity it is shown as fully booked and can
+            no longer be selected.
+          </s-paragraph>
+          <s-paragraph>
+            Overrides without a city replace the default for all cities.
+            Overrides for a city add a separate limit for that city&apos;s
+            orders. The most specific override wins: date first, then slot.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
     </s-page>
   );
 }
@@ -0,0 +1,493 @@
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { republishCheckoutRules } from "../services/checkoutValidationService";
+import {
+  DEFAULT_DELAY_TAG_RULES,
+  DELAY_STRATEGIES,
+  isDelayStrategy,
+  validateDelayTagRule,
+  validateQuantityDelayTier,
+} from "../services";
+import {
+  createDelayTagRule,
+  createQuantityDelayTier,
+  loadDelayTagRules,
+  loadQuantityDelayTiers,
+  loadSettings,
+  saveSettings,
+} from "../services/deliveryConfigService";
+import type {
+  DelayStrategy,
+  DelayTagDefinition,
+  DelayTagMatchType,
+} from "../services/types/delivery";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const [rules, tiers, settings] = await Promise.all([
+    loadDelayTagRules(prisma, shop),
+    loadQuantityDelayTiers(prisma, shop),
+    loadSettings(prisma, shop),
+  ]);
+
+  return { rules, tiers, delayStrategy: settings.delayStrategy };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shop = session.shop;
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create") {
+    const rule = {
+      matchType:
+        formData.get("matchType") === "pattern"
+          ? ("pattern" as DelayTagMatchType)
+          : ("exact" as DelayTagMatchType),
+      tag: (formData.get("tag") as string) ?? "",
+      delayDays: parseInt(formData.get("delayDays") as string, 10),
+      delayHours: parseInt((formData.get("delayHours") as string) || "0", 10),
+    };
+
+    const [error] = validateDelayTagRule(rule);
+    if (error) {
+      return { success: false, error };
+    }
+
+    try {
+      await createDelayTagRule(prisma, shop, rule);
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to create tag rule",
+      };
+    }
+  }
+
+  if (intent === "addDefaults") {
+    try {
+      await prisma.delayTagRule.createMany({
+        data: DEFAULT_DELAY_TAG_RULES.map((rule) => ({ ...rule, shop })),
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to add tag rules",
+      };
+    }
+  }
+
+  if (intent === "delete") {
+    const id = parseInt(formData.get("id") as string, 10);
+
+    try {
+      await prisma.delayTagRule.deleteMany({
+        where: { id, shop },
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to delete tag rule",
+      };
+    }
+  }
+
+  if (intent === "saveStrategy") {
+    const delayStrategy = formData.get("delayStrategy");
+
+    if (!isDelayStrategy(delayStrategy)) {
+      return { success: false, error: "Unknown delay strategy" };
+    }
+
+    try {
+      await saveSettings(prisma, shop, { delayStrategy });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to save strategy",
+      };
+    }
+  }
+
+  if (intent === "createTier") {
+    const tier = {
+      tag: (formData.get("tag") as string) ?? "",
+      minQuantity: parseInt(formData.get("minQuantity") as string, 10),
+      extraDays: parseInt(formData.get("extraDays") as string, 10),
+    };
+
+    const [error] = validateQuantityDelayTier(tier);
+    if (error) {
+      return { success: false, error };
+    }
+
+    try {
+      await createQuantityDelayTier(prisma, shop, tier);
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create tier",
+      };
+    }
+  }
+
+  if (intent === "deleteTier") {
+    const id = parseInt(formData.get("id") as string, 10);
+
+    try {
+      await prisma.quantityDelayTier.deleteMany({
+        where: { id, shop },
+      });
+      await republishCheckoutRules(prisma, admin, shop);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete tier",
+      };
+    }
+  }
+
+  return { success: false, error: "Unknown intent" };
+};
+
+const STRATEGY_LABELS: Record<DelayStrategy, string> = {
+  max: "Longest delay",
+  sum: "Add delays up",
+  maxPlusQuantity: "Longest delay plus quantity tiers",
+};
+
+/**
+ * Describes the delay a rule adds, days and hours as in LeadTime
+ */
+function describeDelay(rule: DelayTagDefinition): string {
+  if (rule.matchType === "pattern" && rule.tag.includes("{days}")) {
+    return "Days from tag";
+  }
+  if (rule.matchType === "pattern" && rule.tag.includes("{hours}")) {
+    return "Hours from tag";
+  }
+
+  const parts = [];
+  if (rule.delayDays > 0 || rule.delayHours === 0) {
+    parts.push(rule.delayDays === 1 ? "+1 day" : `+${rule.delayDays} days`);
+  }
+  if (rule.delayHours > 0) {
+    parts.push(rule.delayHours === 1 ? "+1 hour" : `+${rule.delayHours} hours`);
+  }
+  return parts.length > 1
+    ? `${parts.join(" or ")}, whichever is later`
+    : parts[0];
+}
+
+export default function DelayTags() {
+  const { rules, tiers, delayStrategy } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Tag rules saved successfully");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("intent", "create");
+    fetcher.submit(formData, { method: "POST" });
+    form.reset();
+  };
+
+  const handleCreateTier = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("intent", "createTier");
+    fetcher.submit(formData, { method: "POST" });
+    form.reset();
+  };
+
+  return (
+    <s-page heading="Delay Tags">
+      <s-link slot="breadcrumb-actions" href="/app/delivery">
+        ← Back to Delivery Settings
+      </s-link>
+
+      <s-section heading="Add Tag Rule">
+        <fetcher.Form method="POST" onSubmit={handleCreate}>
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base">
+              <s-select label="Match" name="matchType">
+                <s-option value="exact">Exact tag</s-option>
+                <s-option value="pattern">Pattern</s-option>
+              </s-select>
+
+              <s-text-field
+                label="Tag or pattern"
+                name="tag"
+                placeholder="custom-order"
+                required
+              />
+
+              <s-number-field
+                label="Delay (days)"
+                name="delayDays"
+                min={0}
+                defaultValue="1"
+                required
+              />
+
+              <s-number-field
+                label="Lead time (hours)"
+                name="delayHours"
+                min={0}
+                defaultValue="0"
+              />
+            </s-stack>
+
+            <s-button type="submit" disabled={isSubmitting}>
+              Add Tag Rule
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Tag Rules">
+        {rules.length === 0 ? (
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              No tag rules configured yet, so the default tags apply:
+            </s-paragraph>
+            <s-stack direction="inline" gap="small">
+              {DEFAULT_DELAY_TAG_RULES.map((rule) => (
+                <s-badge key={rule.tag}>
+                  {rule.tag}: {describeDelay(rule)}
+                </s-badge>
+              ))}
+            </s-stack>
+            <s-paragraph>
+              Adding a rule replaces the defaults. Add them as rules first to
+              keep using them alongside your own tags.
+            </s-paragraph>
+            <fetcher.Form method="POST">
+              <input type="hidden" name="intent" value="addDefaults" />
+              <s-button type="submit" disabled={isSubmitting}>
+                Add Default Tags
+              </s-button>
+            </fetcher.Form>
+          </s-stack>
+        ) : (
+          <s-stack direction="block" gap="small">
+            {rules.map((rule) => (
+              <s-box key={rule.id} padding="base" background="subdued">
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <s-stack direction="block" gap="small" inlineSize="auto">
+                    <s-text type="strong">{rule.tag}</s-text>
+                    <s-stack direction="inline" gap="small">
+                      <s-badge tone="info">
+                        {rule.matchType === "pattern" ? "Pattern" : "Exact"}
+                      </s-badge>
+                      <s-badge>{describeDelay(rule)}</s-badge>
+                    </s-stack>
+                  </s-stack>
+                  <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                    <input type="hidden" name="intent" value="delete" />
+                    <input type="hidden" name="id" value={rule.id} />
+                    <s-button
+                      variant="tertiary"
+                      tone="critical"
+                      type="submit"
+                      disabled={isSubmitting}
+                    >
+                      Delete
+                    </s-button>
+                  </fetcher.Form>
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section heading="Combining Delays">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="intent" value="saveStrategy" />
+          <s-stack direction="block" gap="base">
+            <s-select
+              label="When a cart has several delayed products"
+              name="delayStrategy"
+              value={delayStrategy}
+            >
+              {DELAY_STRATEGIES.map((strategy) => (
+                <s-option key={strategy} value={strategy}>
+                  {STRATEGY_LABELS[strategy]}
+                </s-option>
+              ))}
+            </s-select>
+
+            <s-button type="submit" disabled={isSubmitting}>
+              Save
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Quantity Tiers">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Add days when a cart line has many of a product, e.g. +1 day from 12
+            cupcakes. Tiers apply with the &quot;
+            {STRATEGY_LABELS.maxPlusQuantity}&quot; setting.
+          </s-paragraph>
+
+          <fetcher.Form method="POST" onSubmit={handleCreateTier}>
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" gap="base">
+                <s-text-field
+                  label="Product tag"
+                  name="tag"
+                  placeholder="cupcake"
+                  required
+                />
+
+                <s-number-field
+                  label="From quantity"
+                  name="minQuantity"
+                  min={2}
+                  defaultValue="10"
+                  required
+                />
+
+                <s-number-field
+                  label="Extra delay (days)"
+                  name="extraDays"
+                  min={1}
+                  defaultValue="1"
+                  required
+                />
+              </s-stack>
+
+              <s-button type="submit" disabled={isSubmitting}>
+                Add Tier
+              </s-button>
+            </s-stack>
+          </fetcher.Form>
+
+          {tiers.length === 0 ? (
+            <s-paragraph>No quantity tiers configured yet.</s-paragraph>
+          ) : (
+            <s-stack direction="block" gap="small">
+              {tiers.map((tier) => (
+                <s-box key={tier.id} padding="base" background="subdued">
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <s-stack direction="block" gap="small" inlineSize="auto">
+                      <s-text type="strong">{tier.tag}</s-text>
+                      <s-stack direction="inline" gap="small">
+                        <s-badge tone="info">From {tier.minQuantity}</s-badge>
+                        <s-badge>
+                          {tier.extraDays === 1
+                            ? "+1 day"
+                            : `+${tier.extraDays} days`}
+                        </s-badge>
+                      </s-stack>
+                    </s-stack>
+                    <fetcher.Form method="POST" style={{ marginLeft: "auto" }}>
+                      <input type="hidden" name="intent" value="deleteTier" />
+                      <input type="hidden" name="id" value={tier.id} />
+                      <s-button
+                        variant="tertiary"
+                        tone="critical"
+                        type="submit"
+                        disabled={isSubmitting}
+                      >
+                        Delete
+                      </s-button>
+                    </fetcher.Form>
+                  </s-stack>
+                </s-box>
+              ))}
+            </s-stack>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="About Patterns">
+        <s-stack direction="block" gap="small">
+          <s-paragraph>
+            <s-text type="strong">*</s-text> matches any text, e.g.{" "}
+            <s-text type="strong">custom-*</s-text> matches custom-order and
+            custom-cake.
+          </s-paragraph>
+          <s-paragraph>
+            <s-text type="strong">{"{days}"}</s-text> matches a number used as
+            the delay, e.g. <s-text type="strong">prep-{"{days}"}</s-text> gives
+            prep-3 a 3 day delay.
+          </s-paragraph>
+          <s-paragraph>
+            <s-text type="strong">{"{hours}"}</s-text> works the same way in
+            hours, e.g. <s-text type="strong">ready-{"{hours}"}h</s-text> gives
+            ready-6h a 6 hour lead time. Hours count from the time of the order,
+            so only slots starting after that are offered. Checkout only checks{" "}
+            <s-text type="strong">{"{hours}"}</s-text> tags in steps of 24
+            hours, e.g. ready-24h and ready-48h.
+          </s-paragraph>
+          <s-paragraph>
+            A rule with both days and hours needs both: the later date applies,
+            they are not added together.
+          </s-paragraph>
+          <s-paragraph>
+            Tags are matched case-insensitively. When a cart has several delay
+            tags, the highest delay applies unless delays are set to add up.
+            Adding up sums the days and the hours of each product separately.
+          </s-paragraph>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useLoaderData());
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -8,18 +8,26 @@ import type {
 import { useFetcher, useLoaderData } from "react-router";
 import prisma from "../db.server";
 import {
-  calculateCartDelay,
+  calculateCartLeadTime,
+  calculateDeliveryFee,
+  describeSpecialCityRules,
+  formatFeeAmount,
   getAvailableDates,
   getAvailableSlots,
-  getMinimumDeliveryDate,
+  getEarliestDelivery,
+  getProductDelay,
+  getQuantityDelay,
   isSameDayDeliveryAvailable,
+  parseDate,
   validateCheckout,
 } from "../services";
+import { loadSlotBookingCounts } from "../services/deliveryBookingService";
 import { loadDeliveryConfig } from "../services/deliveryConfigService";
 import type {
   CartProduct,
   CheckoutFields,
   DeliveryCity,
+  DeliveryFee,
   TimeSlot,
 } from "../services/types/delivery";
 import { authenticate } from "../shopify.server";
@@ -38,13 +46,20 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const config = await loadDeliveryConfig(prisma, shop);
 
-  // Parse cart products from form
-  const tagsInput = formData.get("tags") as string;
-  const tags = tagsInput
-    .split(",")
-    .map((t) => t.trim())
-    .filter(Boolean);
-  const cartProducts: CartProduct[] = [{ tags }];
+  // Parse cart lines from form, one per line as "quantity x tags"
+  const linesInput = (formData.get("lines") as string) ?? "";
+  const cartProducts: CartProduct[] = linesInput
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = line.match(/^(\d+)\s*x\s*(.*)$/i);
+      const tags = (match ? match[2] : line)
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean);
+      return { tags, quantity: match ? parseInt(match[1], 10) : 1 };
+    });
 
   // Get selected city
   const cityIdStr = formData.get("cityId") as string;
@@ -52,20 +67,25 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const selectedCity = config.cities.find((c) => c.id === cityId);
 
   // Calculate results
-  const cartDelay = calculateCartDelay(cartProducts);
+  const leadTime = calculateCartLeadTime(cartProducts, config.delayTagRules, {
+    strategy: config.delayStrategy,
+    quantityTiers: config.quantityDelayTiers,
+  });
   const now = new Date();
+  const { timezone } = config;
 
-  let minimumDate: Date;
-  let sameDayAvailable = false;
-
-  if (selectedCity) {
-    sameDayAvailable = isSameDayDeliveryAvailable(selectedCity, now);
-    minimumDate = getMinimumDeliveryDate(selectedCity, now, cartDelay);
-  } else {
-    // No city selected, use base delay
-    minimumDate = new Date(now);
-    minimumDate.setDate(minimumDate.getDate() + cartDelay);
-  }
+  const sameDayAvailable = selectedCity
+    ? isSameDayDeliveryAvailable(selectedCity, now, timezone)
+    : false;
+  const earliest = getEarliestDelivery(
+    selectedCity,
+    config.timeSlots,
+    now,
+    leadTime,
+    timezone,
+    config.productionCalendar,
+  );
+  const minimumDate = parseDate(earliest.date, timezone) as Date;
 
   // Get available dates (next 14 days from minimum)
   const availableDates = getAvailableDates(
@@ -73,16 +93,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     14,
     config.dateDisableRules,
     cityId ?? undefined,
+    timezone,
+    config.weekdayDisableRules,
   );
 
   // Get available slots for first available date
   const firstAvailableDate = availableDates[0] ?? "";
+  const bookings = firstAvailableDate
+    ? await loadSlotBookingCounts(
+        prisma,
+        shop,
+        firstAvailableDate,
+        firstAvailableDate,
+      )
+    : [];
   const slotsForDate = getAvailableSlots(
     config.timeSlots,
     firstAvailableDate,
     cityId,
     config.slotDisableRules,
-  );
+    {
+      city: selectedCity,
+      earliestStart: earliest.earliestStart,
+      currentTime: now,
+      timeZone: timezone,
+      capacity: {
+        defaultCapacity: config.slotCapacity,
+        rules: config.slotCapacityRules,
+        bookings,
+      },
+    },
+  ).map((result) => ({
+    ...result,
+    fee: calculateDeliveryFee(
+      selectedCity,
+      firstAvailableDate,
+      result.slot,
+      config.dateSurchargeRules,
+    ),
+  }));
 
   // Test checkout validation
   const checkoutFields: CheckoutFields = {
@@ -96,14 +145,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const checkoutValidation = validateCheckout(checkoutFields);
 
   return {
-    cartDelay,
+    cartDelay: leadTime.days,
+    leadTimeHours: leadTime.hours,
+    earliestSlot:
+      config.timeSlots.find((slot) => slot.id === earliest.timeSlotId)?.label ??
+      null,
     sameDayAvailable,
-    minimumDate: minimumDate.toISOString().split("T")[0],
+    specialCityRules: selectedCity
+      ? describeSpecialCityRules(selectedCity, config.timeSlots)
+      : [],
+    minimumDate: earliest.date,
     availableDates,
     slotsForDate,
     checkoutValidation,
     input: {
-      tags,
+      lines: cartProducts.map((product) => ({
+        ...product,
+        delayDays: getProductDelay(product, config.delayTagRules),
+        quantityDays:
+          config.delayStrategy === "maxPlusQuantity"
+            ? getQuantityDelay(product, config.quantityDelayTiers)
+            : 0,
+      })),
+      delayStrategy: config.delayStrategy,
       cityId,
       cityName: selectedCity?.name,
     },
@@ -127,11 +191,12 @@ export default function DeliveryTest() {
       <s-section heading="Test Input">
         <fetcher.Form method="POST">
           <s-stack direction="block" gap="base">
-            <s-text-field
-              label="Product Tags (comma-separated)"
-              name="tags"
-              defaultValue="delay-2"
-              placeholder="delay, delay-2, cake-delay-3"
+            <s-text-area
+              label="Cart Lines (one per line: quantity x comma-separated tags)"
+              name="lines"
+              defaultValue={"1 x delay-2\n12 x cupcake"}
+              placeholder="2 x delay, cake-delay-3"
+              rows={4}
             />
 
             <div>
@@ -162,6 +227,7 @@ export default function DeliveryTest() {
                   <option key={city.id} value={city.id}>
                     {city.name}
                     {city.cutoffTime ? ` (cutoff: ${city.cutoffTime})` : ""}
+                    {city.isSpecial ? " (special)" : ""}
                   </option>
                 ))}
               </select>
@@ -181,8 +247,24 @@ export default function DeliveryTest() {
               <s-box padding="base" background="subdued">
                 <s-stack direction="block" gap="small">
                   <s-text type="strong">Input:</s-text>
+                  {fetcher.data.input.lines.length === 0 ? (
+                    <s-paragraph>Lines: (none)</s-paragraph>
+                  ) : (
+                    fetcher.data.input.lines.map((line, i) => (
+                      <s-paragraph key={i}>
+                        {line.quantity} x {line.tags.join(", ") || "(no tags)"}{" "}
+                        <s-badge>{line.delayDays} days</s-badge>
+                        {line.quantityDays > 0 && (
+                          <s-badge tone="info">
+                            +{line.quantityDays} days for quantity
+                          </s-badge>
+                        )}
+                      </s-paragraph>
+                    ))
+                  )}
                   <s-paragraph>
-                    Tags: {fetcher.data.input.tags.join(", ") || "(none)"}
+                    Delay Strategy:{" "}
+                    <s-badge>{fetcher.data.input.delayStrategy}</s-badge>
                   </s-paragraph>
                   <s-paragraph>
                     City: {fetcher.data.input.cityName || "(none selected)"}
@@ -190,12 +272,27 @@ export default function DeliveryTest() {
                 </s-stack>
               </s-box>
 
+              {fetcher.data.specialCityRules.length > 0 && (
+                <s-box padding="base" background="subdued">
+                  <s-stack direction="block" gap="small">
+                    <s-text type="strong">Special City Rules:</s-text>
+                    {fetcher.data.specialCityRules.map((rule, i) => (
+                      <s-paragraph key={i}>• {rule}</s-paragraph>
+                    ))}
+                  </s-stack>
+                </s-box>
+              )}
+
               <s-box padding="base" background="subdued">
                 <s-stack direction="block" gap="small">
                   <s-text type="strong">Calculated Values:</s-text>
                   <s-paragraph>
                     Cart Delay: <s-badge>{fetcher.data.cartDelay} days</s-badge>
                   </s-paragraph>
+                  <s-paragraph>
+                    Lead Time:{" "}
+                    <s-badge>{fetcher.data.leadTimeHours} hours</s-badge>
+                  </s-paragraph>
                   <s-paragraph>
                     Same-day Available:{" "}
                     <s-badge
@@ -209,6 +306,13 @@ export default function DeliveryTest() {
                   <s-paragraph>
                     Minimum Date: <s-badge>{fetcher.data.minimumDate}</s-badge>
                   </s-paragraph>
+                  <s-paragraph>
+                    Earliest Slot:{" "}
+                    <s-badge>{fetcher.data.earliestSlot ?? "(none)"}</s-badge>
+                  </s-paragraph>
+                  <s-paragraph>
+                    Shop Timezone: <s-badge>{config.timezone}</s-badge>
+                  </s-paragraph>
                 </s-stack>
               </s-box>
             </s-stack>
@@ -237,11 +341,24 @@ export default function DeliveryTest() {
                     slot: TimeSlot;
                     disabled: boolean;
                     reason?: string;
+                    fee: DeliveryFee;
                   }) => (
                     <s-stack key={item.slot.id} direction="inline" gap="small">
                       <s-badge tone={item.disabled ? "critical" : "success"}>
                         {item.slot.label}
                       </s-badge>
+                      <s-badge>Fee {formatFeeAmount(item.fee.total)}</s-badge>
+                      {item.fee.slotSurcharge > 0 && (
+                        <s-text color="subdued">
+                          +{formatFeeAmount(item.fee.slotSurcharge)} slot
+                        </s-text>
+                      )}
+                      {item.fee.dateSurcharge > 0 && (
+                        <s-text color="subdued">
+                          +{formatFeeAmount(item.fee.dateSurcharge)}{" "}
+                          {item.fee.dateSurchargeLabel ?? "date"}
+                        </s-text>
+                      )}
                       {item.disabled && item.reason && (
                         <s-text color="subdued">({item.reason})</s-text>
                       )}
@@ -301,6 +418,10 @@ export default function DeliveryTest() {
             <s-text type="strong">Slot Rules:</s-text>{" "}
             {config.slotDisableRules.length}
           </s-paragraph>
+          <s-paragraph>
+            <s-text type="strong">Date Surcharges:</s-text>{" "}
+            {config.dateSurchargeRules.length}
+          </s-paragraph>
         </s-stack>
       </s-section>
     </s-page>
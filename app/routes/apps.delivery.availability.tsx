@@ -0,0 +1,144 @@
+import type { LoaderFunctionArgs } from "react-router";
+import prisma from "../db.server";
+import {
+  DEFAULT_DAYS_TO_SHOW,
+  getDeliveryAvailability,
+  getZonedDateString,
+  parseCartLines,
+  parseDeliveryAddress,
+  parseFulfillmentMode,
+} from "../services";
+import { loadSlotBookingCounts } from "../services/deliveryBookingService";
+import {
+  loadDeliveryConfig,
+  loadSettings,
+} from "../services/deliveryConfigService";
+import type { CartProduct, DeliveryAddress } from "../services/types/delivery";
+import { authenticate } from "../shopify.server";
+
+const MAX_DAYS_TO_SHOW = 60;
+
+/**
+ * Storefront availability endpoint, served through the Shopify App Proxy
+ * at `/apps/delivery/availability`.
+ *
+ * Query parameters:
+ * - `cityId` - selected delivery city (optional)
+ * - `lines` - JSON array of cart lines, each `{ tags, productPrepDays,
+ *   variantPrepDays }` (see parseCartLines)
+ * - `tags` - comma-separated tags of one cart line, repeated per line
+ *   (used when `lines` is not given)
+ * - `days` - number of days to return (optional, max 60)
+ * - `address` - JSON shipping address `{ address2, city, zip, latitude,
+ *   longitude }` (optional, see parseDeliveryAddress), applies its delivery
+ *   zone's cutoff and slots
+ * - `mode` - `delivery` (default) or `pickup`
+ * - `pickupLocationId` - selected pickup location (optional, pickup only)
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  // Throws a 400 response if the proxy signature is invalid
+  const { session } = await authenticate.public.appProxy(request);
+
+  if (!session) {
+    return Response.json(
+      { error: "App is not installed on this shop" },
+      { status: 401 },
+    );
+  }
+
+  const url = new URL(request.url);
+
+  const fulfillmentMode = parseFulfillmentMode(url.searchParams.get("mode"));
+  const isPickup = fulfillmentMode === "pickup";
+
+  // For pickup, the pickup location takes the place of the city
+  const cityIdStr = url.searchParams.get(
+    isPickup ? "pickupLocationId" : "cityId",
+  );
+  const cityId = cityIdStr ? parseInt(cityIdStr, 10) : null;
+
+  const daysStr = url.searchParams.get("days");
+  const days = daysStr ? parseInt(daysStr, 10) : DEFAULT_DAYS_TO_SHOW;
+  const daysToShow = Math.min(
+    Math.max(isNaN(days) ? DEFAULT_DAYS_TO_SHOW : days, 1),
+    MAX_DAYS_TO_SHOW,
+  );
+
+  let cartProducts: CartProduct[] = parseCartLines(
+    url.searchParams.getAll("tags"),
+  );
+  const linesInput = url.searchParams.get("lines");
+  if (linesInput) {
+    try {
+      cartProducts = parseCartLines(JSON.parse(linesInput));
+    } catch {
+      return Response.json({ error: "Invalid lines" }, { status: 400 });
+    }
+  }
+
+  let address: DeliveryAddress | null | undefined;
+  const addressInput = url.searchParams.get("address");
+  if (addressInput) {
+    try {
+      address = parseDeliveryAddress(JSON.parse(addressInput));
+    } catch {
+      address = null;
+    }
+  }
+  if (address === null) {
+    return Response.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const [config, settings] = await Promise.all([
+    loadDeliveryConfig(prisma, session.shop),
+    loadSettings(prisma, session.shop),
+  ]);
+
+  if (isPickup) {
+    if (
+      cityId !== null &&
+      !config.pickupLocations.some((location) => location.id === cityId)
+    ) {
+      return Response.json(
+        { error: "Pickup location not found" },
+        { status: 404 },
+      );
+    }
+  } else if (cityId !== null && !config.cities.some((c) => c.id === cityId)) {
+    return Response.json({ error: "City not found" }, { status: 404 });
+  }
+
+  const now = new Date();
+  const bookings = await loadSlotBookingCounts(
+    prisma,
+    session.shop,
+    getZonedDateString(now, config.timezone),
+  );
+
+  const availability = getDeliveryAvailability(
+    config,
+    cartProducts,
+    cityId,
+    now,
+    daysToShow,
+    bookings,
+    address,
+    fulfillmentMode,
+  );
+
+  return Response.json({
+    selectors: settings.selectors,
+    cities: config.cities.map((city) => ({
+      id: city.id,
+      name: city.name,
+      cutoffTime: city.cutoffTime,
+    })),
+    pickupLocations: config.pickupLocations.map((location) => ({
+      id: location.id,
+      name: location.name,
+      address: location.address,
+      cutoffTime: location.cutoffTime,
+    })),
+    ...availability,
+  });
+};
@@ -0,0 +1,119 @@
+import type { ActionFunctionArgs } from "react-router";
+import prisma from "../db.server";
+import {
+  getZonedDateString,
+  parseCartVariantLines,
+  parseDeliveryAddress,
+  parseDeliveryAttributes,
+  validateCheckout,
+  validateCheckoutAgainstConfig,
+} from "../services";
+import type { RawAttributes } from "../services/cartAttributeService";
+import { loadVariantProducts } from "../services/cartProductService";
+import { loadSlotBookingCounts } from "../services/deliveryBookingService";
+import { loadDeliveryConfig } from "../services/deliveryConfigService";
+import type {
+  CartVariantLine,
+  DeliveryAddress,
+} from "../services/types/delivery";
+import { authenticate } from "../shopify.server";
+
+/**
+ * Storefront checkout validation endpoint, served through the Shopify
+ * App Proxy at `/apps/delivery/validate`.
+ *
+ * Expects a JSON body of `{ attributes, lines, address }`, where
+ * `attributes` uses the cart attribute keys from cartAttributeService,
+ * `lines` holds the cart lines as `{ variantId, quantity }` (see
+ * parseCartVariantLines) and the optional
+ * `address` is a shipping address checked against the delivery zones (see
+ * parseDeliveryAddress; an invalid address is rejected with a 400).
+ * Pickup selections (`delivery_method` of `pickup`) are checked against the
+ * selected pickup location and need no address.
+ *
+ * Only variant IDs and quantities are taken from the client: the tags and
+ * prep days that set the minimum date are loaded from Shopify, so a
+ * tampered request cannot shorten the lead time. Requests without cart
+ * lines are rejected with a 400.
+ *
+ * The result only drives the cart picker (it enables the checkout button).
+ * The client still chooses which lines to send, so checkout itself is
+ * enforced by the delivery-checkout-validation Function, which reads the
+ * real cart.
+ *
+ * Returns `{ isValid, errors, codes }`: field errors from validateCheckout
+ * followed by delivery rule errors from validateCheckoutAgainstConfig,
+ * whose codes are listed in `codes`.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Throws a 400 response if the proxy signature is invalid
+  const { session, admin } = await authenticate.public.appProxy(request);
+
+  if (!session || !admin) {
+    return Response.json(
+      { error: "App is not installed on this shop" },
+      { status: 401 },
+    );
+  }
+
+  let attributes: RawAttributes | null = null;
+  let cartLines: CartVariantLine[] = [];
+  let address: DeliveryAddress | null | undefined;
+  try {
+    const body = (await request.json()) as {
+      attributes?: RawAttributes;
+      lines?: unknown;
+      address?: unknown;
+    };
+    attributes = body.attributes ?? null;
+    cartLines = parseCartVariantLines(body.lines);
+    address = parseDeliveryAddress(body.address);
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (address === null) {
+    return Response.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  if (cartLines.length === 0) {
+    return Response.json({ error: "Cart has no products" }, { status: 400 });
+  }
+
+  const fields = parseDeliveryAttributes(attributes);
+  const validation = validateCheckout(fields);
+
+  const now = new Date();
+  const [config, cartProducts] = await Promise.all([
+    loadDeliveryConfig(prisma, session.shop),
+    loadVariantProducts(admin, cartLines),
+  ]);
+  const bookings = await loadSlotBookingCounts(
+    prisma,
+    session.shop,
+    getZonedDateString(now, config.timezone),
+  );
+  const ruleValidation = validateCheckoutAgainstConfig(
+    fields,
+    config,
+    cartProducts,
+    fields.fulfillmentMode === "pickup"
+      ? fields.pickupLocationId
+      : fields.cityId,
+    now,
+    bookings,
+    address,
+  );
+
+  // Field errors already cover missing values
+  const ruleErrors = ruleValidation.errors.filter(
+    (error) =>
+      !["DATE_REQUIRED", "DATE_INVALID", "SLOT_REQUIRED"].includes(error.code),
+  );
+
+  return Response.json({
+    isValid: validation.isValid && ruleValidation.isValid,
+    errors: [...validation.errors, ...ruleErrors.map((error) => error.message)],
+    codes: ruleValidation.errors.map((error) => error.code),
+  });
+};
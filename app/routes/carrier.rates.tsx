@@ -0,0 +1,76 @@
+import type { ActionFunctionArgs } from "react-router";
+import prisma from "../db.server";
+import { buildCarrierRates, getZonedDateString } from "../services";
+import { loadSlotBookingCounts } from "../services/deliveryBookingService";
+import {
+  loadRateRequestProducts,
+  verifyCarrierRequest,
+} from "../services/deliveryCarrierService";
+import { loadDeliveryConfig } from "../services/deliveryConfigService";
+import type { CarrierRateRequest } from "../services/types/delivery";
+import { unauthenticated } from "../shopify.server";
+
+/**
+ * CarrierService rate callback at `/carrier/rates`, registered from the
+ * delivery settings page.
+ *
+ * Shopify posts the checkout's destination and items, signed with the
+ * app's API secret, and shows the returned rates as shipping options. An
+ * empty list hides our rates, e.g. for addresses outside the delivery
+ * cities.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const body = await request.text();
+
+  if (
+    !verifyCarrierRequest(
+      body,
+      request.headers.get("X-Shopify-Hmac-Sha256"),
+      process.env.SHOPIFY_API_SECRET || "",
+    )
+  ) {
+    return Response.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const shop = request.headers.get("X-Shopify-Shop-Domain");
+  if (!shop) {
+    return Response.json({ error: "Missing shop" }, { status: 400 });
+  }
+
+  let rateRequest: CarrierRateRequest;
+  try {
+    rateRequest = JSON.parse(body) as CarrierRateRequest;
+  } catch {
+    return Response.json({ error: "Invalid rate request" }, { status: 400 });
+  }
+
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    const { destination, items, currency, locale } = rateRequest.rate;
+
+    const [config, products] = await Promise.all([
+      loadDeliveryConfig(prisma, shop),
+      loadRateRequestProducts(admin, items),
+    ]);
+
+    const now = new Date();
+    const bookings = await loadSlotBookingCounts(
+      prisma,
+      shop,
+      getZonedDateString(now, config.timezone),
+    );
+
+    return Response.json({
+      rates: buildCarrierRates(config, products, destination, now, {
+        currency,
+        locale,
+        bookings,
+      }),
+    });
+  } catch (error) {
+    // Never block checkout: without rates, the shop's other shipping
+    // methods are still offered
+    console.error(`Failed to build delivery rates for ${shop}:`, error);
+    return Response.json({ rates: [] });
+  }
+};
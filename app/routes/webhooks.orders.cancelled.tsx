@@ -0,0 +1,16 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { syncOrderBooking } from "../services/deliveryBookingService";
+import type { OrderPayload } from "../services/types/delivery";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Free the slot so it counts towards capacity again
+  await syncOrderBooking(db, shop, payload as OrderPayload);
+
+  return new Response();
+};
@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { saveShopTimezone } from "../services/shopTimezoneService";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Keep the stored timezone in sync when the merchant changes it
+  await saveShopTimezone(db, shop, payload.iana_timezone as string | undefined);
+
+  return new Response();
+};
@@ -0,0 +1,214 @@
+/**
+ * Carrier Rate Service
+ *
+ * Turns a Shopify CarrierService rate request into shipping rates, one per
+ * available delivery date and slot, priced with the delivery fee schedule.
+ * Dates and slots come from getDeliveryAvailability, built on
+ * getAvailableDates and getAvailableSlots, so checkout never offers a
+ * closed date or a full slot.
+ *
+ * The rate's service code carries the city, date and slot, so the order's
+ * shipping line can be booked like a cart selection.
+ */
+
+import { getDeliveryAvailability } from "./deliveryAvailabilityService";
+import { normalizeAreaName, resolveDeliveryCity } from "./deliveryZoneService";
+import type {
+  CarrierRate,
+  CarrierRateAddress,
+  CartProduct,
+  DeliveryAddress,
+  DeliveryCity,
+  DeliveryConfig,
+  SlotBookingCount,
+} from "./types/delivery";
+
+/**
+ * Number of days offered as shipping rates, starting at the minimum date
+ */
+export const CARRIER_RATE_DAYS = 7;
+
+/**
+ * Prefix of the service codes of our rates
+ */
+const SERVICE_CODE_PREFIX = "delivery";
+
+/**
+ * Converts a rate request address to a delivery address
+ *
+ * @param destination - Destination of the rate request
+ * @returns Address fields used to resolve the city and zone
+ */
+export function toDeliveryAddress(
+  destination: CarrierRateAddress,
+): DeliveryAddress {
+  return {
+    address1: destination.address1,
+    address2: destination.address2,
+    city: destination.city,
+    zip: destination.postal_code,
+    latitude: destination.latitude,
+    longitude: destination.longitude,
+  };
+}
+
+/**
+ * Resolves the delivery city of a shipping address
+ *
+ * Uses the delivery zones once the shop has any, otherwise matches the
+ * address's city against the city names.
+ *
+ * @param address - The shipping address
+ * @param config - Delivery configuration for the shop
+ * @returns The city, or undefined if the address is not served
+ */
+export function resolveAddressCity(
+  address: DeliveryAddress,
+  config: DeliveryConfig,
+): DeliveryCity | undefined {
+  if (config.deliveryZones.length > 0) {
+    return resolveDeliveryCity(address, config.deliveryZones, config.cities);
+  }
+
+  const cityName = normalizeAreaName(address.city ?? "");
+  return cityName
+    ? config.cities.find((city) => normalizeAreaName(city.name) === cityName)
+    : undefined;
+}
+
+/**
+ * Builds the service code of a rate
+ *
+ * @example
+ * formatCarrierServiceCode(3, "2024-12-25", 2) // returns "delivery:3:2024-12-25:2"
+ */
+export function formatCarrierServiceCode(
+  cityId: number,
+  date: string,
+  timeSlotId: number,
+): string {
+  return [SERVICE_CODE_PREFIX, cityId, date, timeSlotId].join(":");
+}
+
+/**
+ * Reads the city, date and slot from a rate's service code
+ *
+ * @param code - Service code of an order's shipping line
+ * @returns The selection, or null if the code is not one of our rates
+ *
+ * @example
+ * parseCarrierServiceCode("delivery:3:2024-12-25:2")
+ * // returns { cityId: 3, deliveryDate: "2024-12-25", timeSlotId: 2 }
+ * parseCarrierServiceCode("standard") // returns null
+ */
+export function parseCarrierServiceCode(
+  code: string | null | undefined,
+): { cityId: number; deliveryDate: string; timeSlotId: number } | null {
+  const match = (code ?? "").match(
+    /^delivery:(\d+):(\d{4}-\d{2}-\d{2}):(\d+)$/,
+  );
+  if (!match) {
+    return null;
+  }
+
+  return {
+    cityId: parseInt(match[1], 10),
+    deliveryDate: match[2],
+    timeSlotId: parseInt(match[3], 10),
+  };
+}
+
+/**
+ * Formats a delivery date for a rate name (e.g. "Sat, Feb 14")
+ */
+function formatRateDate(date: string, locale: string): string {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  };
+  const utcDate = new Date(`${date}T00:00:00Z`);
+
+  try {
+    return utcDate.toLocaleDateString(locale, options);
+  } catch {
+    // Unknown locale
+    return utcDate.toLocaleDateString("en", options);
+  }
+}
+
+/**
+ * Builds the shipping rates for a rate request
+ *
+ * Returns no rates when the address is not in a delivery city, so
+ * checkout falls back to the shop's other shipping methods.
+ *
+ * @param config - Delivery configuration for the shop
+ * @param products - Products in the checkout
+ * @param destination - Destination of the rate request
+ * @param currentTime - Current Date object
+ * @param options - Checkout currency and locale, booking counts and days
+ * @returns One rate per available date and slot, in date and slot order
+ *
+ * @example
+ * buildCarrierRates(config, [{ tags: [] }], { city: "Dhaka", postal_code: "1216" }, new Date(), {
+ *   currency: "BDT",
+ * })
+ * // returns [{
+ * //   service_name: "Delivery Thu, Dec 26, 09:30 AM - 12:00 PM",
+ * //   service_code: "delivery:1:2024-12-26:1",
+ * //   total_price: "6000",
+ * //   description: "Delivered in Dhaka on Thu, Dec 26 between 09:30 AM - 12:00 PM",
+ * //   currency: "BDT",
+ * // }, ...]
+ */
+export function buildCarrierRates(
+  config: DeliveryConfig,
+  products: CartProduct[],
+  destination: CarrierRateAddress,
+  currentTime: Date,
+  options: {
+    currency: string;
+    locale?: string;
+    bookings?: SlotBookingCount[];
+    daysToShow?: number;
+  },
+): CarrierRate[] {
+  const address = toDeliveryAddress(destination);
+  const city = resolveAddressCity(address, config);
+  if (!city) {
+    return [];
+  }
+
+  const availability = getDeliveryAvailability(
+    config,
+    products,
+    city.id,
+    currentTime,
+    options.daysToShow ?? CARRIER_RATE_DAYS,
+    options.bookings,
+    address,
+  );
+  const locale = options.locale || "en";
+
+  return availability.dates.flatMap(({ date, slots }) => {
+    const dateLabel = formatRateDate(date, locale);
+
+    return slots
+      .filter((result) => !result.disabled)
+      .map(({ slot, fee }) => {
+        const surcharge = fee?.dateSurchargeLabel
+          ? ` (${fee.dateSurchargeLabel})`
+          : "";
+
+        return {
+          service_name: `Delivery ${dateLabel}, ${slot.label}`,
+          service_code: formatCarrierServiceCode(city.id, date, slot.id),
+          total_price: String(Math.round((fee?.total ?? 0) * 100)),
+          description: `Delivered in ${city.name} on ${dateLabel} between ${slot.label}${surcharge}`,
+          currency: options.currency,
+        };
+      });
+  });
+}
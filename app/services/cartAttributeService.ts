@@ -0,0 +1,115 @@
+/**
+ * Cart Attribute Service
+ *
+ * Maps the delivery selection to and from cart attributes.
+ * The storefront block writes these attributes to the cart, and Shopify
+ * copies them to the order as note attributes.
+ *
+ * Keep the keys in sync with the theme extension
+ * (extensions/delivery-date-picker/assets/delivery-date-picker.js).
+ */
+
+import { parseFulfillmentMode } from "./pickupLocationService";
+import type { DeliveryAttributes } from "./types/delivery";
+
+/**
+ * Cart attribute keys used for the delivery selection
+ */
+export const DELIVERY_ATTRIBUTE_KEYS = {
+  cityId: "delivery_city_id",
+  deliveryDate: "delivery_date",
+  deliveryTimeSlot: "delivery_slot_id",
+  fullName: "delivery_full_name",
+  phoneNumber: "delivery_phone",
+  deliveryAddress: "delivery_address",
+  fulfillmentMode: "delivery_method",
+  pickupLocationId: "pickup_location_id",
+} as const;
+
+/**
+ * Attributes as sent by the Ajax Cart API (object) or
+ * as found on orders (array of name/value pairs)
+ */
+export type RawAttributes =
+  | Record<string, string | null | undefined>
+  | Array<{ name: string; value: string | null }>;
+
+/**
+ * Normalizes raw attributes to a key/value record
+ *
+ * @param attributes - Attributes as object or name/value array
+ * @returns Record of attribute values
+ */
+function toAttributeRecord(
+  attributes: RawAttributes | null | undefined,
+): Record<string, string> {
+  const record: Record<string, string> = {};
+
+  if (!attributes) {
+    return record;
+  }
+
+  if (Array.isArray(attributes)) {
+    for (const { name, value } of attributes) {
+      if (typeof value === "string") record[name] = value;
+    }
+    return record;
+  }
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (typeof value === "string") record[name] = value;
+  }
+  return record;
+}
+
+/**
+ * Parses an ID attribute to a positive integer
+ *
+ * @param value - The raw attribute value
+ * @returns The parsed ID, or null if missing/invalid
+ */
+function parseIdAttribute(value: string | undefined): number | null {
+  if (!value) return null;
+
+  const id = parseInt(value.trim(), 10);
+  return isNaN(id) || id <= 0 ? null : id;
+}
+
+/**
+ * Parses the delivery selection from cart or order attributes
+ *
+ * Missing values are returned as empty strings / 0 / null so the result
+ * can be passed straight to validateCheckout.
+ *
+ * @param attributes - Cart attributes object or order note attributes array
+ * @returns Parsed delivery attributes
+ *
+ * @example
+ * parseDeliveryAttributes([
+ *   { name: "delivery_city_id", value: "3" },
+ *   { name: "delivery_date", value: "2024-12-25" },
+ *   { name: "delivery_slot_id", value: "2" },
+ * ])
+ * // returns { cityId: 3, deliveryDate: "2024-12-25", deliveryTimeSlot: 2, fulfillmentMode: "delivery", ... }
+ */
+export function parseDeliveryAttributes(
+  attributes: RawAttributes | null | undefined,
+): DeliveryAttributes {
+  const record = toAttributeRecord(attributes);
+
+  return {
+    cityId: parseIdAttribute(record[DELIVERY_ATTRIBUTE_KEYS.cityId]),
+    pickupLocationId: parseIdAttribute(
+      record[DELIVERY_ATTRIBUTE_KEYS.pickupLocationId],
+    ),
+    fulfillmentMode: parseFulfillmentMode(
+      record[DELIVERY_ATTRIBUTE_KEYS.fulfillmentMode],
+    ),
+    fullName: record[DELIVERY_ATTRIBUTE_KEYS.fullName] ?? "",
+    phoneNumber: record[DELIVERY_ATTRIBUTE_KEYS.phoneNumber] ?? "",
+    deliveryAddress: record[DELIVERY_ATTRIBUTE_KEYS.deliveryAddress] ?? "",
+    deliveryDate: (record[DELIVERY_ATTRIBUTE_KEYS.deliveryDate] ?? "").trim(),
+    deliveryTimeSlot:
+      parseIdAttribute(record[DELIVERY_ATTRIBUTE_KEYS.deliveryTimeSlot]) ?? 0,
+  };
+}
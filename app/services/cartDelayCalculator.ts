@@ -2,26 +2,321 @@
  * Cart Delay Calculator Service
  *
  * Calculates the delivery delay based on product tags in the cart.
- * Uses the highest delay found across all products.
+ * By default the highest delay found across all products is used; shops
+ * can instead add delays up or add days for large quantities, see
+ * DelayStrategy.
  *
- * Supported tag patterns:
+ * A product's preparation time comes from the `delivery.prep_days`
+ * metafield on its variant or, failing that, on the product. Products
+ * without the metafield fall back to their tags.
+ *
+ * Tags are matched against the shop's delay tag rules. Shops without
+ * rules use DEFAULT_DELAY_TAG_RULES:
  * - `delay` or `cake-delay` → +1 day
  * - `delay-2` or `cake-delay-2` → +2 days
  * - `delay-3` or `cake-delay-3` → +3 days
+ *
+ * Rules can also give a lead time in hours (e.g. `prep-{hours}h`), which is
+ * counted from the current time rather than in whole days, see LeadTime.
+ */
+
+import type {
+  CartDelayOptions,
+  CartProduct,
+  CartVariantLine,
+  DelayStrategy,
+  DelayTagDefinition,
+  LeadTime,
+  QuantityDelayTierDefinition,
+} from "./types/delivery";
+
+/**
+ * Product and variant metafield holding the preparation time in days
+ */
+export const PREP_DAYS_METAFIELD = {
+  namespace: "delivery",
+  key: "prep_days",
+} as const;
+
+/**
+ * Placeholders in pattern rules that match the delay in days or hours
+ */
+const DAYS_PLACEHOLDER = "{days}";
+const HOURS_PLACEHOLDER = "{hours}";
+
+/**
+ * Delay tag rules used when a shop has not configured any
+ */
+export const DEFAULT_DELAY_TAG_RULES: DelayTagDefinition[] = [
+  { matchType: "exact", tag: "delay", delayDays: 1, delayHours: 0 },
+  { matchType: "exact", tag: "cake-delay", delayDays: 1, delayHours: 0 },
+  { matchType: "pattern", tag: "delay-{days}", delayDays: 1, delayHours: 0 },
+  {
+    matchType: "pattern",
+    tag: "cake-delay-{days}",
+    delayDays: 1,
+    delayHours: 0,
+  },
+];
+
+/**
+ * Supported delay strategies, in the order shown in the admin
+ */
+export const DELAY_STRATEGIES: DelayStrategy[] = [
+  "max",
+  "sum",
+  "maxPlusQuantity",
+];
+
+/**
+ * Highest numbered delay tag listed by getDelayTags
+ */
+const MAX_LISTED_DELAY_DAYS = 30;
+
+/**
+ * No lead time
+ */
+const NO_LEAD_TIME: LeadTime = { days: 0, hours: 0 };
+
+/**
+ * Gets the placeholder used in a pattern
+ *
+ * @param pattern - The pattern rule's tag
+ * @returns `{days}`, `{hours}` or null if the pattern has neither
+ */
+function getPlaceholder(pattern: string): string | null {
+  if (pattern.includes(DAYS_PLACEHOLDER)) return DAYS_PLACEHOLDER;
+  if (pattern.includes(HOURS_PLACEHOLDER)) return HOURS_PLACEHOLDER;
+  return null;
+}
+
+/**
+ * Converts a pattern rule to a regular expression
+ *
+ * @param pattern - Pattern with `*` wildcards and an optional placeholder
+ * @returns Case-insensitive expression, capturing the number if present
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().toLowerCase();
+  const source = normalized
+    .split(getPlaceholder(normalized) ?? DAYS_PLACEHOLDER)
+    .map((part) =>
+      part
+        .split("*")
+        .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*"),
+    )
+    .join("(\\d+)");
+
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Validates a delay tag rule before it is saved
+ *
+ * @param rule - The rule to validate
+ * @returns Array of error messages (empty if valid)
+ *
+ * @example
+ * validateDelayTagRule({
+ *   matchType: "pattern",
+ *   tag: "prep",
+ *   delayDays: 2,
+ *   delayHours: 0,
+ * })
+ * // returns ["Patterns must contain *, {days} or {hours}"]
+ */
+export function validateDelayTagRule(rule: DelayTagDefinition): string[] {
+  const errors: string[] = [];
+  const tag = rule.tag.trim();
+
+  if (!tag) {
+    errors.push("Tag is required");
+  } else if (rule.matchType === "pattern") {
+    const placeholders =
+      tag.split(DAYS_PLACEHOLDER).length +
+      tag.split(HOURS_PLACEHOLDER).length -
+      2;
+
+    if (placeholders === 0 && !tag.includes("*")) {
+      errors.push("Patterns must contain *, {days} or {hours}");
+    } else if (placeholders > 1) {
+      errors.push("Patterns can contain only one {days} or {hours}");
+    }
+  }
+
+  if (!Number.isInteger(rule.delayDays) || rule.delayDays < 0) {
+    errors.push("Delay must be a whole number of days, 0 or more");
+  }
+
+  if (!Number.isInteger(rule.delayHours) || rule.delayHours < 0) {
+    errors.push("Lead time must be a whole number of hours, 0 or more");
+  }
+
+  return errors;
+}
+
+/**
+ * Lists the tags matched by delay tag rules up to a number of days
+ *
+ * Used where tags cannot be matched by pattern, such as the checkout
+ * validation function, which can only check for specific tags. Patterns
+ * with `*` match unlimited tags and are left out.
+ *
+ * Each tag keeps its days and hours apart, as in LeadTime. `{hours}`
+ * patterns are only listed in steps of 24 hours (e.g. ready-24h,
+ * ready-48h), so other hour values are not counted at checkout.
+ *
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
+ * @param maxDays - Highest `{days}` value to list (default 30)
+ * @returns Delay tags with their lead time (hours left out when 0)
+ *
+ * @example
+ * getDelayTags(DEFAULT_DELAY_TAG_RULES, 2)
+ * // returns [
+ * //   { tag: "delay", days: 1 }, { tag: "cake-delay", days: 1 },
+ * //   { tag: "delay-1", days: 1 }, { tag: "delay-2", days: 2 },
+ * //   { tag: "cake-delay-1", days: 1 }, { tag: "cake-delay-2", days: 2 },
+ * // ]
+ * getDelayTags([{ matchType: "exact", tag: "custom", delayDays: 1, delayHours: 48 }])
+ * // returns [{ tag: "custom", days: 1, hours: 48 }]
  */
+export function getDelayTags(
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+  maxDays: number = MAX_LISTED_DELAY_DAYS,
+): Array<{ tag: string; days: number; hours?: number }> {
+  const delays = new Map<string, LeadTime>();
+  const addTag = (tag: string, leadTime: LeadTime) =>
+    delays.set(tag, maxLeadTime(delays.get(tag) ?? NO_LEAD_TIME, leadTime));
+
+  for (const rule of rules) {
+    const tag = rule.tag.trim().toLowerCase();
+
+    const placeholder = getPlaceholder(tag);
+
+    if (rule.matchType === "exact") {
+      addTag(tag, { days: rule.delayDays, hours: rule.delayHours });
+    } else if (!tag.includes("*") && placeholder) {
+      for (let days = 1; days <= maxDays; days++) {
+        addTag(
+          tag.replace(
+            placeholder,
+            String(placeholder === HOURS_PLACEHOLDER ? days * 24 : days),
+          ),
+          placeholder === HOURS_PLACEHOLDER
+            ? { days: 0, hours: days * 24 }
+            : { days, hours: 0 },
+        );
+      }
+    }
+  }
 
-import type { CartProduct } from "./types/delivery";
+  return [...delays].map(([tag, { days, hours }]) =>
+    hours > 0 ? { tag, days, hours } : { tag, days },
+  );
+}
 
 /**
- * Pattern to match delay tags and extract the delay value
- * Matches: delay, delay-2, delay-3, cake-delay, cake-delay-2, cake-delay-3
+ * Gets the lead time a single rule gives a tag
+ *
+ * @param tag - The normalized product tag
+ * @param rule - The delay tag rule
+ * @returns The lead time, or null if the rule does not match
  */
-const DELAY_TAG_PATTERN = /^(?:cake-)?delay(?:-(\d+))?$/i;
+function matchDelayTagRule(
+  tag: string,
+  rule: DelayTagDefinition,
+): LeadTime | null {
+  const ruleLeadTime = { days: rule.delayDays, hours: rule.delayHours };
+
+  if (rule.matchType === "exact") {
+    return tag === rule.tag.trim().toLowerCase() ? ruleLeadTime : null;
+  }
+
+  const match = tag.match(patternToRegExp(rule.tag));
+  if (!match) {
+    return null;
+  }
+
+  // Without a placeholder the rule's own lead time applies
+  if (match[1] === undefined) {
+    return ruleLeadTime;
+  }
+
+  const value = parseInt(match[1], 10);
+  return getPlaceholder(rule.tag.trim().toLowerCase()) === HOURS_PLACEHOLDER
+    ? { days: 0, hours: value }
+    : { days: value, hours: 0 };
+}
+
+/**
+ * Adds lead times up
+ *
+ * @param a - First lead time
+ * @param b - Second lead time
+ * @returns Lead time needed to prepare both one after the other
+ */
+function sumLeadTime(a: LeadTime, b: LeadTime): LeadTime {
+  return { days: a.days + b.days, hours: a.hours + b.hours };
+}
+
+/**
+ * Combines lead times, keeping the highest days and hours
+ *
+ * @param a - First lead time
+ * @param b - Second lead time
+ * @returns Lead time meeting both
+ */
+function maxLeadTime(a: LeadTime, b: LeadTime): LeadTime {
+  return {
+    days: Math.max(a.days, b.days),
+    hours: Math.max(a.hours, b.hours),
+  };
+}
+
+/**
+ * Extracts the lead time from a single tag
+ *
+ * If several rules match, the highest days and hours win.
+ *
+ * @param tag - The product tag to parse
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
+ * @returns The lead time (zero if not a delay tag)
+ *
+ * @example
+ * parseLeadTimeFromTag("delay-2") // returns { days: 2, hours: 0 }
+ * parseLeadTimeFromTag("prep-6h", [
+ *   { matchType: "pattern", tag: "prep-{hours}h", delayDays: 0, delayHours: 0 },
+ * ]) // returns { days: 0, hours: 6 }
+ */
+export function parseLeadTimeFromTag(
+  tag: string,
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+): LeadTime {
+  const normalizedTag = tag.trim().toLowerCase();
+
+  return rules.reduce((leadTime, rule) => {
+    const match = matchDelayTagRule(normalizedTag, rule);
+
+    // Ensure we only count valid positive numbers
+    if (!match || isNaN(match.days) || isNaN(match.hours)) {
+      return leadTime;
+    }
+    return maxLeadTime(leadTime, {
+      days: Math.max(match.days, 0),
+      hours: Math.max(match.hours, 0),
+    });
+  }, NO_LEAD_TIME);
+}
 
 /**
  * Extracts the delay value from a single tag
  *
+ * If several rules match, the highest delay wins. Lead times in hours
+ * are not included, see parseLeadTimeFromTag.
+ *
  * @param tag - The product tag to parse
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
  * @returns The delay in days, or 0 if not a delay tag
  *
  * @example
@@ -29,53 +324,348 @@ const DELAY_TAG_PATTERN = /^(?:cake-)?delay(?:-(\d+))?$/i;
  * parseDelayFromTag("delay-2") // returns 2
  * parseDelayFromTag("cake-delay-3") // returns 3
  * parseDelayFromTag("other-tag") // returns 0
+ * parseDelayFromTag("custom-order", [
+ *   { matchType: "exact", tag: "custom-order", delayDays: 4, delayHours: 0 },
+ * ]) // returns 4
  */
-export function parseDelayFromTag(tag: string): number {
-  const normalizedTag = tag.trim().toLowerCase();
-  const match = normalizedTag.match(DELAY_TAG_PATTERN);
+export function parseDelayFromTag(
+  tag: string,
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+): number {
+  return parseLeadTimeFromTag(tag, rules).days;
+}
 
-  if (!match) {
-    return 0;
+/**
+ * Parses a preparation days metafield value
+ *
+ * @param value - The metafield value (number or numeric string)
+ * @returns The days, or undefined if the value is missing or invalid
+ *
+ * @example
+ * parsePrepDays("3") // returns 3
+ * parsePrepDays(null) // returns undefined
+ * parsePrepDays("-1") // returns undefined
+ */
+export function parsePrepDays(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+
+  const days = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(days) && days >= 0 ? days : undefined;
+}
+
+/**
+ * Calculates the lead time for a single product
+ *
+ * Uses the variant's preparation days, then the product's, and only
+ * falls back to tags when neither metafield is set.
+ *
+ * @param product - The cart product to analyze
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
+ * @returns The product's lead time
+ *
+ * @example
+ * getProductLeadTime({ tags: ["delay-2"] }) // returns { days: 2, hours: 0 }
+ * getProductLeadTime({ tags: [], productPrepDays: 4 }) // returns { days: 4, hours: 0 }
+ */
+export function getProductLeadTime(
+  product: CartProduct,
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+): LeadTime {
+  const prepDays = product.variantPrepDays ?? product.productPrepDays;
+  if (prepDays !== undefined) {
+    return { days: prepDays, hours: 0 };
   }
 
-  // If no number suffix, default to 1 day delay
-  const delayValue = match[1] ? parseInt(match[1], 10) : 1;
+  if (!product.tags || !Array.isArray(product.tags)) {
+    return NO_LEAD_TIME;
+  }
 
-  // Ensure we return a valid positive number
-  return isNaN(delayValue) || delayValue < 0 ? 0 : delayValue;
+  return product.tags.reduce(
+    (leadTime, tag) => maxLeadTime(leadTime, parseLeadTimeFromTag(tag, rules)),
+    NO_LEAD_TIME,
+  );
 }
 
 /**
- * Calculates the maximum delay for a single product based on its tags
+ * Calculates the delay for a single product
+ *
+ * Uses the variant's preparation days, then the product's, and only
+ * falls back to tags when neither metafield is set. Lead times in hours
+ * are not included, see getProductLeadTime.
  *
  * @param product - The cart product to analyze
- * @returns The highest delay value found in the product's tags
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
+ * @returns The product's delay in days
  *
  * @example
  * getProductDelay({ tags: ["delay", "gift"] }) // returns 1
  * getProductDelay({ tags: ["delay-2", "delay"] }) // returns 2
  * getProductDelay({ tags: ["sale", "featured"] }) // returns 0
+ * getProductDelay({ tags: ["delay-2"], productPrepDays: 4 }) // returns 4
+ * getProductDelay({ tags: [], productPrepDays: 4, variantPrepDays: 0 }) // returns 0
  */
-export function getProductDelay(product: CartProduct): number {
-  if (!product.tags || !Array.isArray(product.tags)) {
-    return 0;
+export function getProductDelay(
+  product: CartProduct,
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+): number {
+  return getProductLeadTime(product, rules).days;
+}
+
+/**
+ * Checks if a value is a supported delay strategy
+ *
+ * @param value - Value to check, e.g. from a form or the database
+ * @returns True if the value is a DelayStrategy
+ *
+ * @example
+ * isDelayStrategy("sum") // returns true
+ * isDelayStrategy("min") // returns false
+ */
+export function isDelayStrategy(value: unknown): value is DelayStrategy {
+  return DELAY_STRATEGIES.includes(value as DelayStrategy);
+}
+
+/**
+ * Validates a quantity delay tier before it is saved
+ *
+ * @param tier - The tier to validate
+ * @returns Array of error messages (empty if valid)
+ *
+ * @example
+ * validateQuantityDelayTier({ tag: "cupcake", minQuantity: 0, extraDays: 1 })
+ * // returns ["Minimum quantity must be a whole number, 2 or more"]
+ */
+export function validateQuantityDelayTier(
+  tier: QuantityDelayTierDefinition,
+): string[] {
+  const errors: string[] = [];
+
+  if (!tier.tag.trim()) {
+    errors.push("Tag is required");
+  }
+
+  if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < 2) {
+    errors.push("Minimum quantity must be a whole number, 2 or more");
+  }
+
+  if (!Number.isInteger(tier.extraDays) || tier.extraDays < 1) {
+    errors.push("Extra delay must be a whole number of days, 1 or more");
+  }
+
+  return errors;
+}
+
+/**
+ * Gets the extra days a cart line's quantity adds
+ *
+ * Tiers match the product's tags case-insensitively. When several tiers
+ * apply, the one with the most extra days wins.
+ *
+ * @param product - The cart product with its quantity
+ * @param tiers - Quantity delay tiers
+ * @returns Extra days (0 if no tier applies)
+ *
+ * @example
+ * getQuantityDelay({ tags: ["cupcake"], quantity: 24 }, [
+ *   { tag: "cupcake", minQuantity: 12, extraDays: 1 },
+ *   { tag: "cupcake", minQuantity: 24, extraDays: 2 },
+ * ]) // returns 2
+ */
+export function getQuantityDelay(
+  product: CartProduct,
+  tiers: QuantityDelayTierDefinition[],
+): number {
+  const tags = (product.tags ?? []).map((tag) => tag.trim().toLowerCase());
+  const quantity = product.quantity ?? 1;
+
+  return tiers.reduce(
+    (extraDays, tier) =>
+      quantity >= tier.minQuantity && tags.includes(tier.tag.toLowerCase())
+        ? Math.max(extraDays, tier.extraDays)
+        : extraDays,
+    0,
+  );
+}
+
+/**
+ * Parses cart lines sent by the storefront into cart products
+ *
+ * Lines are either the comma-separated tags of the product or objects
+ * with the tags, the prep days metafield values and the quantity.
+ *
+ * @param lines - Cart lines from a request
+ * @returns Cart products (invalid lines are skipped)
+ *
+ * @example
+ * parseCartLines(["delay-2,gift", { tags: "cake", productPrepDays: 3 }])
+ * // returns [
+ * //   { tags: ["delay-2", "gift"] },
+ * //   {
+ * //     tags: ["cake"],
+ * //     productPrepDays: 3,
+ * //     variantPrepDays: undefined,
+ * //     quantity: undefined,
+ * //   },
+ * // ]
+ */
+export function parseCartLines(lines: unknown): CartProduct[] {
+  if (!Array.isArray(lines)) {
+    return [];
   }
 
-  return product.tags.reduce((maxDelay, tag) => {
-    const delay = parseDelayFromTag(tag);
-    return Math.max(maxDelay, delay);
-  }, 0);
+  const parseTags = (tagsInput: unknown) =>
+    typeof tagsInput === "string"
+      ? tagsInput
+          .split(",")
+          .map((t) => t.trim())
+          .filter(Boolean)
+      : [];
+
+  return lines.flatMap((line): CartProduct[] => {
+    if (typeof line === "string") {
+      return [{ tags: parseTags(line) }];
+    }
+
+    if (line && typeof line === "object") {
+      const { tags, productPrepDays, variantPrepDays, quantity } =
+        line as Record<string, unknown>;
+      const parsedQuantity = Number(quantity);
+      return [
+        {
+          tags: parseTags(tags),
+          productPrepDays: parsePrepDays(productPrepDays),
+          variantPrepDays: parsePrepDays(variantPrepDays),
+          quantity:
+            Number.isInteger(parsedQuantity) && parsedQuantity > 0
+              ? parsedQuantity
+              : undefined,
+        },
+      ];
+    }
+
+    return [];
+  });
+}
+
+/**
+ * Parses the variant IDs and quantities of cart lines sent by the storefront
+ *
+ * Used where the cart's tags and prep days must not be taken from the
+ * client: the products are loaded from Shopify by variant instead.
+ *
+ * @param lines - Cart lines from a request, each `{ variantId, quantity }`
+ *   with a numeric or GID variant ID
+ * @returns Variant lines (lines without a valid variant ID are skipped)
+ *
+ * @example
+ * parseCartVariantLines([{ variantId: "gid://shopify/ProductVariant/42", quantity: 2 }, "cake"])
+ * // returns [{ variantId: 42, quantity: 2 }]
+ */
+export function parseCartVariantLines(lines: unknown): CartVariantLine[] {
+  if (!Array.isArray(lines)) {
+    return [];
+  }
+
+  return lines.flatMap((line): CartVariantLine[] => {
+    if (!line || typeof line !== "object") {
+      return [];
+    }
+
+    const { variantId, quantity } = line as Record<string, unknown>;
+    const match = String(variantId ?? "").match(
+      /^(?:gid:\/\/shopify\/ProductVariant\/)?(\d+)$/,
+    );
+    if (!match) {
+      return [];
+    }
+
+    const parsedQuantity = Number(quantity);
+    return [
+      {
+        variantId: parseInt(match[1], 10),
+        quantity:
+          Number.isInteger(parsedQuantity) && parsedQuantity > 0
+            ? parsedQuantity
+            : 1,
+      },
+    ];
+  });
+}
+
+/**
+ * Calculates the cart-level lead time based on all products
+ *
+ * Days and hours are combined separately and stay separate minimums (see
+ * LeadTime): with the "max" strategy a cart with a 1 day product and a
+ * 6 hour product needs both `{ days: 1, hours: 6 }`. The "sum" strategy
+ * adds the days and the hours of all lines up, and "maxPlusQuantity" adds
+ * each line's quantity tier days to its product's days before taking the
+ * highest.
+ *
+ * @param products - Array of cart products with their tags
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
+ * @param options - Delay strategy and quantity tiers (default "max")
+ * @returns The cart's lead time
+ *
+ * @example
+ * calculateCartLeadTime(
+ *   [{ tags: ["delay"] }, { tags: ["prep-6h"] }],
+ *   [
+ *     ...DEFAULT_DELAY_TAG_RULES,
+ *     { matchType: "pattern", tag: "prep-{hours}h", delayDays: 0, delayHours: 0 },
+ *   ],
+ * ) // returns { days: 1, hours: 6 }
+ *
+ * @example
+ * calculateCartLeadTime(
+ *   [{ tags: ["delay-2"] }, { tags: ["delay"] }],
+ *   DEFAULT_DELAY_TAG_RULES,
+ *   { strategy: "sum" },
+ * ) // returns { days: 3, hours: 0 }
+ */
+export function calculateCartLeadTime(
+  products: CartProduct[],
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+  options: CartDelayOptions = {},
+): LeadTime {
+  if (!products || !Array.isArray(products)) {
+    return NO_LEAD_TIME;
+  }
+
+  const { strategy = "max", quantityTiers = [] } = options;
+
+  return products.reduce((leadTime, product) => {
+    const productLeadTime = getProductLeadTime(product, rules);
+
+    if (strategy === "sum") {
+      return sumLeadTime(leadTime, productLeadTime);
+    }
+
+    if (strategy === "maxPlusQuantity") {
+      return maxLeadTime(leadTime, {
+        days: productLeadTime.days + getQuantityDelay(product, quantityTiers),
+        hours: productLeadTime.hours,
+      });
+    }
+
+    return maxLeadTime(leadTime, productLeadTime);
+  }, NO_LEAD_TIME);
 }
 
 /**
  * Calculates the cart-level delivery delay based on all products
  *
- * The delay is determined by the product with the highest delay requirement.
- * This ensures that if any product in the cart needs extra preparation time,
- * the entire order reflects that delay.
+ * By default the delay is determined by the product with the highest delay
+ * requirement. This ensures that if any product in the cart needs extra
+ * preparation time, the entire order reflects that delay. Lead times in
+ * hours are not included, see calculateCartLeadTime.
  *
  * @param products - Array of cart products with their tags
- * @returns The highest delay in days found across all products (0 if no delays)
+ * @param rules - Delay tag rules (default DEFAULT_DELAY_TAG_RULES)
+ * @param options - Delay strategy and quantity tiers (default "max")
+ * @returns The cart's delay in days (0 if no delays)
  *
  * @example
  * // Single product with delay
@@ -94,13 +684,10 @@ export function getProductDelay(product: CartProduct): number {
  * // Empty cart
  * calculateCartDelay([]) // returns 0
  */
-export function calculateCartDelay(products: CartProduct[]): number {
-  if (!products || !Array.isArray(products) || products.length === 0) {
-    return 0;
-  }
-
-  return products.reduce((maxDelay, product) => {
-    const productDelay = getProductDelay(product);
-    return Math.max(maxDelay, productDelay);
-  }, 0);
+export function calculateCartDelay(
+  products: CartProduct[],
+  rules: DelayTagDefinition[] = DEFAULT_DELAY_TAG_RULES,
+  options: CartDelayOptions = {},
+): number {
+  return calculateCartLeadTime(products, rules, options).days;
 }
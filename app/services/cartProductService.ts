@@ -0,0 +1,91 @@
+/**
+ * Cart Product Service
+ *
+ * Loads the products behind cart lines from Shopify, by variant ID, with
+ * the tags and preparation days that set the earliest delivery date.
+ * Storefront requests only send variant IDs and quantities, so the lead
+ * time never depends on product data from the client.
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { parsePrepDays, PREP_DAYS_METAFIELD } from "./cartDelayCalculator";
+import type { CartProduct, CartVariantLine } from "./types/delivery";
+
+const CART_VARIANTS_QUERY = `#graphql
+  query CartVariants($ids: [ID!]!, $namespace: String!, $key: String!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        metafield(namespace: $namespace, key: $key) {
+          value
+        }
+        product {
+          tags
+          metafield(namespace: $namespace, key: $key) {
+            value
+          }
+        }
+      }
+    }
+  }
+`;
+
+type VariantNode = {
+  id: string;
+  metafield: { value: string } | null;
+  product: { tags: string[]; metafield: { value: string } | null };
+} | null;
+
+/**
+ * Load the products of cart lines with their tags and prep days
+ *
+ * Lines without a variant (e.g. custom items) count as products without
+ * tags.
+ *
+ * @param admin - Admin API context
+ * @param lines - Variant IDs and quantities of the cart lines
+ * @returns One cart product per line
+ */
+export async function loadVariantProducts(
+  admin: AdminApiContext,
+  lines: CartVariantLine[],
+): Promise<CartProduct[]> {
+  const variantIds = [
+    ...new Set(
+      lines.flatMap((line) =>
+        line.variantId
+          ? [`gid://shopify/ProductVariant/${line.variantId}`]
+          : [],
+      ),
+    ),
+  ];
+
+  const variants = new Map<string, NonNullable<VariantNode>>();
+  if (variantIds.length > 0) {
+    const response = await admin.graphql(CART_VARIANTS_QUERY, {
+      variables: {
+        ids: variantIds,
+        namespace: PREP_DAYS_METAFIELD.namespace,
+        key: PREP_DAYS_METAFIELD.key,
+      },
+    });
+    const { data } = await response.json();
+
+    for (const node of data.nodes as VariantNode[]) {
+      if (node?.id) variants.set(node.id, node);
+    }
+  }
+
+  return lines.map((line) => {
+    const variant = variants.get(
+      `gid://shopify/ProductVariant/${line.variantId}`,
+    );
+
+    return {
+      tags: variant?.product.tags ?? [],
+      productPrepDays: parsePrepDays(variant?.product.metafield?.value),
+      variantPrepDays: parsePrepDays(variant?.metafield?.value),
+      quantity: line.quantity,
+    };
+  });
+}
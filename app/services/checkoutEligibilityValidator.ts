@@ -7,7 +7,7 @@
  * Required fields:
  * - Full Name
  * - Phone Number
- * - Delivery Address
+ * - Delivery Address (not for pickup)
  * - Delivery Date
  * - Delivery Time Slot
  */
@@ -162,6 +162,7 @@ export function validateDeliveryTimeSlot(deliveryTimeSlot: number): string[] {
  *
  * Performs centralized validation of all required checkout fields.
  * Checkout button should remain disabled until all validations pass.
+ * The delivery address is not required for pickup.
  *
  * @param fields - The checkout fields to validate
  * @returns Validation result with isValid flag and array of error messages
@@ -204,7 +205,9 @@ export function validateCheckout(
   // Validate each field
   errors.push(...validateFullName(fields.fullName));
   errors.push(...validatePhoneNumber(fields.phoneNumber));
-  errors.push(...validateDeliveryAddress(fields.deliveryAddress));
+  if (fields.fulfillmentMode !== "pickup") {
+    errors.push(...validateDeliveryAddress(fields.deliveryAddress));
+  }
   errors.push(...validateDeliveryDate(fields.deliveryDate));
   errors.push(...validateDeliveryTimeSlot(fields.deliveryTimeSlot));
 
@@ -251,6 +254,7 @@ export function createEmptyCheckoutFields(): CheckoutFields {
     deliveryAddress: "",
     deliveryDate: "",
     deliveryTimeSlot: 0,
+    fulfillmentMode: "delivery",
   };
 }
 
@@ -0,0 +1,231 @@
+/**
+ * Checkout Rule Set Service
+ *
+ * Builds the rule set published to the shop metafield read by the
+ * delivery-checkout-validation Shopify Function. The function runs without
+ * network access, so it evaluates this snapshot with the same semantics as
+ * dateAvailabilityService and slotAvailabilityService.
+ *
+ * Function input is size-limited, so the rule set is kept small: polygon
+ * zones are published as bounding boxes, and only a few distinct cutoff
+ * times can be checked (see MAX_CHECKOUT_CUTOFF_TIMES).
+ *
+ * Keep the format in sync with
+ * extensions/delivery-checkout-validation/src/rules.js and bump
+ * CHECKOUT_RULE_SET_VERSION on breaking changes.
+ */
+
+import { getDelayTags } from "./cartDelayCalculator";
+import { getCityCutoffTime, parseTime } from "./cityCutoffService";
+import { normalizeAreaName, normalizePostalCode } from "./deliveryZoneService";
+import { getPolygonBounds } from "./geoJsonService";
+import {
+  getOpeningHoursSlotIds,
+  getPickupConfig,
+  toPickupCity,
+} from "./pickupLocationService";
+import { getSpecialCityRules } from "./specialCityService";
+import type { CheckoutRuleSet, DeliveryConfig } from "./types/delivery";
+
+/**
+ * Current rule set format version
+ */
+export const CHECKOUT_RULE_SET_VERSION = 1;
+
+/**
+ * Metafield holding the rule set (shop) and the function's input
+ * variables (validation)
+ */
+export const CHECKOUT_RULES_METAFIELD = {
+  namespace: "$app:delivery",
+  key: "checkout_rules",
+  inputKey: "function_input",
+} as const;
+
+/**
+ * Most distinct cutoff times the function can check, one input variable
+ * each (cutoffTime0 ... cutoffTime3 in cart_validations_generate_run.graphql)
+ */
+export const MAX_CHECKOUT_CUTOFF_TIMES = 4;
+
+/**
+ * Gets the date, weekday and slot disable rules of a configuration
+ */
+function getDisableRules(
+  config: DeliveryConfig,
+): Pick<CheckoutRuleSet, "dateRules" | "weekdayRules" | "slotRules"> {
+  return {
+    dateRules: config.dateDisableRules.map((rule) => ({
+      startDate: rule.startDate,
+      endDate: rule.endDate,
+      cityId: rule.cityId,
+      repeatsYearly: rule.repeatsYearly,
+    })),
+    weekdayRules: config.weekdayDisableRules.map((rule) => ({
+      daysOfWeek: rule.daysOfWeek,
+      startDate: rule.startDate,
+      endDate: rule.endDate,
+      cityId: rule.cityId,
+    })),
+    slotRules: config.slotDisableRules.map((rule) => ({
+      timeSlotId: rule.timeSlotId,
+      cityId: rule.cityId,
+      startDate: rule.startDate,
+      endDate: rule.endDate,
+    })),
+  };
+}
+
+/**
+ * Zero-pads a cutoff time (9:05 becomes 09:05), as the function's time
+ * input expects; invalid times are returned as they are
+ */
+function padCutoffTime(time: string): string {
+  const parsed = parseTime(time);
+  if (!parsed) return time;
+
+  return [parsed.hours, parsed.minutes]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * Gets the distinct cutoff times of the published cities and pickup
+ * locations, earliest first
+ *
+ * Invalid times are left out, and so are the latest ones past
+ * MAX_CHECKOUT_CUTOFF_TIMES, so the function does not check them.
+ */
+function getCutoffTimes(
+  entries: Array<{
+    cutoffTime?: string;
+    weekdayCutoffTimes?: Record<number, string>;
+  }>,
+): string[] {
+  const times = entries
+    .flatMap((entry) => [
+      entry.cutoffTime ?? "",
+      ...Object.values(entry.weekdayCutoffTimes ?? {}),
+    ])
+    .filter((time) => parseTime(time));
+
+  return [...new Set(times)].sort().slice(0, MAX_CHECKOUT_CUTOFF_TIMES);
+}
+
+/**
+ * Builds the pickup part of the rule set: the locations with their slots
+ * and opening hours, and their own closures (see getPickupConfig)
+ */
+function buildPickupRules(
+  config: DeliveryConfig,
+): NonNullable<CheckoutRuleSet["pickup"]> {
+  const activeSlots = config.timeSlots.filter((slot) => slot.isActive);
+
+  return {
+    locations: config.pickupLocations
+      .filter((location) => location.isActive)
+      .map((location) => ({
+        id: location.id,
+        timeSlotIds: (location.timeSlots ?? []).map((slot) => slot.id),
+        weekdaySlotIds: getOpeningHoursSlotIds(
+          location.openingHours,
+          activeSlots,
+        ),
+        cutoffTime: padCutoffTime(getCityCutoffTime(toPickupCity(location))),
+      })),
+    ...getDisableRules(getPickupConfig(config)),
+  };
+}
+
+/**
+ * Builds the checkout rule set from the delivery configuration
+ *
+ * Only active cities, pickup locations and slots are included. Inactive
+ * ones are left out, so selections pointing to them fail validation.
+ * Zone cutoffs, slot cutoffs, same-day buffers and slot capacity are not
+ * included; the storefront validation endpoint checks them.
+ *
+ * @param config - Delivery configuration for the shop
+ * @returns Rule set to publish to the shop metafield
+ *
+ * @example
+ * buildCheckoutRuleSet(config)
+ * // returns {
+ * //   version: 1,
+ * //   delayTags: [{ tag: "delay", days: 1 }, ...],
+ * //   cities: [{ id: 1, timeSlotIds: [], cutoffTime: "14:00" }],
+ * //   cutoffTimes: ["14:00"],
+ * //   timeSlotIds: [1, 2],
+ * //   dateRules: [{ startDate: "2024-12-16", repeatsYearly: true }],
+ * //   weekdayRules: [],
+ * //   slotRules: [],
+ * //   production: { workingDays: [0, 1, 2, 3, 4], closures: [] },
+ * //   delayStrategy: "max",
+ * //   quantityTiers: [],
+ * //   zones: [{ cityId: 1, matchType: "postalPrefix", value: "12" }],
+ * //   (polygon zones: { cityId: 2, matchType: "polygon", bounds: [90.4, 23.7, 90.5, 23.8], ... })
+ * //   pickup: { locations: [{ id: 4, timeSlotIds: [] }], dateRules: [], ... },
+ * // }
+ */
+export function buildCheckoutRuleSet(config: DeliveryConfig): CheckoutRuleSet {
+  const cities = config.cities
+    .filter((city) => city.isActive)
+    .map((city) => ({
+      id: city.id,
+      timeSlotIds: (city.timeSlots ?? []).map((slot) => slot.id),
+      special: getSpecialCityRules(city),
+      cutoffTime: padCutoffTime(getCityCutoffTime(city)),
+      weekdayCutoffTimes: city.weekdayCutoffTimes
+        ? Object.fromEntries(
+            Object.entries(city.weekdayCutoffTimes).map(([day, time]) => [
+              day,
+              padCutoffTime(time),
+            ]),
+          )
+        : undefined,
+    }));
+  const pickup = buildPickupRules(config);
+
+  return {
+    version: CHECKOUT_RULE_SET_VERSION,
+    delayTags: getDelayTags(config.delayTagRules),
+    cities,
+    cutoffTimes: getCutoffTimes([...cities, ...pickup.locations]),
+    timeSlotIds: config.timeSlots
+      .filter((slot) => slot.isActive)
+      .map((slot) => slot.id),
+    ...getDisableRules(config),
+    production: config.productionCalendar,
+    delayStrategy: config.delayStrategy,
+    quantityTiers: config.quantityDelayTiers.map((tier) => ({
+      tag: tier.tag,
+      minQuantity: tier.minQuantity,
+      days: tier.extraDays,
+    })),
+    // Zones of inactive cities are left out, as in resolveDeliveryCity
+    zones: config.deliveryZones
+      .filter((zone) =>
+        config.cities.some((city) => city.isActive && city.id === zone.cityId),
+      )
+      .map((zone) =>
+        zone.matchType === "polygon"
+          ? {
+              cityId: zone.cityId,
+              matchType: zone.matchType,
+              value: zone.value,
+              bounds: getPolygonBounds(zone.polygons ?? []) ?? undefined,
+              timeSlotIds: zone.timeSlotIds ?? [],
+            }
+          : {
+              cityId: zone.cityId,
+              matchType: zone.matchType,
+              value:
+                zone.matchType === "area"
+                  ? normalizeAreaName(zone.value)
+                  : normalizePostalCode(zone.value),
+              timeSlotIds: zone.timeSlotIds ?? [],
+            },
+      ),
+    pickup,
+  };
+}
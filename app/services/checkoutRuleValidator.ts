@@ -0,0 +1,263 @@
+/**
+ * Checkout Rule Validator Service
+ *
+ * Server-side check of a delivery selection against the shop's live
+ * delivery rules. validateCheckout only checks that the fields are filled
+ * in; this rejects selections that are stale (e.g. the cutoff passed since
+ * the date was picked) or tampered with (e.g. a disabled date set directly
+ * in the cart attributes).
+ *
+ * Uses the same rules as getDeliveryAvailability, so any date and slot the
+ * storefront offers passes validation. Pickup selections are checked
+ * against the pickup location's rules instead (see getPickupConfig).
+ */
+
+import { calculateCartLeadTime } from "./cartDelayCalculator";
+import { getEarliestDelivery } from "./cityCutoffService";
+import {
+  findDateDisableRule,
+  findWeekdayDisableRule,
+  formatDateToString,
+  normalizeDate,
+} from "./dateAvailabilityService";
+import { getCityForAddress, resolveDeliveryCity } from "./deliveryZoneService";
+import { getFulfillmentConfig } from "./pickupLocationService";
+import { checkSlotAvailability } from "./slotAvailabilityService";
+import type {
+  CartProduct,
+  CheckoutFields,
+  CheckoutRuleError,
+  CheckoutRuleValidationResult,
+  DeliveryAddress,
+  DeliveryConfig,
+  SlotBookingCount,
+} from "./types/delivery";
+
+/**
+ * Validates a delivery selection against the delivery rules
+ *
+ * Checks, in order:
+ * 1. City - selected and active, and the shipping address (if given) is in
+ *    one of its delivery zones. Skipped if the shop has no zones. The cutoff
+ *    and slot list of the zone the address is in replace the city's. For
+ *    pickup, the pickup location must be selected and active instead.
+ * 2. Date - valid, not in the past, not before the cart's minimum date
+ *    and not disabled by a date or weekday rule
+ * 3. Slot - active, offered in the city, not disabled, not starting before
+ *    the cart's lead time has passed and not fully booked
+ *
+ * Slot checks are skipped if the date is invalid.
+ *
+ * @param fields - The checkout fields with the selected date, slot and
+ *   fulfillment mode
+ * @param shopConfig - Delivery configuration for the shop
+ * @param products - Products in the cart
+ * @param cityId - The selected city ID, or pickup location ID for pickup
+ *   (null if none selected)
+ * @param currentTime - Current Date object
+ * @param bookings - Current booking counts, used for slot capacity
+ * @param address - Shipping address, checked against the delivery zones
+ *   (ignored for pickup)
+ * @returns Validation result with error codes and messages
+ *
+ * @example
+ * validateCheckoutAgainstConfig(
+ *   { ...fields, deliveryDate: "2024-12-25", deliveryTimeSlot: 1 },
+ *   config,
+ *   [{ tags: ["delay-2"] }],
+ *   1,
+ *   new Date("2024-12-24T10:00:00Z"),
+ * )
+ * // returns {
+ * //   isValid: false,
+ * //   errors: [{ code: "DATE_BEFORE_MINIMUM", message: "The earliest delivery date for this cart is 2024-12-26" }]
+ * // }
+ */
+export function validateCheckoutAgainstConfig(
+  fields: CheckoutFields,
+  shopConfig: DeliveryConfig,
+  products: CartProduct[],
+  cityId: number | null,
+  currentTime: Date,
+  bookings: SlotBookingCount[] = [],
+  address?: DeliveryAddress,
+): CheckoutRuleValidationResult {
+  const isPickup = fields.fulfillmentMode === "pickup";
+  const config = getFulfillmentConfig(
+    shopConfig,
+    fields.fulfillmentMode ?? "delivery",
+  );
+  const { timezone } = config;
+  const errors: CheckoutRuleError[] = [];
+  const leadTime = calculateCartLeadTime(products, config.delayTagRules, {
+    strategy: config.delayStrategy,
+    quantityTiers: config.quantityDelayTiers,
+  });
+
+  // 1. City
+  const selectedCity = cityId
+    ? config.cities.find((c) => c.id === cityId)
+    : undefined;
+  const city =
+    selectedCity &&
+    getCityForAddress(
+      selectedCity,
+      address,
+      config.deliveryZones,
+      config.timeSlots,
+    );
+  if (!cityId) {
+    errors.push(
+      isPickup
+        ? {
+            code: "PICKUP_LOCATION_REQUIRED",
+            message: "Pickup location is required",
+          }
+        : { code: "CITY_REQUIRED", message: "Delivery city is required" },
+    );
+  } else if (!city) {
+    errors.push(
+      isPickup
+        ? {
+            code: "PICKUP_LOCATION_NOT_FOUND",
+            message: "Pickup is not available at the selected location",
+          }
+        : {
+            code: "CITY_NOT_FOUND",
+            message: "Delivery is not available in the selected city",
+          },
+    );
+  }
+
+  const hasAddress =
+    address &&
+    (address.zip || address.city || typeof address.latitude === "number");
+  if (address && hasAddress && config.deliveryZones.length) {
+    const addressCity = resolveDeliveryCity(
+      address,
+      config.deliveryZones,
+      config.cities,
+    );
+
+    if (!addressCity) {
+      errors.push({
+        code: "AREA_NOT_SERVED",
+        message: "We do not deliver to this address",
+      });
+    } else if (city && addressCity.id !== city.id) {
+      errors.push({
+        code: "AREA_CITY_MISMATCH",
+        message: `This address is in ${addressCity.name}, not ${city.name}`,
+      });
+    }
+  }
+
+  // 2. Date
+  const date = fields.deliveryDate ? normalizeDate(fields.deliveryDate) : null;
+  if (!fields.deliveryDate) {
+    errors.push({
+      code: "DATE_REQUIRED",
+      message: "Delivery date is required",
+    });
+  } else if (!date) {
+    errors.push({
+      code: "DATE_INVALID",
+      message: "Delivery date format is invalid",
+    });
+  }
+
+  const earliest = getEarliestDelivery(
+    city,
+    config.timeSlots,
+    currentTime,
+    leadTime,
+    timezone,
+    config.productionCalendar,
+  );
+
+  if (date) {
+    const today = formatDateToString(currentTime, timezone);
+    const minimumDate = earliest.date;
+
+    const disableRule =
+      findDateDisableRule(date, config.dateDisableRules, cityId ?? undefined) ??
+      findWeekdayDisableRule(
+        date,
+        config.weekdayDisableRules,
+        cityId ?? undefined,
+      );
+
+    if (date < today) {
+      errors.push({
+        code: "DATE_IN_PAST",
+        message: "Delivery date is in the past",
+      });
+    } else if (date < minimumDate) {
+      errors.push({
+        code: "DATE_BEFORE_MINIMUM",
+        message: `The earliest delivery date for this cart is ${minimumDate}`,
+      });
+    } else if (disableRule) {
+      errors.push({
+        code: "DATE_DISABLED",
+        message: disableRule.reason
+          ? `Delivery is not available on ${date}: ${disableRule.reason}`
+          : `Delivery is not available on ${date}`,
+      });
+    }
+  }
+
+  // 3. Slot
+  if (!fields.deliveryTimeSlot) {
+    errors.push({
+      code: "SLOT_REQUIRED",
+      message: "Delivery time slot is required",
+    });
+  } else if (date) {
+    const slot = config.timeSlots.find((s) => s.id === fields.deliveryTimeSlot);
+
+    if (!slot) {
+      errors.push({
+        code: "SLOT_NOT_FOUND",
+        message: "The selected time slot is not available",
+      });
+    } else {
+      const result = checkSlotAvailability(
+        slot,
+        date,
+        cityId,
+        config.slotDisableRules,
+        {
+          city,
+          capacity: {
+            defaultCapacity: config.slotCapacity,
+            rules: config.slotCapacityRules,
+            bookings,
+          },
+          earliestStart: earliest.earliestStart,
+          currentTime: currentTime,
+          timeZone: timezone,
+        },
+      );
+
+      if (result.disabled && result.remainingCapacity === 0) {
+        errors.push({
+          code: "SLOT_FULLY_BOOKED",
+          message: "The selected time slot is fully booked",
+        });
+      } else if (result.disabled) {
+        errors.push({
+          code: "SLOT_UNAVAILABLE",
+          message: result.reason
+            ? `The selected time slot is not available: ${result.reason}`
+            : "The selected time slot is not available",
+        });
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Checkout Validation Service
+ *
+ * Publishes the delivery rules for the delivery-checkout-validation
+ * Shopify Function: the rule set goes to a shop metafield, and the
+ * delay tags and cutoff times the function checks go to its validation's
+ * input variables. Creates the validation on first publish.
+ *
+ * The function only sees the published snapshot, so admin pages re-publish
+ * it whenever a rule in it is saved (see republishCheckoutRules).
+ *
+ * The function enforces the selection, its dates and slots, the cart's
+ * lead time, delivery zones and city cutoffs. Slot capacity, slot cutoffs,
+ * same-day buffers, zone cutoffs and exact polygon boundaries are only
+ * checked by the storefront validation endpoint, which is advisory: it
+ * drives the cart picker but cannot stop a checkout.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  buildCheckoutRuleSet,
+  CHECKOUT_RULES_METAFIELD,
+} from "./checkoutRuleSetService";
+import { loadDeliveryConfig } from "./deliveryConfigService";
+import type { CheckoutRuleSet, DeliveryConfig } from "./types/delivery";
+
+/**
+ * Handle of the function extension (extensions/delivery-checkout-validation)
+ */
+const CHECKOUT_VALIDATION_FUNCTION_HANDLE = "delivery-checkout-validation";
+
+/**
+ * Largest rule set published, in bytes. Function input is size-limited,
+ * so a bigger rule set is refused instead of breaking checkout validation.
+ */
+const MAX_RULE_SET_BYTES = 10_000;
+
+const CHECKOUT_VALIDATION_QUERY = `#graphql
+  query CheckoutValidation($namespace: String!, $key: String!) {
+    shop {
+      id
+    }
+    validations(first: 50) {
+      nodes {
+        id
+        metafield(namespace: $namespace, key: $key) {
+          id
+        }
+      }
+    }
+  }
+`;
+
+const VALIDATION_CREATE_MUTATION = `#graphql
+  mutation CreateCheckoutValidation($validation: ValidationCreateInput!) {
+    validationCreate(validation: $validation) {
+      validation {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const METAFIELDS_SET_MUTATION = `#graphql
+  mutation SetCheckoutRules($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Publish the delivery rules for the checkout validation function
+ *
+ * @param admin - Admin API context
+ * @param config - Delivery configuration for the shop
+ * @param options - Whether to create the validation if the shop has none
+ *   (default true)
+ * @returns The published rule set
+ * @throws Error if the rule set is too large, or Shopify rejects the
+ *   validation or metafields
+ */
+export async function publishCheckoutRules(
+  admin: AdminApiContext,
+  config: DeliveryConfig,
+  { createValidation = true }: { createValidation?: boolean } = {},
+): Promise<CheckoutRuleSet> {
+  const ruleSet = buildCheckoutRuleSet(config);
+  const ruleSetValue = JSON.stringify(ruleSet);
+  if (Buffer.byteLength(ruleSetValue) > MAX_RULE_SET_BYTES) {
+    throw new Error(
+      "The delivery rules are too large for checkout validation. Remove past disabled dates or unused zones and try again.",
+    );
+  }
+
+  const functionInput = JSON.stringify({
+    delayTags: [
+      ...new Set([
+        ...ruleSet.delayTags.map(({ tag }) => tag),
+        ...(ruleSet.quantityTiers ?? []).map(({ tag }) => tag),
+      ]),
+    ],
+    // cutoffTime0, cutoffTime1, ... in the order of ruleSet.cutoffTimes
+    ...Object.fromEntries(
+      (ruleSet.cutoffTimes ?? []).map((time, index) => [
+        `cutoffTime${index}`,
+        `${time}:00`,
+      ]),
+    ),
+  });
+
+  const response = await admin.graphql(CHECKOUT_VALIDATION_QUERY, {
+    variables: {
+      namespace: CHECKOUT_RULES_METAFIELD.namespace,
+      key: CHECKOUT_RULES_METAFIELD.inputKey,
+    },
+  });
+  const { data } = await response.json();
+
+  const metafields: Array<{
+    ownerId: string;
+    namespace: string;
+    key: string;
+    type: string;
+    value: string;
+  }> = [
+    {
+      ownerId: data.shop.id as string,
+      namespace: CHECKOUT_RULES_METAFIELD.namespace,
+      key: CHECKOUT_RULES_METAFIELD.key,
+      type: "json",
+      value: ruleSetValue,
+    },
+  ];
+
+  // Our validation is the one carrying the function input metafield
+  const validation = (
+    data.validations.nodes as Array<{ id: string; metafield: unknown }>
+  ).find((node) => node.metafield);
+
+  if (validation) {
+    metafields.push({
+      ownerId: validation.id,
+      namespace: CHECKOUT_RULES_METAFIELD.namespace,
+      key: CHECKOUT_RULES_METAFIELD.inputKey,
+      type: "json",
+      value: functionInput,
+    });
+  } else if (createValidation) {
+    const createResponse = await admin.graphql(VALIDATION_CREATE_MUTATION, {
+      variables: {
+        validation: {
+          functionHandle: CHECKOUT_VALIDATION_FUNCTION_HANDLE,
+          enable: true,
+          blockOnFailure: false,
+          metafields: [
+            {
+              namespace: CHECKOUT_RULES_METAFIELD.namespace,
+              key: CHECKOUT_RULES_METAFIELD.inputKey,
+              type: "json",
+              value: functionInput,
+            },
+          ],
+        },
+      },
+    });
+    const { data: createData } = await createResponse.json();
+    const [createError] = createData?.validationCreate?.userErrors ?? [];
+    if (createError) {
+      throw new Error(createError.message);
+    }
+  }
+
+  const setResponse = await admin.graphql(METAFIELDS_SET_MUTATION, {
+    variables: { metafields },
+  });
+  const { data: setData } = await setResponse.json();
+  const [setError] = setData?.metafieldsSet?.userErrors ?? [];
+  if (setError) {
+    throw new Error(setError.message);
+  }
+
+  return ruleSet;
+}
+
+/**
+ * Re-publish the delivery rules after a rule was saved
+ *
+ * Keeps the function's rule set in step with the database, so new cities,
+ * zones and closures are enforced without publishing by hand. Does not
+ * create the validation: checkout is only blocked once the shop publishes
+ * from the settings page.
+ *
+ * @param prisma - Prisma client instance
+ * @param admin - Admin API context
+ * @param shop - The shop domain
+ * @throws Error if Shopify rejects the metafields
+ */
+export async function republishCheckoutRules(
+  prisma: PrismaClient,
+  admin: AdminApiContext,
+  shop: string,
+): Promise<void> {
+  const config = await loadDeliveryConfig(prisma, shop);
+
+  try {
+    await publishCheckoutRules(admin, config, { createValidation: false });
+  } catch (error) {
+    throw new Error(
+      `Saved, but the checkout rules could not be updated: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
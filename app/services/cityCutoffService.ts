@@ -2,14 +2,46 @@
  * City Cutoff Service
  *
  * Handles cutoff time logic for same-day delivery by city.
- * Some cities may have earlier cutoff times due to logistics.
+ * Some cities may have earlier cutoff times due to logistics, and can
+ * override their cutoff per weekday (e.g. earlier on weekends).
+ * Slots can add their own cutoff, relative to the delivery day (e.g. the
+ * morning slot must be ordered by 20:00 the day before).
  *
- * All time comparisons are done in local timezone.
+ * Also finds the earliest feasible delivery date and slot for a cart's
+ * lead time, comparing now + lead time hours with slot start times.
+ * Lead time days count only the kitchen's working days (see
+ * productionCalendarService).
+ *
+ * All time comparisons are done in the shop's IANA timezone
+ * (e.g. "Asia/Dhaka"), never the server's process timezone.
  * Cutoff times are expected in HH:mm format (24-hour).
  */
 
-import { addDays, formatDateToString } from "./dateAvailabilityService";
-import type { DeliveryCity } from "./types/delivery";
+import {
+  addDaysToDateString,
+  formatDateToString,
+  getDayOfWeek,
+  parseDate,
+} from "./dateAvailabilityService";
+import { addProductionDays } from "./productionCalendarService";
+import {
+  applySpecialCityMinimumDate,
+  isSlotAllowedInCity,
+  isWeekdayAllowedInCity,
+} from "./specialCityService";
+import {
+  DEFAULT_TIMEZONE,
+  getZonedDateTime,
+  zonedTimeToUtc,
+} from "./timezoneService";
+import type {
+  DeliveryCity,
+  EarliestDelivery,
+  EarliestSlotStart,
+  LeadTime,
+  ProductionCalendar,
+  TimeSlot,
+} from "./types/delivery";
 
 /**
  * Default cutoff time if city has no specific cutoff
@@ -17,6 +49,12 @@ import type { DeliveryCity } from "./types/delivery";
  */
 const DEFAULT_CUTOFF_TIME = "23:59";
 
+/**
+ * How many days ahead getEarliestDelivery looks for a slot that can still
+ * be ordered
+ */
+const MAX_SLOT_SEARCH_DAYS = 14;
+
 /**
  * Parses a time string in HH:mm format to hours and minutes
  *
@@ -53,34 +91,54 @@ export function parseTime(
 /**
  * Gets the cutoff time for a city
  *
+ * The city's weekday schedule wins over its cutoff time, which wins over
+ * the default.
+ *
  * @param city - The delivery city
+ * @param date - Date in YYYY-MM-DD format (optional, enables the weekday schedule)
  * @returns Cutoff time in HH:mm format, or default if not specified
+ *
+ * @example
+ * const city = { ...downtown, cutoffTime: "14:00", weekdayCutoffTimes: { 5: "12:00" } };
+ * getCityCutoffTime(city, "2024-12-27") // returns "12:00" (Friday)
+ * getCityCutoffTime(city, "2024-12-26") // returns "14:00" (Thursday)
  */
-export function getCityCutoffTime(city: DeliveryCity): string {
-  return city.cutoffTime || DEFAULT_CUTOFF_TIME;
+export function getCityCutoffTime(city: DeliveryCity, date?: string): string {
+  const weekdayCutoff = date
+    ? city.weekdayCutoffTimes?.[getDayOfWeek(date)]
+    : undefined;
+
+  return weekdayCutoff || city.cutoffTime || DEFAULT_CUTOFF_TIME;
 }
 
 /**
  * Compares current time against a city's cutoff time
  *
- * @param cutoffTime - Cutoff time in HH:mm format
+ * @param cutoffTime - Cutoff time in HH:mm format (shop's wall-clock time)
  * @param currentTime - Current Date object
+ * @param timeZone - Shop's IANA timezone (default UTC)
  * @returns True if current time is before cutoff
  *
  * @example
- * const now = new Date("2024-12-24T10:00:00");
- * isBeforeCutoff("14:00", now) // returns true
- * isBeforeCutoff("09:00", now) // returns false
+ * const now = new Date("2024-12-24T04:00:00Z"); // 10:00 in Asia/Dhaka
+ * isBeforeCutoff("14:00", now, "Asia/Dhaka") // returns true
+ * isBeforeCutoff("09:00", now, "Asia/Dhaka") // returns false
  */
-export function isBeforeCutoff(cutoffTime: string, currentTime: Date): boolean {
+export function isBeforeCutoff(
+  cutoffTime: string,
+  currentTime: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): boolean {
   const parsed = parseTime(cutoffTime);
   if (!parsed) {
     // If cutoff time is invalid, assume cutoff has passed for safety
     return false;
   }
 
-  const currentHours = currentTime.getHours();
-  const currentMinutes = currentTime.getMinutes();
+  const { hours: currentHours, minutes: currentMinutes } = getZonedDateTime(
+    currentTime,
+    timeZone,
+  );
 
   // Compare hours first, then minutes
   if (currentHours < parsed.hours) {
@@ -97,32 +155,42 @@ export function isBeforeCutoff(cutoffTime: string, currentTime: Date): boolean {
  * Checks if same-day delivery is available for a city
  *
  * Same-day delivery is available if:
- * 1. The city has a cutoff time configured (or uses default)
+ * 1. The city has a cutoff time configured for today's weekday (or uses
+ *    its cutoff time, or the default)
  * 2. The current time is before the cutoff time
  *
  * @param city - The delivery city to check
  * @param currentTime - Current Date object (for testing, pass actual current time)
+ * @param timeZone - Shop's IANA timezone (default UTC)
  * @returns True if same-day delivery is still available
  *
  * @example
  * const city = { id: "1", name: "Downtown", isSpecial: false, cutoffTime: "14:00" };
- * const morning = new Date("2024-12-24T10:00:00");
- * const afternoon = new Date("2024-12-24T15:00:00");
+ * const morning = new Date("2024-12-24T10:00:00Z");
+ * const afternoon = new Date("2024-12-24T15:00:00Z");
  *
  * isSameDayDeliveryAvailable(city, morning) // returns true
  * isSameDayDeliveryAvailable(city, afternoon) // returns false
  *
  * @example
+ * // Same instant, evaluated in the shop's timezone (UTC+6)
+ * isSameDayDeliveryAvailable(city, morning, "Asia/Dhaka") // returns false (16:00 local)
+ *
+ * @example
  * // City without cutoff (uses default 23:59)
  * const cityNoCutoff = { id: "2", name: "Suburbs", isSpecial: false };
- * isSameDayDeliveryAvailable(cityNoCutoff, new Date("2024-12-24T22:00:00")) // returns true
+ * isSameDayDeliveryAvailable(cityNoCutoff, new Date("2024-12-24T22:00:00Z")) // returns true
  */
 export function isSameDayDeliveryAvailable(
   city: DeliveryCity,
   currentTime: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
 ): boolean {
-  const cutoffTime = getCityCutoffTime(city);
-  return isBeforeCutoff(cutoffTime, currentTime);
+  const cutoffTime = getCityCutoffTime(
+    city,
+    formatDateToString(currentTime, timeZone),
+  );
+  return isBeforeCutoff(cutoffTime, currentTime, timeZone);
 }
 
 /**
@@ -131,21 +199,28 @@ export function isSameDayDeliveryAvailable(
  * Takes into account:
  * 1. Base delay from cart products (e.g., +2 days for delay-2 products)
  * 2. City cutoff time (if passed, adds 1 extra day)
+ * 3. Production calendar (the base delay counts only working days)
+ * 4. Special city restrictions (extra lead days, no same-day delivery,
+ *    allowed weekdays), see specialCityService
+ *
+ * "Today" is the current calendar date in the shop's timezone.
  *
  * @param city - The delivery city
  * @param currentTime - Current Date object
  * @param baseDelay - Base delay from cart products (in days)
- * @returns The minimum delivery date
+ * @param timeZone - Shop's IANA timezone (default UTC)
+ * @param calendar - Kitchen working days (default every day)
+ * @returns The minimum delivery date (midnight in the shop's timezone)
  *
  * @example
  * const city = { id: "1", name: "Downtown", isSpecial: false, cutoffTime: "14:00" };
  *
  * // Before cutoff, no product delay
- * const morning = new Date("2024-12-24T10:00:00");
+ * const morning = new Date("2024-12-24T10:00:00Z");
  * getMinimumDeliveryDate(city, morning, 0) // returns Dec 24, 2024
  *
  * // After cutoff, no product delay
- * const afternoon = new Date("2024-12-24T15:00:00");
+ * const afternoon = new Date("2024-12-24T15:00:00Z");
  * getMinimumDeliveryDate(city, afternoon, 0) // returns Dec 25, 2024
  *
  * // Before cutoff, with 2-day product delay
@@ -158,21 +233,18 @@ export function getMinimumDeliveryDate(
   city: DeliveryCity,
   currentTime: Date,
   baseDelay: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+  calendar?: ProductionCalendar,
 ): Date {
-  // Start from today's date (midnight)
-  const today = new Date(
-    currentTime.getFullYear(),
-    currentTime.getMonth(),
-    currentTime.getDate(),
+  const minDate = getMinimumDeliveryDateString(
+    city,
+    currentTime,
+    baseDelay,
+    timeZone,
+    calendar,
   );
 
-  // Check if same-day is available
-  const sameDayAvailable = isSameDayDeliveryAvailable(city, currentTime);
-
-  // If cutoff has passed, add 1 to the base delay
-  const totalDelay = sameDayAvailable ? baseDelay : baseDelay + 1;
-
-  return addDays(today, totalDelay);
+  return parseDate(minDate, timeZone) as Date;
 }
 
 /**
@@ -181,55 +253,373 @@ export function getMinimumDeliveryDate(
  * @param city - The delivery city
  * @param currentTime - Current Date object
  * @param baseDelay - Base delay from cart products (in days)
+ * @param timeZone - Shop's IANA timezone (default UTC)
+ * @param calendar - Kitchen working days (default every day)
  * @returns Minimum delivery date in YYYY-MM-DD format
  *
  * @example
- * getMinimumDeliveryDateString(city, new Date("2024-12-24T15:00:00"), 2)
+ * getMinimumDeliveryDateString(city, new Date("2024-12-24T15:00:00Z"), 2)
  * // returns "2024-12-27"
  */
 export function getMinimumDeliveryDateString(
   city: DeliveryCity,
   currentTime: Date,
   baseDelay: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+  calendar?: ProductionCalendar,
 ): string {
-  const minDate = getMinimumDeliveryDate(city, currentTime, baseDelay);
-  return formatDateToString(minDate);
+  // Start from today's date in the shop's timezone
+  const today = formatDateToString(currentTime, timeZone);
+
+  // Check if same-day is available
+  const sameDayAvailable = isSameDayDeliveryAvailable(
+    city,
+    currentTime,
+    timeZone,
+  );
+
+  // If cutoff has passed, preparation starts tomorrow
+  const startDate = sameDayAvailable ? today : addDaysToDateString(today, 1);
+
+  return applySpecialCityMinimumDate(
+    addProductionDays(startDate, baseDelay, calendar),
+    today,
+    city,
+  );
 }
 
 /**
  * Gets time remaining until cutoff
  *
+ * Measures real elapsed time, so a DST change between now and the
+ * cutoff is accounted for.
+ *
  * @param city - The delivery city
  * @param currentTime - Current Date object
+ * @param timeZone - Shop's IANA timezone (default UTC)
  * @returns Object with hours and minutes remaining, or null if cutoff passed
  *
  * @example
  * const city = { id: "1", name: "Downtown", isSpecial: false, cutoffTime: "14:00" };
- * const now = new Date("2024-12-24T12:30:00");
+ * const now = new Date("2024-12-24T06:30:00Z"); // 12:30 in Asia/Dhaka
  *
- * getTimeUntilCutoff(city, now) // returns { hours: 1, minutes: 30 }
+ * getTimeUntilCutoff(city, now, "Asia/Dhaka") // returns { hours: 1, minutes: 30 }
  */
 export function getTimeUntilCutoff(
   city: DeliveryCity,
   currentTime: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
 ): { hours: number; minutes: number } | null {
-  const cutoffTime = getCityCutoffTime(city);
+  const today = formatDateToString(currentTime, timeZone);
+  const cutoffTime = getCityCutoffTime(city, today);
   const parsed = parseTime(cutoffTime);
 
   if (!parsed) {
     return null;
   }
 
-  if (!isBeforeCutoff(cutoffTime, currentTime)) {
+  if (!isBeforeCutoff(cutoffTime, currentTime, timeZone)) {
     return null;
   }
 
-  const currentMinutes = currentTime.getHours() * 60 + currentTime.getMinutes();
-  const cutoffMinutes = parsed.hours * 60 + parsed.minutes;
-  const diffMinutes = cutoffMinutes - currentMinutes;
+  const cutoffInstant = zonedTimeToUtc(
+    today,
+    parsed.hours,
+    parsed.minutes,
+    timeZone,
+  );
+  const diffMinutes = Math.max(
+    0,
+    Math.floor((cutoffInstant.getTime() - currentTime.getTime()) / 60000),
+  );
 
   return {
     hours: Math.floor(diffMinutes / 60),
     minutes: diffMinutes % 60,
   };
 }
+
+/**
+ * Converts a HH:mm time to minutes since midnight
+ *
+ * @param timeStr - Time string in HH:mm format
+ * @returns Minutes since midnight, or null if invalid
+ */
+function toMinutes(timeStr: string): number | null {
+  const parsed = parseTime(timeStr);
+  return parsed ? parsed.hours * 60 + parsed.minutes : null;
+}
+
+/**
+ * Checks if a slot starts late enough to meet the lead time
+ *
+ * @param startTime - Slot start time in HH:mm format
+ * @param date - Delivery date in YYYY-MM-DD format
+ * @param earliestStart - Earliest allowed slot start
+ * @returns True if the slot starts at or after the earliest start
+ *
+ * @example
+ * const earliest = { date: "2024-12-24", time: "16:30" };
+ * startsAfterEarliest("15:00", "2024-12-24", earliest) // returns false
+ * startsAfterEarliest("18:00", "2024-12-24", earliest) // returns true
+ * startsAfterEarliest("09:00", "2024-12-25", earliest) // returns true
+ */
+export function startsAfterEarliest(
+  startTime: string,
+  date: string,
+  earliestStart: EarliestSlotStart,
+): boolean {
+  if (date !== earliestStart.date) {
+    return date > earliestStart.date;
+  }
+
+  const slotMinutes = toMinutes(startTime);
+  const earliestMinutes = toMinutes(earliestStart.time);
+  if (slotMinutes === null || earliestMinutes === null) {
+    // If a time is invalid, assume the slot is too early for safety
+    return false;
+  }
+
+  return slotMinutes >= earliestMinutes;
+}
+
+/**
+ * Gets the same-day buffer of a slot in a city
+ *
+ * Both the slot's and the city's buffers are minimums, so the longer one
+ * applies.
+ *
+ * @param slot - The time slot
+ * @param city - The delivery city (undefined if no city selected)
+ * @returns Minutes needed between now and the slot start
+ *
+ * @example
+ * getSameDayBufferMinutes(
+ *   { ...slot, sameDayBufferMinutes: 30 },
+ *   { ...city, sameDayBufferMinutes: 60 },
+ * ) // returns 60
+ */
+export function getSameDayBufferMinutes(
+  slot: TimeSlot,
+  city?: DeliveryCity,
+): number {
+  return Math.max(
+    slot.sameDayBufferMinutes ?? 0,
+    city?.sameDayBufferMinutes ?? 0,
+  );
+}
+
+/**
+ * Checks if it is too late to order a slot for today
+ *
+ * A slot on today's date (in the shop's timezone) is too late once the
+ * current time plus the same-day buffer passes its start time. Slots that
+ * already started are always too late. Slots on other dates never are.
+ *
+ * @param slot - The time slot
+ * @param date - Delivery date in YYYY-MM-DD format
+ * @param currentTime - Current Date object
+ * @param city - The delivery city (undefined if no city selected)
+ * @param timeZone - Shop's IANA timezone (default UTC)
+ * @returns True if the slot can no longer be ordered for the date
+ *
+ * @example
+ * // 13:50 in UTC, 14:00 slot with a 30 minute buffer
+ * isTooLateForSlotToday(
+ *   { ...slot, startTime: "14:00", sameDayBufferMinutes: 30 },
+ *   "2024-12-24",
+ *   new Date("2024-12-24T13:50:00Z"),
+ * ) // returns true
+ */
+export function isTooLateForSlotToday(
+  slot: TimeSlot,
+  date: string,
+  currentTime: Date,
+  city?: DeliveryCity,
+  timeZone: string = DEFAULT_TIMEZONE,
+): boolean {
+  if (date !== formatDateToString(currentTime, timeZone)) {
+    return false;
+  }
+
+  const slotMinutes = toMinutes(slot.startTime);
+  if (slotMinutes === null) {
+    // If the start time is invalid, assume the slot is too early for safety
+    return true;
+  }
+
+  const { hours, minutes } = getZonedDateTime(currentTime, timeZone);
+  const nowMinutes = hours * 60 + minutes;
+
+  return slotMinutes < nowMinutes + getSameDayBufferMinutes(slot, city);
+}
+
+/**
+ * Checks if a slot's own cutoff has passed for a delivery date
+ *
+ * The cutoff applies on the day cutoffDaysBefore days before the delivery
+ * date. Orders are accepted until the cutoff time on that day, and not at
+ * all after it. Slots without a cutoff time only follow the city cutoff.
+ *
+ * @param slot - The time slot
+ * @param date - Delivery date in YYYY-MM-DD format
+ * @param currentTime - Current Date object
+ * @param timeZone - Shop's IANA timezone (default UTC)
+ * @returns True if the slot can no longer be ordered for the date
+ *
+ * @example
+ * // Morning slot must be ordered by 20:00 the day before
+ * const morning = { ...slot, cutoffTime: "20:00", cutoffDaysBefore: 1 };
+ * const now = new Date("2024-12-23T21:00:00Z");
+ * isPastSlotCutoff(morning, "2024-12-24", now) // returns true
+ * isPastSlotCutoff(morning, "2024-12-25", now) // returns false
+ */
+export function isPastSlotCutoff(
+  slot: TimeSlot,
+  date: string,
+  currentTime: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): boolean {
+  if (!slot.cutoffTime) {
+    return false;
+  }
+
+  const cutoffDate = addDaysToDateString(date, -(slot.cutoffDaysBefore ?? 0));
+  const today = formatDateToString(currentTime, timeZone);
+
+  if (today !== cutoffDate) {
+    return today > cutoffDate;
+  }
+
+  return !isBeforeCutoff(slot.cutoffTime, currentTime, timeZone);
+}
+
+/**
+ * Gets the earliest feasible delivery date and slot for a lead time
+ *
+ * 1. Lead time days and the city cutoff give the earliest date, as in
+ *    getMinimumDeliveryDateString.
+ * 2. Lead time hours are added to the current time. Slots starting before
+ *    that moment cannot be delivered, so if no slot on that day starts
+ *    late enough, the earliest date moves to the next day. The kitchen
+ *    calendar does not apply to hours.
+ *
+ * The later of the two wins, days and hours are not added together (see
+ * LeadTime). Only active slots offered in the city are
+ * considered, on the weekdays a special city allows. Slots past their own cutoff (see isPastSlotCutoff) and
+ * today's slots within the same-day buffer (see isTooLateForSlotToday) are
+ * skipped, moving the date forward while no slot is left. Disable rules
+ * and capacity are checked separately.
+ *
+ * @param city - The delivery city (undefined if no city selected)
+ * @param timeSlots - The shop's time slots
+ * @param currentTime - Current Date object
+ * @param leadTime - Cart lead time
+ * @param timeZone - Shop's IANA timezone (default UTC)
+ * @param calendar - Kitchen working days for lead time days (default every day)
+ * @returns Earliest date, the first slot on it, and the earliest slot start
+ *
+ * @example
+ * // 10:00 in Asia/Dhaka, 6 hour lead time, slots 09:00, 15:00 and 18:00
+ * getEarliestDelivery(
+ *   city,
+ *   slots,
+ *   new Date("2024-12-24T04:00:00Z"),
+ *   { days: 0, hours: 6 },
+ *   "Asia/Dhaka",
+ * )
+ * // returns {
+ * //   date: "2024-12-24",
+ * //   timeSlotId: 3, // 18:00, since 15:00 starts before 16:00
+ * //   earliestStart: { date: "2024-12-24", time: "16:00" },
+ * // }
+ */
+export function getEarliestDelivery(
+  city: DeliveryCity | undefined,
+  timeSlots: TimeSlot[],
+  currentTime: Date,
+  leadTime: LeadTime,
+  timeZone: string = DEFAULT_TIMEZONE,
+  calendar?: ProductionCalendar,
+): EarliestDelivery {
+  const offeredSlots = timeSlots
+    .filter(
+      (slot) =>
+        slot.isActive &&
+        (!city?.timeSlots?.length ||
+          city.timeSlots.some((assigned) => assigned.id === slot.id)) &&
+        isSlotAllowedInCity(slot.id, city),
+    )
+    .sort(
+      (a, b) => (toMinutes(a.startTime) ?? 0) - (toMinutes(b.startTime) ?? 0),
+    );
+
+  const firstSlotOn = (date: string, earliestStart?: EarliestSlotStart) =>
+    offeredSlots.find(
+      (slot) =>
+        isWeekdayAllowedInCity(date, city) &&
+        (!earliestStart ||
+          startsAfterEarliest(slot.startTime, date, earliestStart)) &&
+        !isTooLateForSlotToday(slot, date, currentTime, city, timeZone) &&
+        !isPastSlotCutoff(slot, date, currentTime, timeZone),
+    )?.id ?? null;
+
+  // Skip days on which every offered slot is past its cutoff or buffer
+  const firstDateWithSlot = (
+    date: string,
+    earliestStart?: EarliestSlotStart,
+  ) => {
+    let next = date;
+    for (
+      let i = 0;
+      offeredSlots.length > 0 &&
+      i < MAX_SLOT_SEARCH_DAYS &&
+      firstSlotOn(next, earliestStart) === null;
+      i++
+    ) {
+      next = addDaysToDateString(next, 1);
+    }
+    return next;
+  };
+
+  const dayDate = city
+    ? getMinimumDeliveryDateString(
+        city,
+        currentTime,
+        leadTime.days,
+        timeZone,
+        calendar,
+      )
+    : addProductionDays(
+        formatDateToString(currentTime, timeZone),
+        leadTime.days,
+        calendar,
+      );
+
+  if (leadTime.hours <= 0) {
+    const date = firstDateWithSlot(dayDate);
+    return { date, timeSlotId: firstSlotOn(date) };
+  }
+
+  // Products are ready lead time hours from now
+  const readyAt = new Date(
+    currentTime.getTime() + leadTime.hours * 60 * 60 * 1000,
+  );
+  const { hours, minutes } = getZonedDateTime(readyAt, timeZone);
+  const earliestStart: EarliestSlotStart = {
+    date: formatDateToString(readyAt, timeZone),
+    time: `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`,
+  };
+
+  // No slot left on the day the products are ready: deliver the day after
+  const date = firstDateWithSlot(
+    dayDate > earliestStart.date ? dayDate : earliestStart.date,
+    earliestStart,
+  );
+
+  return {
+    date,
+    timeSlotId: firstSlotOn(date, earliestStart),
+    earliestStart,
+  };
+}
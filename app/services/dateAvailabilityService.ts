@@ -4,17 +4,25 @@
  * Handles date parsing, normalization, and filtering for delivery dates.
  * Supports multiple input formats and normalizes to YYYY-MM-DD for consistency.
  *
- * All timezone handling assumes the store's local timezone.
- * Dates are treated as local dates, not UTC.
+ * Calendar dates are YYYY-MM-DD strings. Date objects are instants, and
+ * converting them to calendar dates requires the shop's IANA timezone.
+ * The timezone defaults to UTC, which is also how date-only database
+ * columns are stored. Results never depend on the server's process timezone.
  */
 
+import {
+  DEFAULT_TIMEZONE,
+  getZonedDateString,
+  zonedTimeToUtc,
+} from "./timezoneService";
+import type { DateWindow } from "./types/delivery";
+
 /**
  * Normalizes a date string to YYYY-MM-DD format
  *
  * Supported input formats:
  * - YYYY-MM-DD (ISO format, preferred)
  * - DD/MM/YYYY (European format)
- * - Date objects (converted to local date string)
  *
  * @param dateStr - The date string to normalize
  * @returns Normalized date in YYYY-MM-DD format, or null if invalid
@@ -80,11 +88,11 @@ function isValidDateComponents(
   }
 
   // Create date and verify it matches the input
-  const date = new Date(year, month - 1, day);
+  const date = new Date(Date.UTC(year, month - 1, day));
   return (
-    date.getFullYear() === year &&
-    date.getMonth() === month - 1 &&
-    date.getDate() === day
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
   );
 }
 
@@ -92,35 +100,73 @@ function isValidDateComponents(
  * Formats a Date object to YYYY-MM-DD string
  *
  * @param date - The Date object to format
+ * @param timeZone - IANA timezone the calendar date is taken in (default UTC)
  * @returns Date string in YYYY-MM-DD format
  *
  * @example
- * formatDateToString(new Date(2024, 11, 25)) // returns "2024-12-25"
+ * formatDateToString(new Date("2024-12-25T00:00:00Z")) // returns "2024-12-25"
+ * formatDateToString(new Date("2024-12-24T20:00:00Z"), "Asia/Dhaka") // returns "2024-12-25"
  */
-export function formatDateToString(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+export function formatDateToString(
+  date: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): string {
+  return getZonedDateString(date, timeZone);
 }
 
 /**
- * Parses a YYYY-MM-DD string to a Date object (local timezone)
+ * Parses a date string to a Date object at midnight in a timezone
  *
- * @param dateStr - Date string in YYYY-MM-DD format
- * @returns Date object set to midnight local time, or null if invalid
+ * @param dateStr - Date string in YYYY-MM-DD (or DD/MM/YYYY) format
+ * @param timeZone - IANA timezone of the midnight (default UTC)
+ * @returns Date object set to midnight in the timezone, or null if invalid
  *
  * @example
- * parseDate("2024-12-25") // returns Date object for Dec 25, 2024 00:00:00 local
+ * parseDate("2024-12-25") // returns Date for 2024-12-25T00:00:00Z
+ * parseDate("2024-12-25", "Asia/Dhaka") // returns Date for 2024-12-24T18:00:00Z
  */
-export function parseDate(dateStr: string): Date | null {
+export function parseDate(
+  dateStr: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+): Date | null {
   const normalized = normalizeDate(dateStr);
   if (!normalized) {
     return null;
   }
 
-  const [year, month, day] = normalized.split("-").map(Number);
-  return new Date(year, month - 1, day);
+  return zonedTimeToUtc(normalized, 0, 0, timeZone);
+}
+
+/**
+ * Adds a number of calendar days to a YYYY-MM-DD date string
+ *
+ * Pure calendar arithmetic, so it is unaffected by DST.
+ *
+ * @param dateStr - Date string in YYYY-MM-DD format
+ * @param days - Number of days to add (can be negative)
+ * @returns Date string in YYYY-MM-DD format
+ *
+ * @example
+ * addDaysToDateString("2024-12-30", 3) // returns "2025-01-02"
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDateToString(date, "UTC");
+}
+
+/**
+ * Gets the day of the week of a YYYY-MM-DD date string
+ *
+ * @param dateStr - Date string in YYYY-MM-DD format
+ * @returns Day of the week, 0 = Sunday ... 6 = Saturday
+ *
+ * @example
+ * getDayOfWeek("2024-12-25") // returns 3 (Wednesday)
+ */
+export function getDayOfWeek(dateStr: string): number {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
 }
 
 /**
@@ -161,47 +207,204 @@ export function isDateInDisableRange(
   return true;
 }
 
+/**
+ * Moves a YYYY-MM-DD date string to another year
+ *
+ * 29 February becomes 28 February in non-leap years.
+ *
+ * @param dateStr - Date string in YYYY-MM-DD format
+ * @param year - The target year
+ * @returns Date string in YYYY-MM-DD format
+ */
+function setDateStringYear(dateStr: string, year: number): string {
+  const [, month, day] = dateStr.split("-").map(Number);
+  const lastDayOfMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return [
+    String(year).padStart(4, "0"),
+    String(month).padStart(2, "0"),
+    String(Math.min(day, lastDayOfMonth)).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Expands yearly repeating date rules into their occurrences in a window
+ *
+ * A repeating rule recurs on the same month/day every year from the year
+ * of its start date on. Ranges spanning New Year (e.g. 30 Dec - 2 Jan)
+ * keep their span. Each occurrence is returned as a copy of the rule with
+ * concrete dates and repeatsYearly set to false. Non-repeating rules are
+ * returned unchanged.
+ *
+ * @param dateRules - Array of date disable rules
+ * @param window - Dates to expand repeating rules for
+ * @returns Date rules with repeating rules replaced by their occurrences
+ *
+ * @example
+ * const rules = [{ startDate: "2023-12-31", endDate: "2024-01-01", repeatsYearly: true }];
+ * expandDateDisableRules(rules, { startDate: "2025-12-25", endDate: "2026-01-05" })
+ * // returns [{ startDate: "2025-12-31", endDate: "2026-01-01", repeatsYearly: false }]
+ */
+export function expandDateDisableRules<
+  T extends { startDate: string; endDate?: string; repeatsYearly?: boolean },
+>(dateRules: T[], window: DateWindow): T[] {
+  const windowStart = normalizeDate(window.startDate);
+  const windowEnd = normalizeDate(window.endDate);
+  if (!windowStart || !windowEnd) return [];
+
+  const expanded: T[] = [];
+
+  for (const rule of dateRules) {
+    if (!rule.repeatsYearly) {
+      expanded.push(rule);
+      continue;
+    }
+
+    const startDate = normalizeDate(rule.startDate);
+    const endDate = rule.endDate ? normalizeDate(rule.endDate) : startDate;
+    if (!startDate || !endDate || endDate < startDate) continue;
+
+    const firstYear = Number(startDate.slice(0, 4));
+    const yearSpan = Number(endDate.slice(0, 4)) - firstYear;
+
+    // An occurrence starting the year before the window can still reach into it
+    const fromYear = Math.max(firstYear, Number(windowStart.slice(0, 4)) - 1);
+    const toYear = Number(windowEnd.slice(0, 4));
+
+    for (let year = fromYear; year <= toYear; year++) {
+      const occurrenceStart = setDateStringYear(startDate, year);
+      const occurrenceEnd = setDateStringYear(endDate, year + yearSpan);
+
+      if (occurrenceEnd < windowStart || occurrenceStart > windowEnd) continue;
+
+      expanded.push({
+        ...rule,
+        startDate: occurrenceStart,
+        endDate: rule.endDate ? occurrenceEnd : undefined,
+        repeatsYearly: false,
+      });
+    }
+  }
+
+  return expanded;
+}
+
 /**
  * Build a set of disabled dates from date disable rules
  *
  * Expands date ranges into individual dates for efficient lookup.
+ * Yearly repeating rules are expanded for every year in the window;
+ * without a window only their stored dates are disabled.
  *
  * @param dateRules - Array of date disable rules
  * @param cityId - Optional city ID to filter city-specific rules
+ * @param window - Optional dates to expand yearly repeating rules for
  * @returns Set of disabled dates in YYYY-MM-DD format
  */
 export function buildDisabledDateSet(
-  dateRules: Array<{ startDate: string; endDate?: string; cityId?: number }>,
+  dateRules: Array<{
+    startDate: string;
+    endDate?: string;
+    cityId?: number;
+    repeatsYearly?: boolean;
+  }>,
   cityId?: number,
+  window?: DateWindow,
 ): Set<string> {
   const disabled = new Set<string>();
+  const rules = window ? expandDateDisableRules(dateRules, window) : dateRules;
 
-  for (const rule of dateRules) {
+  for (const rule of rules) {
     // Include both global rules and city-specific rules if cityId provided
     const applies = !rule.cityId || (cityId && rule.cityId === cityId);
     if (!applies) continue;
 
     const startDate = normalizeDate(rule.startDate);
-    const endDate = rule.endDate ? normalizeDate(rule.endDate) : null;
+    const endDate = rule.endDate ? normalizeDate(rule.endDate) : startDate;
 
-    if (!startDate) continue;
+    if (!startDate || !endDate) continue;
 
-    // Add all dates in range
-    let current = parseDate(startDate);
-    const end = endDate ? parseDate(endDate) : current;
-
-    if (!current || !end) continue;
-
-    while (current <= end) {
-      disabled.add(formatDateToString(current));
-      current = new Date(current);
-      current.setDate(current.getDate() + 1);
+    // Add all dates in range (YYYY-MM-DD strings compare chronologically)
+    let current = startDate;
+    while (current <= endDate) {
+      disabled.add(current);
+      current = addDaysToDateString(current, 1);
     }
   }
 
   return disabled;
 }
 
+/**
+ * Finds the first date disable rule that covers a date
+ *
+ * Uses the same city matching as buildDisabledDateSet, so it can be used
+ * to explain why a date is missing from getAvailableDates.
+ *
+ * @param date - The date to check in YYYY-MM-DD format
+ * @param dateRules - Array of date disable rules
+ * @param cityId - Optional city ID to filter city-specific rules
+ * @returns The matching rule, or undefined if the date is not disabled
+ *
+ * @example
+ * const rules = [{ startDate: "2024-12-25", reason: "Christmas" }];
+ * findDateDisableRule("2024-12-25", rules)?.reason // returns "Christmas"
+ */
+export function findDateDisableRule<
+  T extends {
+    startDate: string;
+    endDate?: string;
+    cityId?: number;
+    repeatsYearly?: boolean;
+  },
+>(date: string, dateRules: T[], cityId?: number): T | undefined {
+  return dateRules.find((rule) => {
+    const applies = !rule.cityId || (cityId && rule.cityId === cityId);
+    if (!applies) return false;
+
+    return buildDisabledDateSet([rule], cityId, {
+      startDate: date,
+      endDate: date,
+    }).has(date);
+  });
+}
+
+/**
+ * Finds the first recurring weekday rule that disables a date
+ *
+ * A rule applies when it is global or matches the city, the date's
+ * weekday is in the rule's days, and the date is within the rule's
+ * optional start/end dates.
+ *
+ * @param date - The date to check in YYYY-MM-DD format
+ * @param weekdayRules - Array of recurring weekday disable rules
+ * @param cityId - Optional city ID to filter city-specific rules
+ * @returns The matching rule, or undefined if the date is not disabled
+ *
+ * @example
+ * const rules = [{ daysOfWeek: [5], reason: "Closed on Fridays" }];
+ * findWeekdayDisableRule("2024-12-27", rules)?.reason // returns "Closed on Fridays"
+ */
+export function findWeekdayDisableRule<
+  T extends {
+    daysOfWeek: number[];
+    startDate?: string;
+    endDate?: string;
+    cityId?: number;
+  },
+>(date: string, weekdayRules: T[], cityId?: number): T | undefined {
+  const dayOfWeek = getDayOfWeek(date);
+
+  return weekdayRules.find((rule) => {
+    const applies = !rule.cityId || (cityId && rule.cityId === cityId);
+    if (!applies) return false;
+
+    if (!rule.daysOfWeek.includes(dayOfWeek)) return false;
+    if (rule.startDate && date < rule.startDate) return false;
+    if (rule.endDate && date > rule.endDate) return false;
+    return true;
+  });
+}
+
 /**
  * Generates an array of available delivery dates
  *
@@ -212,10 +415,12 @@ export function buildDisabledDateSet(
  * @param daysToShow - Number of days to check for availability
  * @param disabledDates - Array of disabled dates (supports multiple formats) OR date rules with ranges
  * @param cityId - Optional city ID to filter city-specific disable rules
+ * @param timeZone - Shop's IANA timezone, used to take startDate's calendar date
+ * @param weekdayRules - Recurring weekday disable rules (e.g. closed every Friday)
  * @returns Array of available dates in YYYY-MM-DD format
  *
  * @example
- * const start = new Date(2024, 11, 24); // Dec 24, 2024
+ * const start = new Date("2024-12-24T00:00:00Z"); // Dec 24, 2024
  * getAvailableDates(start, 7, ["2024-12-25", "26/12/2024"])
  * // returns ["2024-12-24", "2024-12-27", "2024-12-28", "2024-12-29", "2024-12-30"]
  *
@@ -232,13 +437,27 @@ export function getAvailableDates(
   daysToShow: number,
   disabledDates:
     | string[]
-    | Array<{ startDate: string; endDate?: string; cityId?: number }>,
+    | Array<{
+        startDate: string;
+        endDate?: string;
+        cityId?: number;
+        repeatsYearly?: boolean;
+      }>,
   cityId?: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+  weekdayRules: Array<{
+    daysOfWeek: number[];
+    startDate?: string;
+    endDate?: string;
+    cityId?: number;
+  }> = [],
 ): string[] {
   if (daysToShow <= 0) {
     return [];
   }
 
+  const firstDate = formatDateToString(startDate, timeZone);
+
   // Build disabled date set based on input type
   let disabledSet: Set<string>;
   if (Array.isArray(disabledDates) && disabledDates.length > 0) {
@@ -252,8 +471,13 @@ export function getAvailableDates(
           startDate: string;
           endDate?: string;
           cityId?: number;
+          repeatsYearly?: boolean;
         }>,
         cityId,
+        {
+          startDate: firstDate,
+          endDate: addDaysToDateString(firstDate, daysToShow - 1),
+        },
       );
     }
   } else {
@@ -262,18 +486,18 @@ export function getAvailableDates(
 
   const availableDates: string[] = [];
 
-  // Create a copy to avoid mutating the input
-  const currentDate = new Date(startDate);
+  let dateStr = firstDate;
 
   for (let i = 0; i < daysToShow; i++) {
-    const dateStr = formatDateToString(currentDate);
-
-    if (!disabledSet.has(dateStr)) {
+    if (
+      !disabledSet.has(dateStr) &&
+      !findWeekdayDisableRule(dateStr, weekdayRules, cityId)
+    ) {
       availableDates.push(dateStr);
     }
 
     // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1);
+    dateStr = addDaysToDateString(dateStr, 1);
   }
 
   return availableDates;
@@ -284,6 +508,7 @@ export function getAvailableDates(
  *
  * @param date - The date to check (Date object or YYYY-MM-DD string)
  * @param disabledDates - Array of disabled dates
+ * @param timeZone - Shop's IANA timezone, used when date is a Date object
  * @returns True if the date is available
  *
  * @example
@@ -293,9 +518,12 @@ export function getAvailableDates(
 export function isDateAvailable(
   date: Date | string,
   disabledDates: string[],
+  timeZone: string = DEFAULT_TIMEZONE,
 ): boolean {
   const dateStr =
-    typeof date === "string" ? normalizeDate(date) : formatDateToString(date);
+    typeof date === "string"
+      ? normalizeDate(date)
+      : formatDateToString(date, timeZone);
 
   if (!dateStr) {
     return false;
@@ -306,17 +534,24 @@ export function isDateAvailable(
 }
 
 /**
- * Adds a specified number of days to a date
+ * Adds a specified number of calendar days to a date
+ *
+ * The calendar date is taken in the given timezone, so the result is
+ * correct across DST transitions.
  *
  * @param date - The starting date
  * @param days - Number of days to add (can be negative)
- * @returns New Date object with days added
+ * @param timeZone - Shop's IANA timezone (default UTC)
+ * @returns New Date object at midnight of the resulting day in the timezone
  *
  * @example
- * addDays(new Date(2024, 11, 24), 3) // returns Dec 27, 2024
+ * addDays(new Date("2024-12-24T00:00:00Z"), 3) // returns Date for 2024-12-27T00:00:00Z
  */
-export function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
+export function addDays(
+  date: Date,
+  days: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+): Date {
+  const dateStr = addDaysToDateString(formatDateToString(date, timeZone), days);
+  return zonedTimeToUtc(dateStr, 0, 0, timeZone);
 }
@@ -0,0 +1,200 @@
+/**
+ * Delivery Availability Service
+ *
+ * Composes the individual rule services into a single availability
+ * snapshot for a cart and city: cart lead time, cutoff, minimum date
+ * and slot, date disable rules, recurring weekday closures, slot disable
+ * rules, slot capacity and the delivery fee of each slot.
+ *
+ * For pickup, the same rules are applied to the pickup locations (see
+ * getPickupConfig).
+ *
+ * This is the server-side source of truth for what a shopper can pick.
+ */
+
+import { calculateCartLeadTime } from "./cartDelayCalculator";
+import {
+  getEarliestDelivery,
+  isSameDayDeliveryAvailable,
+} from "./cityCutoffService";
+import {
+  addDays,
+  findDateDisableRule,
+  findWeekdayDisableRule,
+  formatDateToString,
+  getAvailableDates,
+  parseDate,
+} from "./dateAvailabilityService";
+import { calculateDeliveryFee } from "./deliveryFeeService";
+import { getCityForAddress } from "./deliveryZoneService";
+import { getFulfillmentConfig } from "./pickupLocationService";
+import { getAvailableSlots } from "./slotAvailabilityService";
+import type {
+  CartProduct,
+  DateAvailabilityResult,
+  DeliveryAddress,
+  DeliveryAvailability,
+  DeliveryConfig,
+  FulfillmentMode,
+  SlotBookingCount,
+} from "./types/delivery";
+
+/**
+ * Default number of days shown in the storefront date picker
+ */
+export const DEFAULT_DAYS_TO_SHOW = 14;
+
+/**
+ * Builds the delivery availability for a cart and city
+ *
+ * Dates before the minimum delivery date are not included. Disabled dates
+ * are included with the reason from the matching disable rule so the
+ * storefront can show them as unselectable.
+ *
+ * @param shopConfig - Delivery configuration for the shop
+ * @param products - Products in the cart
+ * @param cityId - The selected city ID, or pickup location ID for pickup
+ *   (null if none selected yet)
+ * @param currentTime - Current Date object
+ * @param daysToShow - Number of days to include, starting at the minimum date
+ * @param bookings - Current booking counts, used for slot capacity
+ * @param address - Shipping address, whose delivery zone can override the
+ *   city's cutoff and slots (ignored for pickup)
+ * @param fulfillmentMode - Delivery or pickup
+ * @returns Availability snapshot with per-date slot availability
+ *
+ * @example
+ * getDeliveryAvailability(config, [{ tags: ["delay-2"] }], 1, new Date())
+ * // returns {
+ * //   fulfillmentMode: "delivery",
+ * //   cityId: 1,
+ * //   cartDelay: 2,
+ * //   leadTimeHours: 0,
+ * //   sameDayAvailable: true,
+ * //   minimumDate: "2024-12-26",
+ * //   earliestTimeSlotId: 1,
+ * //   dates: [{ date: "2024-12-26", disabled: false, slots: [...] }, ...]
+ * // }
+ */
+export function getDeliveryAvailability(
+  shopConfig: DeliveryConfig,
+  products: CartProduct[],
+  cityId: number | null,
+  currentTime: Date,
+  daysToShow: number = DEFAULT_DAYS_TO_SHOW,
+  bookings: SlotBookingCount[] = [],
+  address?: DeliveryAddress,
+  fulfillmentMode: FulfillmentMode = "delivery",
+): DeliveryAvailability {
+  const config = getFulfillmentConfig(shopConfig, fulfillmentMode);
+  const { timezone } = config;
+  const leadTime = calculateCartLeadTime(products, config.delayTagRules, {
+    strategy: config.delayStrategy,
+    quantityTiers: config.quantityDelayTiers,
+  });
+  const selectedCity = cityId
+    ? config.cities.find((c) => c.id === cityId)
+    : undefined;
+  const city =
+    selectedCity &&
+    getCityForAddress(
+      selectedCity,
+      address,
+      config.deliveryZones,
+      config.timeSlots,
+    );
+
+  // Without a city, only the lead time applies (no cutoff)
+  const sameDayAvailable = city
+    ? isSameDayDeliveryAvailable(city, currentTime, timezone)
+    : false;
+  const earliest = getEarliestDelivery(
+    city,
+    config.timeSlots,
+    currentTime,
+    leadTime,
+    timezone,
+    config.productionCalendar,
+  );
+  const minimumDate = parseDate(earliest.date, timezone) as Date;
+
+  const availableDates = new Set(
+    getAvailableDates(
+      minimumDate,
+      daysToShow,
+      config.dateDisableRules,
+      cityId ?? undefined,
+      timezone,
+      config.weekdayDisableRules,
+    ),
+  );
+
+  const dates: DateAvailabilityResult[] = [];
+
+  for (let i = 0; i < daysToShow; i++) {
+    const date = formatDateToString(
+      addDays(minimumDate, i, timezone),
+      timezone,
+    );
+
+    if (availableDates.has(date)) {
+      dates.push({
+        date,
+        disabled: false,
+        slots: getAvailableSlots(
+          config.timeSlots,
+          date,
+          cityId,
+          config.slotDisableRules,
+          {
+            city,
+            capacity: {
+              defaultCapacity: config.slotCapacity,
+              rules: config.slotCapacityRules,
+              bookings,
+            },
+            earliestStart: earliest.earliestStart,
+            currentTime: currentTime,
+            timeZone: timezone,
+          },
+        ).map((result) => ({
+          ...result,
+          fee: calculateDeliveryFee(
+            city,
+            date,
+            result.slot,
+            config.dateSurchargeRules,
+          ),
+        })),
+      });
+      continue;
+    }
+
+    const rule =
+      findDateDisableRule(date, config.dateDisableRules, cityId ?? undefined) ??
+      findWeekdayDisableRule(
+        date,
+        config.weekdayDisableRules,
+        cityId ?? undefined,
+      );
+    dates.push({
+      date,
+      disabled: true,
+      reason: rule?.reason
+        ? `Disabled: ${rule.reason}`
+        : "Delivery unavailable",
+      slots: [],
+    });
+  }
+
+  return {
+    fulfillmentMode,
+    cityId,
+    cartDelay: leadTime.days,
+    leadTimeHours: leadTime.hours,
+    sameDayAvailable,
+    minimumDate: earliest.date,
+    earliestTimeSlotId: earliest.timeSlotId,
+    dates,
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Delivery Booking Service
+ *
+ * Records and reads booked delivery slots in the DeliveryBooking table.
+ * Each order with a delivery selection holds one booking, which counts
+ * against the slot's capacity. Bookings are kept in sync from the
+ * orders/create, orders/updated and orders/cancelled webhooks.
+ *
+ * Webhooks can arrive out of order, so each booking keeps the updated_at
+ * of the last order payload applied, and older payloads are ignored.
+ * Cancelled orders keep their booking, marked cancelled, so a late
+ * orders/updated or orders/create cannot book the slot again.
+ *
+ * Pickup orders are booked with their pickup location instead of a city.
+ * They have no slot capacity, so they are left out of the booking counts
+ * and the delivery manifest.
+ *
+ * Delivery dates are stored as UTC midnight, like other date-only columns.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import { parseCarrierServiceCode } from "./carrierRateService";
+import { parseDeliveryAttributes } from "./cartAttributeService";
+import {
+  formatDateToString,
+  normalizeDate,
+  parseDate,
+} from "./dateAvailabilityService";
+import type {
+  DeliveryBooking,
+  OrderPayload,
+  SlotBookingCount,
+} from "./types/delivery";
+
+/**
+ * Longest value a plain String column (VARCHAR(191)) can hold
+ */
+const MAX_STRING_LENGTH = 191;
+
+/**
+ * Trims a customer-entered value and cuts it to fit a String column
+ *
+ * @returns The value, or undefined if empty
+ */
+function toStringColumn(value: string): string | undefined {
+  return value.trim().slice(0, MAX_STRING_LENGTH) || undefined;
+}
+
+/**
+ * Gets the booking for an order from its shipping line or note attributes
+ *
+ * When the customer paid for one of our carrier rates, the rate's city,
+ * date and slot are booked, since that is what was charged and what
+ * checkout validated. Other orders are booked from their note attributes.
+ *
+ * @param order - Order from a webhook payload
+ * @returns The booking, or null if the order is cancelled or has no valid delivery date
+ *
+ * @example
+ * getBookingFromOrder({
+ *   id: 1001,
+ *   name: "#1001",
+ *   note_attributes: [
+ *     { name: "delivery_city_id", value: "3" },
+ *     { name: "delivery_date", value: "2024-12-25" },
+ *     { name: "delivery_slot_id", value: "2" },
+ *   ],
+ * })
+ * // returns { orderId: "1001", orderName: "#1001", cityId: 3, timeSlotId: 2, deliveryDate: "2024-12-25", ... }
+ */
+export function getBookingFromOrder(
+  order: OrderPayload,
+): DeliveryBooking | null {
+  if (order.cancelled_at) {
+    return null;
+  }
+
+  const attributes = parseDeliveryAttributes(order.note_attributes);
+  const rate = (order.shipping_lines ?? [])
+    .map((line) => parseCarrierServiceCode(line.code))
+    .find((selection) => selection !== null);
+
+  // The paid shipping line wins over the note attributes
+  const deliveryDate = rate
+    ? normalizeDate(rate.deliveryDate)
+    : normalizeDate(attributes.deliveryDate);
+  if (!deliveryDate) {
+    return null;
+  }
+
+  const cityId = rate ? rate.cityId : attributes.cityId;
+  const isPickup = !rate && attributes.fulfillmentMode === "pickup";
+
+  return {
+    orderId: String(order.id),
+    orderName: order.name ? toStringColumn(order.name) : undefined,
+    cityId: isPickup ? null : cityId,
+    pickupLocationId: isPickup
+      ? (attributes.pickupLocationId ?? undefined)
+      : undefined,
+    timeSlotId: rate ? rate.timeSlotId : attributes.deliveryTimeSlot || null,
+    deliveryDate,
+    fullName: toStringColumn(attributes.fullName),
+    phoneNumber: toStringColumn(attributes.phoneNumber),
+    deliveryAddress: attributes.deliveryAddress.trim() || undefined,
+  };
+}
+
+/**
+ * Parses an order timestamp (e.g. updated_at)
+ *
+ * @returns The date, or null if missing or invalid
+ */
+function parseOrderTimestamp(value: string | null | undefined): Date | null {
+  if (!value) return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Create or update the booking for an order
+ *
+ * @param prisma - Prisma client instance
+ * @param shop - The shop domain
+ * @param booking - The order's booking
+ * @param status - updated_at of the order payload, and when the order was
+ *   cancelled (cancelled bookings do not count against capacity)
+ */
+export async function saveDeliveryBooking(
+  prisma: PrismaClient,
+  shop: string,
+  booking: DeliveryBooking,
+  status: { orderUpdatedAt?: Date | null; cancelledAt?: Date | null } = {},
+): Promise<void> {
+  const data = {
+    orderName: booking.orderName,
+    cityId: booking.cityId,
+    pickupLocationId: booking.pickupLocationId ?? null,
+    timeSlotId: booking.timeSlotId,
+    deliveryDate: parseDate(booking.deliveryDate) as Date,
+    fullName: booking.fullName ?? null,
+    phoneNumber: booking.phoneNumber ?? null,
+    deliveryAddress: booking.deliveryAddress ?? null,
+    orderUpdatedAt: status.orderUpdatedAt ?? null,
+    cancelledAt: status.cancelledAt ?? null,
+  };
+
+  await prisma.deliveryBooking.upsert({
+    where: { shop_orderId: { shop, orderId: booking.orderId } },
+    update: data,
+    create: { shop, orderId: booking.orderId, ...data },
+  });
+}
+
+/**
+ * Release the booking held by an order, freeing its slot capacity
+ *
+ * @param prisma - Prisma client instance
+ * @param shop - The shop domain
+ * @param orderId - Shopify order ID
+ */
+export async function releaseDeliveryBooking(
+  prisma: PrismaClient,
+  shop: string,
+  orderId: string,
+): Promise<void> {
+  await prisma.deliveryBooking.deleteMany({
+    where: { shop, orderId },
+  });
+}
+
+/**
+ * Sync an order's booking from a webhook payload
+ *
+ * Creates or moves the booking when the order has a delivery selection,
+ * releases it when the selection was removed, and marks it cancelled when
+ * the order is cancelled. Payloads of cancelled orders, and payloads older
+ * than the one last applied, leave the booking unchanged.
+ *
+ * @param prisma - Prisma client instance
+ * @param shop - The shop domain
+ * @param order - Order from a webhook payload
+ * @returns The saved booking, or null if the booking was released,
+ *   cancelled or left unchanged
+ */
+export async function syncOrderBooking(
+  prisma: PrismaClient,
+  shop: string,
+  order: OrderPayload,
+): Promise<DeliveryBooking | null> {
+  const orderId = String(order.id);
+  const orderUpdatedAt = parseOrderTimestamp(order.updated_at);
+
+  const existing = await prisma.deliveryBooking.findUnique({
+    where: { shop_orderId: { shop, orderId } },
+    select: { orderUpdatedAt: true, cancelledAt: true },
+  });
+  if (
+    existing?.cancelledAt ||
+    (existing?.orderUpdatedAt &&
+      orderUpdatedAt &&
+      orderUpdatedAt < existing.orderUpdatedAt)
+  ) {
+    return null;
+  }
+
+  if (order.cancelled_at) {
+    // Keep the booking as a cancelled record, so a late payload from
+    // before the cancellation cannot book the slot again
+    const booking = getBookingFromOrder({ ...order, cancelled_at: null });
+    if (booking) {
+      await saveDeliveryBooking(prisma, shop, booking, {
+        orderUpdatedAt,
+        cancelledAt: parseOrderTimestamp(order.cancelled_at) ?? new Date(),
+      });
+    } else {
+      await releaseDeliveryBooking(prisma, shop, orderId);
+    }
+    return null;
+  }
+
+  const booking = getBookingFromOrder(order);
+
+  if (!booking) {
+    await releaseDeliveryBooking(prisma, shop, orderId);
+    return null;
+  }
+
+  await saveDeliveryBooking(prisma, shop, booking, { orderUpdatedAt });
+  return booking;
+}
+
+/**
+ * Load all delivery bookings for a delivery date
+ *
+ * @param prisma - Prisma client instance
+ * @param shop - The shop domain
+ * @param date - Delivery date (YYYY-MM-DD format)
+ * @returns Bookings ordered by order name
+ */
+export async function loadDeliveryBookings(
+  prisma: PrismaClient,
+  shop: string,
+  date: string,
+): Promise<DeliveryBooking[]> {
+  const deliveryDate = parseDate(date);
+  if (!deliveryDate) return [];
+
+  const bookings = await prisma.deliveryBooking.findMany({
+    where: { shop, deliveryDate, pickupLocationId: null, cancelledAt: null },
+    orderBy: { orderName: "asc" },
+  });
+
+  return bookings.map((booking) => ({
+    orderId: booking.orderId,
+    orderName: booking.orderName ?? undefined,
+    cityId: booking.cityId,
+    timeSlotId: booking.timeSlotId,
+    deliveryDate: formatDateToString(booking.deliveryDate),
+    fullName: booking.fullName ?? undefined,
+    phoneNumber: booking.phoneNumber ?? undefined,
+    deliveryAddress: booking.deliveryAddress ?? undefined,
+  }));
+}
+
+/**
+ * Load booking counts per date, slot and city
+ *
+ * @param prisma - Prisma client instance
+ * @param shop - The shop domain
+ * @param fromDate - First delivery date to include (YYYY-MM-DD format)
+ * @param toDate - Last delivery date to include (YYYY-MM-DD format, optional)
+ * @returns Booking counts, one entry per date, slot and city
+ *
+ * @example
+ * await loadSlotBookingCounts(prisma, "example.myshopify.com", "2024-12-26")
+ * // returns [{ date: "2024-12-26", timeSlotId: 1, cityId: 2, count: 3 }, ...]
+ */
+export async function loadSlotBookingCounts(
+  prisma: PrismaClient,
+  shop: string,
+  fromDate: string,
+  toDate?: string,
+): Promise<SlotBookingCount[]> {
+  const from = parseDate(fromDate);
+  const to = toDate ? parseDate(toDate) : null;
+  if (!from) return [];
+
+  const groups = await prisma.deliveryBooking.groupBy({
+    by: ["deliveryDate", "timeSlotId", "cityId"],
+    where: {
+      shop,
+      pickupLocationId: null,
+      cancelledAt: null,
+      timeSlotId: { not: null },
+      deliveryDate: { gte: from, ...(to ? { lte: to } : {}) },
+    },
+    _count: { _all: true },
+  });
+
+  return groups.map((group) => ({
+    date: formatDateToString(group.deliveryDate),
+    timeSlotId: group.timeSlotId as number,
+    cityId: group.cityId ?? undefined,
+    count: group._count._all,
+  }));
+}
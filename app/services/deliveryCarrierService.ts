@@ -0,0 +1,162 @@
+/**
+ * Delivery Carrier Service
+ *
+ * Registers the app as a Shopify CarrierService, so checkout asks the app
+ * for shipping rates (see carrierRateService), and reads what the rate
+ * callback needs from Shopify: the request signature and the tags and
+ * preparation days of the products being shipped.
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { loadVariantProducts } from "./cartProductService";
+import type { CarrierRateRequest, CartProduct } from "./types/delivery";
+
+/**
+ * Name of the carrier service, shown in the shop's shipping settings
+ */
+export const CARRIER_SERVICE_NAME = "Scheduled Delivery";
+
+/**
+ * Path of the rate callback (app/routes/carrier.rates.tsx)
+ */
+export const CARRIER_SERVICE_CALLBACK_PATH = "/carrier/rates";
+
+const CARRIER_SERVICES_QUERY = `#graphql
+  query CarrierServices {
+    carrierServices(first: 50) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const CARRIER_SERVICE_CREATE_MUTATION = `#graphql
+  mutation CreateCarrierService($input: DeliveryCarrierServiceCreateInput!) {
+    carrierServiceCreate(input: $input) {
+      carrierService {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const CARRIER_SERVICE_UPDATE_MUTATION = `#graphql
+  mutation UpdateCarrierService($input: DeliveryCarrierServiceUpdateInput!) {
+    carrierServiceUpdate(input: $input) {
+      carrierService {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Register the carrier service, or point the existing one at the callback
+ *
+ * @param admin - Admin API context
+ * @param appUrl - Public URL of the app (SHOPIFY_APP_URL)
+ * @returns ID of the carrier service
+ * @throws Error if Shopify rejects the carrier service (e.g. the shop's
+ *   plan does not include third-party calculated rates)
+ */
+export async function registerCarrierService(
+  admin: AdminApiContext,
+  appUrl: string,
+): Promise<string> {
+  const callbackUrl = new URL(CARRIER_SERVICE_CALLBACK_PATH, appUrl).href;
+
+  const response = await admin.graphql(CARRIER_SERVICES_QUERY);
+  const { data } = await response.json();
+  const existing = (
+    data.carrierServices.nodes as Array<{ id: string; name: string }>
+  ).find((node) => node.name === CARRIER_SERVICE_NAME);
+
+  const mutationResponse = existing
+    ? await admin.graphql(CARRIER_SERVICE_UPDATE_MUTATION, {
+        variables: {
+          input: { id: existing.id, callbackUrl, active: true },
+        },
+      })
+    : await admin.graphql(CARRIER_SERVICE_CREATE_MUTATION, {
+        variables: {
+          input: {
+            name: CARRIER_SERVICE_NAME,
+            callbackUrl,
+            active: true,
+            supportsServiceDiscovery: true,
+          },
+        },
+      });
+  const { data: mutationData } = await mutationResponse.json();
+  const result = existing
+    ? mutationData?.carrierServiceUpdate
+    : mutationData?.carrierServiceCreate;
+
+  const [error] = result?.userErrors ?? [];
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return result.carrierService.id as string;
+}
+
+/**
+ * Checks the signature of a rate request
+ *
+ * Shopify signs the raw body with the app's API secret, as for webhooks.
+ *
+ * @param body - Raw request body
+ * @param hmac - Value of the X-Shopify-Hmac-Sha256 header
+ * @param secret - The app's API secret
+ * @returns True if the signature matches
+ */
+export function verifyCarrierRequest(
+  body: string,
+  hmac: string | null,
+  secret: string,
+): boolean {
+  if (!hmac || !secret) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(body).digest();
+  const received = Buffer.from(hmac, "base64");
+
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Load the products of a rate request with their tags and prep days
+ *
+ * Items without a variant (e.g. custom items) count as products without
+ * tags.
+ *
+ * @param admin - Admin API context
+ * @param items - Items of the rate request
+ * @returns One cart product per item
+ */
+export async function loadRateRequestProducts(
+  admin: AdminApiContext,
+  items: CarrierRateRequest["rate"]["items"],
+): Promise<CartProduct[]> {
+  return loadVariantProducts(
+    admin,
+    items.map((item) => ({
+      variantId: item.variant_id ?? null,
+      quantity: item.quantity,
+    })),
+  );
+}
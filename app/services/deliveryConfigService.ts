@@ -6,16 +6,52 @@
  * into the format expected by other delivery services.
  */
 
-import type { PrismaClient } from "@prisma/client";
-import { formatDateToString } from "./dateAvailabilityService";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import {
+  DEFAULT_DELAY_TAG_RULES,
+  isDelayStrategy,
+} from "./cartDelayCalculator";
+import {
+  expandDateDisableRules,
+  formatDateToString,
+} from "./dateAvailabilityService";
+import { isDeliveryZoneMatchType } from "./deliveryZoneService";
+import { parseGeoJsonPolygons } from "./geoJsonService";
+import { ALL_WEEKDAYS } from "./productionCalendarService";
+import { resolveTimezone } from "./timezoneService";
 import type {
   DateDisableRule,
+  DateSurchargeRule,
+  DateWindow,
+  DelayStrategy,
+  DelayTagMatchType,
+  DelayTagRule,
   DeliveryCity,
   DeliveryConfig,
+  DeliverySettings,
+  DeliveryZone,
+  DeliveryZoneDefinition,
+  DeliveryZoneMatchType,
+  OpeningHours,
+  PickupLocation,
+  ProductionClosure,
+  QuantityDelayTier,
+  SlotCapacityRule,
   SlotDisableRule,
+  SpecialCityRules,
+  StorefrontSelectors,
   TimeSlot,
+  WeekdayDisableRule,
 } from "./types/delivery";
 
+/**
+ * Default theme selectors, matching Dawn-based themes
+ */
+export const DEFAULT_STOREFRONT_SELECTORS: StorefrontSelectors = {
+  cartForm: 'form[action$="/cart"]',
+  checkoutButton: '[name="checkout"]',
+};
+
 /**
  * Load all delivery configuration for a shop
  *
@@ -27,19 +63,187 @@ export async function loadDeliveryConfig(
   prisma: PrismaClient,
   shop: string,
 ): Promise<DeliveryConfig> {
-  const [cities, timeSlots, dateRules, slotRules] = await Promise.all([
+  const [
+    settings,
+    cities,
+    timeSlots,
+    dateRules,
+    weekdayRules,
+    slotRules,
+    capacityRules,
+    delayTagRules,
+    quantityDelayTiers,
+    productionClosures,
+    deliveryZones,
+    dateSurchargeRules,
+    pickupLocations,
+  ] = await Promise.all([
+    loadSettings(prisma, shop),
     loadCities(prisma, shop),
     loadTimeSlots(prisma, shop),
     loadDateDisableRules(prisma, shop),
+    loadWeekdayDisableRules(prisma, shop),
     loadSlotDisableRules(prisma, shop),
+    loadSlotCapacityRules(prisma, shop),
+    loadDelayTagRules(prisma, shop),
+    loadQuantityDelayTiers(prisma, shop),
+    loadProductionClosures(prisma, shop),
+    loadDeliveryZones(prisma, shop),
+    loadDateSurchargeRules(prisma, shop),
+    loadPickupLocations(prisma, shop),
   ]);
 
   return {
     shop,
+    timezone: settings.timezone,
     cities,
     timeSlots,
     dateDisableRules: dateRules,
+    weekdayDisableRules: weekdayRules,
     slotDisableRules: slotRules,
+    slotCapacity: settings.slotCapacity,
+    slotCapacityRules: capacityRules,
+    // Shops that have not set up delay tags keep the built-in ones
+    delayTagRules:
+      delayTagRules.length > 0
+        ? delayTagRules
+        : DEFAULT_DELAY_TAG_RULES.map((rule) => ({ ...rule, id: 0, shop })),
+    delayStrategy: settings.delayStrategy,
+    quantityDelayTiers,
+    productionCalendar: {
+      workingDays: settings.productionDays,
+      closures: productionClosures.map(({ startDate, endDate }) => ({
+        startDate,
+        endDate,
+      })),
+    },
+    deliveryZones,
+    dateSurchargeRules,
+    pickupLocations,
+  };
+}
+
+/**
+ * Converts a city's weekday cutoff rows to a map keyed by weekday
+ */
+function toWeekdayCutoffTimes(
+  cutoffTimes: { dayOfWeek: number; cutoffTime: string }[],
+): Record<number, string> {
+  return Object.fromEntries(
+    cutoffTimes.map(({ dayOfWeek, cutoffTime }) => [dayOfWeek, cutoffTime]),
+  );
+}
+
+/**
+ * Converts a city's stored special restrictions
+ */
+function toSpecialCityRules(city: {
+  specialExtraLeadDays: number;
+  specialNoSameDay: boolean;
+  specialWeekdays: string | null;
+  specialSlotIds: string | null;
+}): SpecialCityRules {
+  return {
+    extraLeadDays: city.specialExtraLeadDays,
+    noSameDay: city.specialNoSameDay,
+    allowedWeekdays:
+      city.specialWeekdays !== null
+        ? parseDaysOfWeek(city.specialWeekdays)
+        : undefined,
+    allowedSlotIds:
+      city.specialSlotIds !== null
+        ? parseIdList(city.specialSlotIds)
+        : undefined,
+  };
+}
+
+/**
+ * Converts a stored delivery zone, parsing its polygons and slot list
+ */
+function toDeliveryZone(zone: {
+  id: number;
+  shop: string;
+  cityId: number;
+  matchType: string;
+  value: string;
+  geometry: string | null;
+  cutoffTime: string | null;
+  timeSlotIds: string | null;
+}): DeliveryZone {
+  return {
+    id: zone.id,
+    shop: zone.shop,
+    cityId: zone.cityId,
+    matchType: parseDeliveryZoneMatchType(zone.matchType),
+    value: zone.value,
+    polygons: zone.geometry
+      ? (parseGeoJsonPolygons(zone.geometry) ?? undefined)
+      : undefined,
+    cutoffTime: zone.cutoffTime,
+    timeSlotIds: zone.timeSlotIds ? parseIdList(zone.timeSlotIds) : [],
+  };
+}
+
+/**
+ * Relations loaded with a pickup location
+ */
+const PICKUP_LOCATION_INCLUDE = {
+  timeSlots: { include: { timeSlot: true } },
+  openingHours: true,
+  disableDateRules: { orderBy: { startDate: "asc" } },
+  disableTimeSlotRules: { orderBy: { startDate: "asc" } },
+} satisfies Prisma.PickupLocationInclude;
+
+/**
+ * Converts a stored pickup location with its slots, hours and rules
+ */
+function toPickupLocation(
+  location: Prisma.PickupLocationGetPayload<{
+    include: typeof PICKUP_LOCATION_INCLUDE;
+  }>,
+): PickupLocation {
+  return {
+    id: location.id,
+    name: location.name,
+    shop: location.shop,
+    address: location.address ?? undefined,
+    isActive: location.isActive,
+    cutoffTime: location.cutoffTime,
+    sameDayBufferMinutes: location.sameDayBufferMinutes ?? undefined,
+    openingHours: Object.fromEntries(
+      location.openingHours.map(({ dayOfWeek, openTime, closeTime }) => [
+        dayOfWeek,
+        { openTime, closeTime },
+      ]),
+    ),
+    timeSlots: location.timeSlots.map(({ timeSlot }) => ({
+      id: timeSlot.id,
+      shop: timeSlot.shop,
+      startTime: timeSlot.startTime,
+      endTime: timeSlot.endTime,
+      isActive: timeSlot.isActive,
+      sameDayBufferMinutes: timeSlot.sameDayBufferMinutes ?? undefined,
+      cutoffTime: timeSlot.cutoffTime ?? undefined,
+      cutoffDaysBefore: timeSlot.cutoffDaysBefore,
+      surcharge: timeSlot.surcharge.toNumber(),
+      label: formatTimeSlotLabel(timeSlot.startTime, timeSlot.endTime),
+    })),
+    dateDisableRules: location.disableDateRules.map((rule) => ({
+      id: rule.id,
+      shop: rule.shop,
+      startDate: formatDateToString(rule.startDate),
+      endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
+      repeatsYearly: rule.repeatsYearly,
+      reason: rule.reason ?? undefined,
+    })),
+    slotDisableRules: location.disableTimeSlotRules.map((rule) => ({
+      id: rule.id,
+      shop: rule.shop,
+      timeSlotId: rule.timeSlotId,
+      startDate: formatDateToString(rule.startDate),
+      endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
+      reason: rule.reason ?? undefined,
+    })),
   };
 }
 
@@ -52,7 +256,10 @@ export async function loadCities(
 ): Promise<DeliveryCity[]> {
   const cities = await prisma.city.findMany({
     where: { shop, isActive: true },
-    include: { timeSlots: { include: { timeSlot: true } } },
+    include: {
+      timeSlots: { include: { timeSlot: true } },
+      cutoffTimes: true,
+    },
     orderBy: { name: "asc" },
   });
 
@@ -62,10 +269,42 @@ export async function loadCities(
     shop: city.shop,
     isActive: city.isActive,
     isSpecial: city.isSpecial,
+    specialRules: toSpecialCityRules(city),
     cutoffTime: city.cuttoffTime, // Note: schema has typo "cuttoffTime"
+    sameDayBufferMinutes: city.sameDayBufferMinutes ?? undefined,
+    deliveryFee: city.deliveryFee.toNumber(),
+    weekdayCutoffTimes: toWeekdayCutoffTimes(city.cutoffTimes),
+    timeSlots: city.timeSlots.map((cts) => ({
+      id: cts.timeSlot.id,
+      shop: cts.timeSlot.shop,
+      startTime: cts.timeSlot.startTime,
+      endTime: cts.timeSlot.endTime,
+      isActive: cts.timeSlot.isActive,
+      sameDayBufferMinutes: cts.timeSlot.sameDayBufferMinutes ?? undefined,
+      cutoffTime: cts.timeSlot.cutoffTime ?? undefined,
+      cutoffDaysBefore: cts.timeSlot.cutoffDaysBefore,
+      surcharge: cts.timeSlot.surcharge.toNumber(),
+      label: formatTimeSlotLabel(cts.timeSlot.startTime, cts.timeSlot.endTime),
+    })),
   }));
 }
 
+/**
+ * Load all active pickup locations for a shop, with their rules
+ */
+export async function loadPickupLocations(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<PickupLocation[]> {
+  const locations = await prisma.pickupLocation.findMany({
+    where: { shop, isActive: true },
+    include: PICKUP_LOCATION_INCLUDE,
+    orderBy: { name: "asc" },
+  });
+
+  return locations.map(toPickupLocation);
+}
+
 /**
  * Load all active time slots for a shop
  */
@@ -84,18 +323,53 @@ export async function loadTimeSlots(
     startTime: slot.startTime,
     endTime: slot.endTime,
     isActive: slot.isActive,
+    sameDayBufferMinutes: slot.sameDayBufferMinutes ?? undefined,
+    cutoffTime: slot.cutoffTime ?? undefined,
+    cutoffDaysBefore: slot.cutoffDaysBefore,
+    surcharge: slot.surcharge.toNumber(),
     label: formatTimeSlotLabel(slot.startTime, slot.endTime),
   }));
 }
 
 /**
  * Load all date disable rules for a shop
+ *
+ * Closures of pickup locations are loaded with the locations instead.
+ *
+ * When a window is given, yearly repeating rules are expanded into their
+ * occurrences in that window (see expandDateDisableRules).
  */
 export async function loadDateDisableRules(
   prisma: PrismaClient,
   shop: string,
+  window?: DateWindow,
 ): Promise<DateDisableRule[]> {
   const rules = await prisma.disableDateRules.findMany({
+    where: { shop, pickupLocationId: null },
+    orderBy: { startDate: "asc" },
+  });
+
+  const dateRules = rules.map((rule) => ({
+    id: rule.id,
+    shop: rule.shop,
+    cityId: rule.cityId ?? undefined,
+    startDate: formatDateToString(rule.startDate),
+    endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
+    repeatsYearly: rule.repeatsYearly,
+    reason: rule.reason ?? undefined,
+  }));
+
+  return window ? expandDateDisableRules(dateRules, window) : dateRules;
+}
+
+/**
+ * Load all date surcharge rules for a shop
+ */
+export async function loadDateSurchargeRules(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<DateSurchargeRule[]> {
+  const rules = await prisma.dateSurchargeRule.findMany({
     where: { shop },
     orderBy: { startDate: "asc" },
   });
@@ -106,19 +380,46 @@ export async function loadDateDisableRules(
     cityId: rule.cityId ?? undefined,
     startDate: formatDateToString(rule.startDate),
     endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
+    repeatsYearly: rule.repeatsYearly,
+    amount: rule.amount.toNumber(),
+    label: rule.label ?? undefined,
+  }));
+}
+
+/**
+ * Load all recurring weekday disable rules for a shop
+ */
+export async function loadWeekdayDisableRules(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<WeekdayDisableRule[]> {
+  const rules = await prisma.disableWeekdayRules.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return rules.map((rule) => ({
+    id: rule.id,
+    shop: rule.shop,
+    cityId: rule.cityId ?? undefined,
+    daysOfWeek: parseDaysOfWeek(rule.daysOfWeek),
+    startDate: rule.startDate ? formatDateToString(rule.startDate) : undefined,
+    endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
     reason: rule.reason ?? undefined,
   }));
 }
 
 /**
  * Load all slot disable rules for a shop
+ *
+ * Slot rules of pickup locations are loaded with the locations instead.
  */
 export async function loadSlotDisableRules(
   prisma: PrismaClient,
   shop: string,
 ): Promise<SlotDisableRule[]> {
   const rules = await prisma.disableTimeSlotRules.findMany({
-    where: { shop },
+    where: { shop, pickupLocationId: null },
     orderBy: { startDate: "asc" },
   });
 
@@ -133,6 +434,108 @@ export async function loadSlotDisableRules(
   }));
 }
 
+/**
+ * Load all slot capacity rules for a shop
+ */
+export async function loadSlotCapacityRules(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<SlotCapacityRule[]> {
+  const rules = await prisma.slotCapacityRule.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return rules.map((rule) => ({
+    id: rule.id,
+    shop: rule.shop,
+    timeSlotId: rule.timeSlotId ?? undefined,
+    cityId: rule.cityId ?? undefined,
+    date: rule.date ? formatDateToString(rule.date) : undefined,
+    capacity: rule.capacity,
+  }));
+}
+
+/**
+ * Load all delay tag rules for a shop
+ */
+export async function loadDelayTagRules(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<DelayTagRule[]> {
+  const rules = await prisma.delayTagRule.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return rules.map((rule) => ({
+    id: rule.id,
+    shop: rule.shop,
+    matchType: rule.matchType as DelayTagMatchType,
+    tag: rule.tag,
+    delayDays: rule.delayDays,
+    delayHours: rule.delayHours,
+  }));
+}
+
+/**
+ * Load all quantity delay tiers for a shop
+ */
+export async function loadQuantityDelayTiers(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<QuantityDelayTier[]> {
+  const tiers = await prisma.quantityDelayTier.findMany({
+    where: { shop },
+    orderBy: [{ tag: "asc" }, { minQuantity: "asc" }],
+  });
+
+  return tiers.map((tier) => ({
+    id: tier.id,
+    shop: tier.shop,
+    tag: tier.tag,
+    minQuantity: tier.minQuantity,
+    extraDays: tier.extraDays,
+  }));
+}
+
+/**
+ * Load all production closures for a shop
+ */
+export async function loadProductionClosures(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<ProductionClosure[]> {
+  const closures = await prisma.productionClosure.findMany({
+    where: { shop },
+    orderBy: { startDate: "asc" },
+  });
+
+  return closures.map((closure) => ({
+    id: closure.id,
+    shop: closure.shop,
+    startDate: formatDateToString(closure.startDate),
+    endDate: closure.endDate ? formatDateToString(closure.endDate) : undefined,
+    reason: closure.reason ?? undefined,
+  }));
+}
+
+/**
+ * Load delivery zones for a shop, optionally for one city only
+ */
+export async function loadDeliveryZones(
+  prisma: PrismaClient,
+  shop: string,
+  cityId?: number,
+): Promise<DeliveryZone[]> {
+  const zones = await prisma.deliveryZone.findMany({
+    where: { shop, cityId },
+    orderBy: [{ matchType: "asc" }, { value: "asc" }],
+  });
+
+  return zones.map(toDeliveryZone);
+}
+
 /**
  * Get a city by ID
  */
@@ -143,7 +546,10 @@ export async function getCityById(
 ): Promise<DeliveryCity | null> {
   const city = await prisma.city.findFirst({
     where: { id: cityId, shop, isActive: true },
-    include: { timeSlots: { include: { timeSlot: true } } },
+    include: {
+      timeSlots: { include: { timeSlot: true } },
+      cutoffTimes: true,
+    },
   });
 
   if (!city) return null;
@@ -154,13 +560,21 @@ export async function getCityById(
     shop: city.shop,
     isActive: city.isActive,
     isSpecial: city.isSpecial,
+    specialRules: toSpecialCityRules(city),
     cutoffTime: city.cuttoffTime,
+    sameDayBufferMinutes: city.sameDayBufferMinutes ?? undefined,
+    deliveryFee: city.deliveryFee.toNumber(),
+    weekdayCutoffTimes: toWeekdayCutoffTimes(city.cutoffTimes),
     timeSlots: city.timeSlots.map((cts) => ({
       id: cts.timeSlot.id,
       shop: cts.timeSlot.shop,
       startTime: cts.timeSlot.startTime,
       endTime: cts.timeSlot.endTime,
       isActive: cts.timeSlot.isActive,
+      sameDayBufferMinutes: cts.timeSlot.sameDayBufferMinutes ?? undefined,
+      cutoffTime: cts.timeSlot.cutoffTime ?? undefined,
+      cutoffDaysBefore: cts.timeSlot.cutoffDaysBefore,
+      surcharge: cts.timeSlot.surcharge.toNumber(),
       label: formatTimeSlotLabel(cts.timeSlot.startTime, cts.timeSlot.endTime),
     })),
   };
@@ -186,6 +600,10 @@ export async function getTimeSlotById(
     startTime: slot.startTime,
     endTime: slot.endTime,
     isActive: slot.isActive,
+    sameDayBufferMinutes: slot.sameDayBufferMinutes ?? undefined,
+    cutoffTime: slot.cutoffTime ?? undefined,
+    cutoffDaysBefore: slot.cutoffDaysBefore,
+    surcharge: slot.surcharge.toNumber(),
     label: formatTimeSlotLabel(slot.startTime, slot.endTime),
   };
 }
@@ -210,7 +628,10 @@ export async function createCity(
       cuttoffTime: data.cutoffTime,
       isActive: true,
     },
-    include: { timeSlots: { include: { timeSlot: true } } },
+    include: {
+      timeSlots: { include: { timeSlot: true } },
+      cutoffTimes: true,
+    },
   });
 
   return {
@@ -219,13 +640,21 @@ export async function createCity(
     shop: city.shop,
     isActive: city.isActive,
     isSpecial: city.isSpecial,
+    specialRules: toSpecialCityRules(city),
     cutoffTime: city.cuttoffTime,
+    sameDayBufferMinutes: city.sameDayBufferMinutes ?? undefined,
+    deliveryFee: city.deliveryFee.toNumber(),
+    weekdayCutoffTimes: toWeekdayCutoffTimes(city.cutoffTimes),
     timeSlots: city.timeSlots.map((cts) => ({
       id: cts.timeSlot.id,
       shop: cts.timeSlot.shop,
       startTime: cts.timeSlot.startTime,
       endTime: cts.timeSlot.endTime,
       isActive: cts.timeSlot.isActive,
+      sameDayBufferMinutes: cts.timeSlot.sameDayBufferMinutes ?? undefined,
+      cutoffTime: cts.timeSlot.cutoffTime ?? undefined,
+      cutoffDaysBefore: cts.timeSlot.cutoffDaysBefore,
+      surcharge: cts.timeSlot.surcharge.toNumber(),
       label: formatTimeSlotLabel(cts.timeSlot.startTime, cts.timeSlot.endTime),
     })),
   };
@@ -243,6 +672,7 @@ export async function updateCity(
     isSpecial?: boolean;
     cutoffTime?: string;
     isActive?: boolean;
+    deliveryFee?: number;
   },
 ): Promise<DeliveryCity | null> {
   const updateData: {
@@ -250,11 +680,13 @@ export async function updateCity(
     isSpecial?: boolean;
     cuttoffTime?: string;
     isActive?: boolean;
+    deliveryFee?: number;
   } = {
     name: data.name,
     isSpecial: data.isSpecial,
     cuttoffTime: data.cutoffTime,
     isActive: data.isActive,
+    deliveryFee: data.deliveryFee,
   };
 
   // Remove undefined values
@@ -267,7 +699,10 @@ export async function updateCity(
   const city = await prisma.city.update({
     where: { id: cityId },
     data: updateData,
-    include: { timeSlots: { include: { timeSlot: true } } },
+    include: {
+      timeSlots: { include: { timeSlot: true } },
+      cutoffTimes: true,
+    },
   });
 
   if (city.shop !== shop) return null;
@@ -278,13 +713,21 @@ export async function updateCity(
     shop: city.shop,
     isActive: city.isActive,
     isSpecial: city.isSpecial,
+    specialRules: toSpecialCityRules(city),
     cutoffTime: city.cuttoffTime,
+    sameDayBufferMinutes: city.sameDayBufferMinutes ?? undefined,
+    deliveryFee: city.deliveryFee.toNumber(),
+    weekdayCutoffTimes: toWeekdayCutoffTimes(city.cutoffTimes),
     timeSlots: city.timeSlots.map((cts) => ({
       id: cts.timeSlot.id,
       shop: cts.timeSlot.shop,
       startTime: cts.timeSlot.startTime,
       endTime: cts.timeSlot.endTime,
       isActive: cts.timeSlot.isActive,
+      sameDayBufferMinutes: cts.timeSlot.sameDayBufferMinutes ?? undefined,
+      cutoffTime: cts.timeSlot.cutoffTime ?? undefined,
+      cutoffDaysBefore: cts.timeSlot.cutoffDaysBefore,
+      surcharge: cts.timeSlot.surcharge.toNumber(),
       label: formatTimeSlotLabel(cts.timeSlot.startTime, cts.timeSlot.endTime),
     })),
   };
@@ -299,6 +742,9 @@ export async function createTimeSlot(
   data: {
     startTime: string;
     endTime: string;
+    sameDayBufferMinutes?: number;
+    cutoffTime?: string;
+    cutoffDaysBefore?: number;
   },
 ): Promise<TimeSlot> {
   const slot = await prisma.timeSlot.create({
@@ -307,6 +753,9 @@ export async function createTimeSlot(
       startTime: data.startTime,
       endTime: data.endTime,
       isActive: true,
+      sameDayBufferMinutes: data.sameDayBufferMinutes,
+      cutoffTime: data.cutoffTime,
+      cutoffDaysBefore: data.cutoffDaysBefore,
     },
   });
 
@@ -316,6 +765,10 @@ export async function createTimeSlot(
     startTime: slot.startTime,
     endTime: slot.endTime,
     isActive: slot.isActive,
+    sameDayBufferMinutes: slot.sameDayBufferMinutes ?? undefined,
+    cutoffTime: slot.cutoffTime ?? undefined,
+    cutoffDaysBefore: slot.cutoffDaysBefore,
+    surcharge: slot.surcharge.toNumber(),
     label: formatTimeSlotLabel(slot.startTime, slot.endTime),
   };
 }
@@ -331,6 +784,12 @@ export async function updateTimeSlot(
     startTime?: string;
     endTime?: string;
     isActive?: boolean;
+    /** null removes the buffer */
+    sameDayBufferMinutes?: number | null;
+    /** null removes the cutoff */
+    cutoffTime?: string | null;
+    cutoffDaysBefore?: number;
+    surcharge?: number;
   },
 ): Promise<TimeSlot | null> {
   const slot = await prisma.timeSlot.update({
@@ -346,20 +805,230 @@ export async function updateTimeSlot(
     startTime: slot.startTime,
     endTime: slot.endTime,
     isActive: slot.isActive,
+    sameDayBufferMinutes: slot.sameDayBufferMinutes ?? undefined,
+    cutoffTime: slot.cutoffTime ?? undefined,
+    cutoffDaysBefore: slot.cutoffDaysBefore,
+    surcharge: slot.surcharge.toNumber(),
     label: formatTimeSlotLabel(slot.startTime, slot.endTime),
   };
 }
 
+/**
+ * Assign a time slot to a city
+ *
+ * Both the city and the slot must belong to the shop.
+ * Assigning an already assigned slot is a no-op.
+ */
+export async function assignTimeSlotToCity(
+  prisma: PrismaClient,
+  shop: string,
+  cityId: number,
+  timeSlotId: number,
+): Promise<boolean> {
+  const [city, slot] = await Promise.all([
+    prisma.city.findFirst({ where: { id: cityId, shop } }),
+    prisma.timeSlot.findFirst({ where: { id: timeSlotId, shop } }),
+  ]);
+
+  if (!city || !slot) return false;
+
+  await prisma.cityTimeSlot.upsert({
+    where: { cityId_timeSlotId: { cityId, timeSlotId } },
+    update: {},
+    create: { cityId, timeSlotId },
+  });
+
+  return true;
+}
+
+/**
+ * Remove a time slot assignment from a city
+ */
+export async function unassignTimeSlotFromCity(
+  prisma: PrismaClient,
+  shop: string,
+  cityId: number,
+  timeSlotId: number,
+): Promise<boolean> {
+  const result = await prisma.cityTimeSlot.deleteMany({
+    where: { cityId, timeSlotId, city: { shop } },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Replace a city's weekday cutoff schedule
+ *
+ * Weekdays missing from the schedule fall back to the city's cutoff time.
+ * Returns false if the city does not belong to the shop.
+ */
+export async function saveCityCutoffSchedule(
+  prisma: PrismaClient,
+  shop: string,
+  cityId: number,
+  schedule: Record<number, string>,
+): Promise<boolean> {
+  const city = await prisma.city.findFirst({ where: { id: cityId, shop } });
+  if (!city) return false;
+
+  await prisma.$transaction([
+    prisma.cityCutoffTime.deleteMany({ where: { cityId } }),
+    prisma.cityCutoffTime.createMany({
+      data: Object.entries(schedule).map(([dayOfWeek, cutoffTime]) => ({
+        cityId,
+        dayOfWeek: Number(dayOfWeek),
+        cutoffTime,
+      })),
+    }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Create a pickup location
+ */
+export async function createPickupLocation(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    name: string;
+    address?: string;
+    cutoffTime: string;
+  },
+): Promise<PickupLocation> {
+  const location = await prisma.pickupLocation.create({
+    data: {
+      shop,
+      name: data.name,
+      address: data.address,
+      cutoffTime: data.cutoffTime,
+      isActive: true,
+    },
+    include: PICKUP_LOCATION_INCLUDE,
+  });
+
+  return toPickupLocation(location);
+}
+
+/**
+ * Update a pickup location
+ *
+ * Returns null if the location does not belong to the shop.
+ */
+export async function updatePickupLocation(
+  prisma: PrismaClient,
+  shop: string,
+  locationId: number,
+  data: {
+    name?: string;
+    /** null removes the address */
+    address?: string | null;
+    cutoffTime?: string;
+    /** null removes the buffer */
+    sameDayBufferMinutes?: number | null;
+    isActive?: boolean;
+  },
+): Promise<PickupLocation | null> {
+  const existing = await prisma.pickupLocation.findFirst({
+    where: { id: locationId, shop },
+  });
+  if (!existing) return null;
+
+  const location = await prisma.pickupLocation.update({
+    where: { id: locationId },
+    data,
+    include: PICKUP_LOCATION_INCLUDE,
+  });
+
+  return toPickupLocation(location);
+}
+
+/**
+ * Replace a pickup location's opening hours
+ *
+ * Weekdays missing from the hours are closed; empty hours mean open every
+ * day. Returns false if the location does not belong to the shop.
+ */
+export async function savePickupOpeningHours(
+  prisma: PrismaClient,
+  shop: string,
+  locationId: number,
+  openingHours: Record<number, OpeningHours>,
+): Promise<boolean> {
+  const location = await prisma.pickupLocation.findFirst({
+    where: { id: locationId, shop },
+  });
+  if (!location) return false;
+
+  await prisma.$transaction([
+    prisma.pickupOpeningHours.deleteMany({
+      where: { pickupLocationId: locationId },
+    }),
+    prisma.pickupOpeningHours.createMany({
+      data: Object.entries(openingHours).map(([dayOfWeek, hours]) => ({
+        pickupLocationId: locationId,
+        dayOfWeek: Number(dayOfWeek),
+        openTime: hours.openTime,
+        closeTime: hours.closeTime,
+      })),
+    }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Replace the time slots offered at a pickup location
+ *
+ * Slots of other shops are ignored. An empty list offers all shop-wide
+ * slots. Returns false if the location does not belong to the shop.
+ */
+export async function savePickupLocationTimeSlots(
+  prisma: PrismaClient,
+  shop: string,
+  locationId: number,
+  timeSlotIds: number[],
+): Promise<boolean> {
+  const [location, slots] = await Promise.all([
+    prisma.pickupLocation.findFirst({ where: { id: locationId, shop } }),
+    prisma.timeSlot.findMany({
+      where: { id: { in: timeSlotIds }, shop },
+      select: { id: true },
+    }),
+  ]);
+  if (!location) return false;
+
+  await prisma.$transaction([
+    prisma.pickupLocationTimeSlot.deleteMany({
+      where: { pickupLocationId: locationId },
+    }),
+    prisma.pickupLocationTimeSlot.createMany({
+      data: slots.map((slot) => ({
+        pickupLocationId: locationId,
+        timeSlotId: slot.id,
+      })),
+    }),
+  ]);
+
+  return true;
+}
+
 /**
  * Create a date disable rule
+ *
+ * Rules with a pickup location close that location only.
  */
 export async function createDateDisableRule(
   prisma: PrismaClient,
   shop: string,
   data: {
     cityId?: number;
+    pickupLocationId?: number;
     startDate: Date;
     endDate?: Date;
+    repeatsYearly?: boolean;
     reason?: string;
   },
 ): Promise<DateDisableRule> {
@@ -367,8 +1036,10 @@ export async function createDateDisableRule(
     data: {
       shop,
       cityId: data.cityId,
+      pickupLocationId: data.pickupLocationId,
       startDate: data.startDate,
       endDate: data.endDate,
+      repeatsYearly: data.repeatsYearly ?? false,
       reason: data.reason,
     },
   });
@@ -379,12 +1050,92 @@ export async function createDateDisableRule(
     cityId: rule.cityId ?? undefined,
     startDate: formatDateToString(rule.startDate),
     endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
+    repeatsYearly: rule.repeatsYearly,
+    reason: rule.reason ?? undefined,
+  };
+}
+
+/**
+ * Create a date surcharge rule
+ */
+export async function createDateSurchargeRule(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    cityId?: number;
+    startDate: Date;
+    endDate?: Date;
+    repeatsYearly?: boolean;
+    amount: number;
+    label?: string;
+  },
+): Promise<DateSurchargeRule> {
+  const rule = await prisma.dateSurchargeRule.create({
+    data: {
+      shop,
+      cityId: data.cityId,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      repeatsYearly: data.repeatsYearly ?? false,
+      amount: data.amount,
+      label: data.label,
+    },
+  });
+
+  return {
+    id: rule.id,
+    shop: rule.shop,
+    cityId: rule.cityId ?? undefined,
+    startDate: formatDateToString(rule.startDate),
+    endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
+    repeatsYearly: rule.repeatsYearly,
+    amount: rule.amount.toNumber(),
+    label: rule.label ?? undefined,
+  };
+}
+
+/**
+ * Create a recurring weekday disable rule
+ */
+export async function createWeekdayDisableRule(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    cityId?: number;
+    daysOfWeek: number[];
+    startDate?: Date;
+    endDate?: Date;
+    reason?: string;
+  },
+): Promise<WeekdayDisableRule> {
+  const daysOfWeek = parseDaysOfWeek(data.daysOfWeek.join(","));
+
+  const rule = await prisma.disableWeekdayRules.create({
+    data: {
+      shop,
+      cityId: data.cityId,
+      daysOfWeek: daysOfWeek.join(","),
+      startDate: data.startDate,
+      endDate: data.endDate,
+      reason: data.reason,
+    },
+  });
+
+  return {
+    id: rule.id,
+    shop: rule.shop,
+    cityId: rule.cityId ?? undefined,
+    daysOfWeek,
+    startDate: rule.startDate ? formatDateToString(rule.startDate) : undefined,
+    endDate: rule.endDate ? formatDateToString(rule.endDate) : undefined,
     reason: rule.reason ?? undefined,
   };
 }
 
 /**
  * Create a slot disable rule
+ *
+ * Rules with a pickup location disable the slot at that location only.
  */
 export async function createSlotDisableRule(
   prisma: PrismaClient,
@@ -392,6 +1143,7 @@ export async function createSlotDisableRule(
   data: {
     timeSlotId: number;
     cityId?: number;
+    pickupLocationId?: number;
     startDate: Date;
     endDate?: Date;
     reason?: string;
@@ -402,6 +1154,7 @@ export async function createSlotDisableRule(
       shop,
       timeSlotId: data.timeSlotId,
       cityId: data.cityId,
+      pickupLocationId: data.pickupLocationId,
       startDate: data.startDate,
       endDate: data.endDate,
       reason: data.reason,
@@ -419,6 +1172,304 @@ export async function createSlotDisableRule(
   };
 }
 
+/**
+ * Create a slot capacity rule
+ */
+export async function createSlotCapacityRule(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    timeSlotId?: number;
+    cityId?: number;
+    date?: Date;
+    capacity: number;
+  },
+): Promise<SlotCapacityRule> {
+  const rule = await prisma.slotCapacityRule.create({
+    data: {
+      shop,
+      timeSlotId: data.timeSlotId,
+      cityId: data.cityId,
+      date: data.date,
+      capacity: data.capacity,
+    },
+  });
+
+  return {
+    id: rule.id,
+    shop: rule.shop,
+    timeSlotId: rule.timeSlotId ?? undefined,
+    cityId: rule.cityId ?? undefined,
+    date: rule.date ? formatDateToString(rule.date) : undefined,
+    capacity: rule.capacity,
+  };
+}
+
+/**
+ * Create a delay tag rule
+ */
+export async function createDelayTagRule(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    matchType: DelayTagMatchType;
+    tag: string;
+    delayDays: number;
+    delayHours: number;
+  },
+): Promise<DelayTagRule> {
+  const rule = await prisma.delayTagRule.create({
+    data: {
+      shop,
+      matchType: data.matchType,
+      tag: data.tag.trim().toLowerCase(),
+      delayDays: data.delayDays,
+      delayHours: data.delayHours,
+    },
+  });
+
+  return {
+    id: rule.id,
+    shop: rule.shop,
+    matchType: rule.matchType as DelayTagMatchType,
+    tag: rule.tag,
+    delayDays: rule.delayDays,
+    delayHours: rule.delayHours,
+  };
+}
+
+/**
+ * Create a quantity delay tier
+ */
+export async function createQuantityDelayTier(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    tag: string;
+    minQuantity: number;
+    extraDays: number;
+  },
+): Promise<QuantityDelayTier> {
+  const tier = await prisma.quantityDelayTier.create({
+    data: {
+      shop,
+      tag: data.tag.trim().toLowerCase(),
+      minQuantity: data.minQuantity,
+      extraDays: data.extraDays,
+    },
+  });
+
+  return {
+    id: tier.id,
+    shop: tier.shop,
+    tag: tier.tag,
+    minQuantity: tier.minQuantity,
+    extraDays: tier.extraDays,
+  };
+}
+
+/**
+ * Create a delivery zone
+ *
+ * Returns null if the city does not belong to the shop.
+ */
+export async function createDeliveryZone(
+  prisma: PrismaClient,
+  shop: string,
+  data: DeliveryZoneDefinition,
+): Promise<DeliveryZone | null> {
+  const city = await prisma.city.findFirst({
+    where: { id: data.cityId, shop },
+  });
+  if (!city) return null;
+
+  const zone = await prisma.deliveryZone.create({
+    data: {
+      shop,
+      cityId: data.cityId,
+      matchType: data.matchType,
+      value: data.value.trim(),
+      // Stored as one MultiPolygon, whatever GeoJSON it was imported from
+      geometry: data.polygons?.length
+        ? JSON.stringify({ type: "MultiPolygon", coordinates: data.polygons })
+        : null,
+      cutoffTime: data.cutoffTime || null,
+      timeSlotIds: data.timeSlotIds?.length ? data.timeSlotIds.join(",") : null,
+    },
+  });
+
+  return toDeliveryZone(zone);
+}
+
+/**
+ * Create a production closure
+ */
+export async function createProductionClosure(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    startDate: Date;
+    endDate?: Date;
+    reason?: string;
+  },
+): Promise<ProductionClosure> {
+  const closure = await prisma.productionClosure.create({
+    data: {
+      shop,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      reason: data.reason,
+    },
+  });
+
+  return {
+    id: closure.id,
+    shop: closure.shop,
+    startDate: formatDateToString(closure.startDate),
+    endDate: closure.endDate ? formatDateToString(closure.endDate) : undefined,
+    reason: closure.reason ?? undefined,
+  };
+}
+
+/**
+ * Load shop-wide settings
+ *
+ * Returns defaults if the shop has no settings row yet.
+ */
+export async function loadSettings(
+  prisma: PrismaClient,
+  shop: string,
+): Promise<DeliverySettings> {
+  const settings = await prisma.settings.findFirst({
+    where: { shop },
+  });
+
+  return {
+    shop,
+    cutoffTime: settings?.cutoffTime ?? undefined,
+    timezone: resolveTimezone(settings?.timezone),
+    selectors: parseSelectors(settings?.selectors),
+    slotCapacity: settings?.slotCapacity ?? undefined,
+    productionDays: parseProductionDays(settings?.productionDays),
+    delayStrategy: parseDelayStrategy(settings?.delayStrategy),
+  };
+}
+
+/**
+ * Create or update shop-wide settings
+ */
+export async function saveSettings(
+  prisma: PrismaClient,
+  shop: string,
+  data: {
+    cutoffTime?: string;
+    timezone?: string;
+    selectors?: StorefrontSelectors;
+    /** null clears the default capacity (unlimited) */
+    slotCapacity?: number | null;
+    productionDays?: number[];
+    delayStrategy?: DelayStrategy;
+  },
+): Promise<DeliverySettings> {
+  const updateData = {
+    cutoffTime: data.cutoffTime,
+    timezone: data.timezone,
+    selectors: data.selectors ? JSON.stringify(data.selectors) : undefined,
+    slotCapacity: data.slotCapacity,
+    productionDays: data.productionDays
+      ? parseDaysOfWeek(data.productionDays.join(",")).join(",")
+      : undefined,
+    delayStrategy: data.delayStrategy,
+  };
+
+  const existing = await prisma.settings.findFirst({
+    where: { shop },
+  });
+
+  const settings = existing
+    ? await prisma.settings.update({
+        where: { id: existing.id },
+        data: updateData,
+      })
+    : await prisma.settings.create({
+        data: { shop, ...updateData },
+      });
+
+  return {
+    shop,
+    cutoffTime: settings.cutoffTime ?? undefined,
+    timezone: resolveTimezone(settings.timezone),
+    selectors: parseSelectors(settings.selectors),
+    slotCapacity: settings.slotCapacity ?? undefined,
+    productionDays: parseProductionDays(settings.productionDays),
+    delayStrategy: parseDelayStrategy(settings.delayStrategy),
+  };
+}
+
+/**
+ * Parse stored selectors JSON, falling back to defaults per field
+ */
+function parseSelectors(value: string | null | undefined): StorefrontSelectors {
+  if (!value) return { ...DEFAULT_STOREFRONT_SELECTORS };
+
+  try {
+    const parsed = JSON.parse(value) as Partial<StorefrontSelectors>;
+    return {
+      cartForm: parsed.cartForm || DEFAULT_STOREFRONT_SELECTORS.cartForm,
+      checkoutButton:
+        parsed.checkoutButton || DEFAULT_STOREFRONT_SELECTORS.checkoutButton,
+    };
+  } catch {
+    return { ...DEFAULT_STOREFRONT_SELECTORS };
+  }
+}
+
+/**
+ * Parse stored comma-separated weekdays, dropping invalid and duplicate values
+ */
+function parseDaysOfWeek(value: string): number[] {
+  const days = value
+    .split(",")
+    .map((day) => parseInt(day.trim(), 10))
+    .filter((day) => !isNaN(day) && day >= 0 && day <= 6);
+
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Parse stored comma-separated IDs, dropping invalid and duplicate values
+ */
+function parseIdList(value: string): number[] {
+  const ids = value
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !isNaN(id));
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Parse stored kitchen working weekdays, every day if none are stored
+ */
+function parseProductionDays(value: string | null | undefined): number[] {
+  const days = value ? parseDaysOfWeek(value) : [];
+  return days.length > 0 ? days : [...ALL_WEEKDAYS];
+}
+
+/**
+ * Parse a stored delay strategy, "max" if unknown
+ */
+function parseDelayStrategy(value: string | null | undefined): DelayStrategy {
+  return isDelayStrategy(value) ? value : "max";
+}
+
+/**
+ * Parse a stored zone match type, "postalCode" if unknown
+ */
+function parseDeliveryZoneMatchType(value: string): DeliveryZoneMatchType {
+  return isDeliveryZoneMatchType(value) ? value : "postalCode";
+}
+
 /**
  * Format time slot label from start and end times
  */
@@ -0,0 +1,145 @@
+/**
+ * Delivery Fee Service
+ *
+ * Prices a delivery from the shop's fee schedule: the city's base fee, plus
+ * the slot's surcharge (e.g. evening slots), plus the date's surcharge
+ * (e.g. Valentine's Day). Amounts are in the shop's currency.
+ *
+ * When several date surcharges cover a date, the highest one applies, so a
+ * city-specific holiday rate and a shop-wide one are not added up.
+ */
+
+import {
+  expandDateDisableRules,
+  isDateInDisableRange,
+} from "./dateAvailabilityService";
+import type {
+  DateSurchargeRule,
+  DeliveryCity,
+  DeliveryFee,
+  TimeSlot,
+} from "./types/delivery";
+
+/**
+ * Rounds an amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Finds the highest date surcharge that applies to a date
+ *
+ * Global rules apply to every city, city rules only to their city. Yearly
+ * repeating rules recur on the same month/day every year.
+ *
+ * @param date - The delivery date in YYYY-MM-DD format
+ * @param rules - The shop's date surcharge rules
+ * @param cityId - The selected city ID (undefined = global rules only)
+ * @returns The highest matching rule, or undefined if none applies
+ *
+ * @example
+ * const rules = [{ startDate: "2024-02-14", repeatsYearly: true, amount: 5, label: "Valentine's Day" }];
+ * findDateSurchargeRule("2026-02-14", rules)?.amount // returns 5
+ * findDateSurchargeRule("2026-02-15", rules) // returns undefined
+ */
+export function findDateSurchargeRule<
+  T extends Pick<
+    DateSurchargeRule,
+    "startDate" | "endDate" | "cityId" | "repeatsYearly" | "amount"
+  >,
+>(date: string, rules: T[], cityId?: number): T | undefined {
+  const occurrences = expandDateDisableRules(rules, {
+    startDate: date,
+    endDate: date,
+  });
+
+  let highest: T | undefined;
+
+  for (const rule of occurrences) {
+    const applies = !rule.cityId || rule.cityId === cityId;
+    if (!applies || !isDateInDisableRange(date, rule.startDate, rule.endDate)) {
+      continue;
+    }
+
+    if (!highest || rule.amount > highest.amount) {
+      highest = rule;
+    }
+  }
+
+  return highest;
+}
+
+/**
+ * Calculates the delivery fee for a city, date and slot
+ *
+ * @param city - The selected city (undefined = no base fee)
+ * @param date - The delivery date in YYYY-MM-DD format
+ * @param slot - The selected time slot (undefined = no slot surcharge)
+ * @param dateSurchargeRules - The shop's date surcharge rules
+ * @returns The fee broken down into its parts
+ *
+ * @example
+ * calculateDeliveryFee(
+ *   { ...city, deliveryFee: 5 },
+ *   "2026-02-14",
+ *   { ...eveningSlot, surcharge: 2 },
+ *   [{ startDate: "2024-02-14", repeatsYearly: true, amount: 3, label: "Valentine's Day" }],
+ * )
+ * // returns {
+ * //   baseFee: 5,
+ * //   slotSurcharge: 2,
+ * //   dateSurcharge: 3,
+ * //   dateSurchargeLabel: "Valentine's Day",
+ * //   total: 10,
+ * // }
+ */
+export function calculateDeliveryFee(
+  city: DeliveryCity | undefined,
+  date: string,
+  slot: TimeSlot | undefined,
+  dateSurchargeRules: DateSurchargeRule[],
+): DeliveryFee {
+  const baseFee = city?.deliveryFee ?? 0;
+  const slotSurcharge = slot?.surcharge ?? 0;
+  const dateRule = findDateSurchargeRule(date, dateSurchargeRules, city?.id);
+  const dateSurcharge = dateRule?.amount ?? 0;
+
+  return {
+    baseFee,
+    slotSurcharge,
+    dateSurcharge,
+    dateSurchargeLabel: dateRule?.label,
+    total: roundAmount(baseFee + slotSurcharge + dateSurcharge),
+  };
+}
+
+/**
+ * Formats a fee amount with two decimals
+ *
+ * @param amount - Amount in the shop's currency
+ * @returns The amount as text (e.g. "12.50")
+ */
+export function formatFeeAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/**
+ * Parses a fee amount entered in a form
+ *
+ * @param value - Amount as typed (empty = 0)
+ * @returns The amount rounded to cents, or null if negative or not a number
+ *
+ * @example
+ * parseFeeAmount("4.5") // returns 4.5
+ * parseFeeAmount("") // returns 0
+ * parseFeeAmount("-1") // returns null
+ */
+export function parseFeeAmount(value: string): number | null {
+  if (!value.trim()) {
+    return 0;
+  }
+
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? roundAmount(amount) : null;
+}
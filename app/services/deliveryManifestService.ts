@@ -0,0 +1,207 @@
+/**
+ * Delivery Manifest Service
+ *
+ * Builds the per-day dispatch manifest from bookings, grouped by city and
+ * time slot, and formats it as CSV.
+ *
+ * Groups follow the order of the given cities and slots. Bookings whose
+ * city or slot is unknown (e.g. deleted since the order was placed) are
+ * listed after the known ones.
+ */
+
+import type {
+  DeliveryBooking,
+  DeliveryCity,
+  DeliveryManifest,
+  ManifestCityGroup,
+  ManifestSlotGroup,
+  TimeSlot,
+} from "./types/delivery";
+
+/**
+ * Columns of the manifest CSV export
+ */
+export const MANIFEST_CSV_COLUMNS = [
+  "Date",
+  "City",
+  "Time Slot",
+  "Order",
+  "Customer",
+  "Phone",
+  "Address",
+];
+
+/**
+ * Gets the display name of a city
+ *
+ * @param cityId - The city ID (null if the order had no city)
+ * @param cities - Array of known cities
+ * @returns The city name, or a fallback label
+ */
+function getCityName(cityId: number | null, cities: DeliveryCity[]): string {
+  if (!cityId) return "No city";
+  return cities.find((city) => city.id === cityId)?.name ?? `City #${cityId}`;
+}
+
+/**
+ * Gets the display label of a time slot
+ *
+ * @param timeSlotId - The slot ID (null if the order had no slot)
+ * @param timeSlots - Array of known time slots
+ * @returns The slot label, or a fallback label
+ */
+function getSlotLabel(
+  timeSlotId: number | null,
+  timeSlots: TimeSlot[],
+): string {
+  if (!timeSlotId) return "No time slot";
+
+  const slot = timeSlots.find((s) => s.id === timeSlotId);
+  if (!slot) return `Time slot #${timeSlotId}`;
+  return slot.label || `${slot.startTime} - ${slot.endTime}`;
+}
+
+/**
+ * Sorts IDs by their position in a list, unknown IDs last
+ *
+ * @param ids - IDs to sort
+ * @param order - Known IDs in display order
+ * @returns Sorted copy of the IDs
+ */
+function sortByPosition(
+  ids: Array<number | null>,
+  order: number[],
+): Array<number | null> {
+  const position = (id: number | null) => {
+    const index = id ? order.indexOf(id) : -1;
+    return index === -1 ? order.length + (id ? 0 : 1) : index;
+  };
+
+  return [...ids].sort(
+    (a, b) => position(a) - position(b) || (a ?? 0) - (b ?? 0),
+  );
+}
+
+/**
+ * Builds the delivery manifest for a date
+ *
+ * @param date - Delivery date (YYYY-MM-DD format)
+ * @param bookings - Bookings for the date
+ * @param cities - Cities used for names and ordering
+ * @param timeSlots - Time slots used for labels and ordering
+ * @returns Manifest with bookings grouped by city and time slot
+ *
+ * @example
+ * buildDeliveryManifest("2024-12-25", bookings, cities, timeSlots)
+ * // returns {
+ * //   date: "2024-12-25",
+ * //   totalOrders: 3,
+ * //   cities: [{ cityId: 1, name: "Dhaka", slots: [{ timeSlotId: 2, label: "09:00 - 12:00", bookings: [...] }] }]
+ * // }
+ */
+export function buildDeliveryManifest(
+  date: string,
+  bookings: DeliveryBooking[],
+  cities: DeliveryCity[],
+  timeSlots: TimeSlot[],
+): DeliveryManifest {
+  const bookingsForDate = bookings.filter(
+    (booking) => booking.deliveryDate === date,
+  );
+
+  const cityIds = sortByPosition(
+    [...new Set(bookingsForDate.map((booking) => booking.cityId))],
+    cities.map((city) => city.id),
+  );
+
+  const cityGroups: ManifestCityGroup[] = cityIds.map((cityId) => {
+    const cityBookings = bookingsForDate.filter(
+      (booking) => booking.cityId === cityId,
+    );
+
+    const slotIds = sortByPosition(
+      [...new Set(cityBookings.map((booking) => booking.timeSlotId))],
+      timeSlots.map((slot) => slot.id),
+    );
+
+    const slotGroups: ManifestSlotGroup[] = slotIds.map((timeSlotId) => ({
+      timeSlotId,
+      label: getSlotLabel(timeSlotId, timeSlots),
+      bookings: cityBookings
+        .filter((booking) => booking.timeSlotId === timeSlotId)
+        .sort((a, b) =>
+          (a.orderName ?? a.orderId).localeCompare(
+            b.orderName ?? b.orderId,
+            undefined,
+            { numeric: true },
+          ),
+        ),
+    }));
+
+    return {
+      cityId,
+      name: getCityName(cityId, cities),
+      slots: slotGroups,
+    };
+  });
+
+  return {
+    date,
+    totalOrders: bookingsForDate.length,
+    cities: cityGroups,
+  };
+}
+
+/**
+ * Escapes a value for a CSV cell
+ *
+ * Values starting with =, +, -, @, tab or carriage return are prefixed
+ * with an apostrophe, so spreadsheets do not evaluate customer input
+ * (names, phones, addresses) as formulas. International phone numbers
+ * ("+880 1712 345678") cannot hold a formula and are left as they are.
+ *
+ * @param value - The cell value
+ * @returns The value, quoted if it contains a comma, quote or line break
+ *
+ * @example
+ * escapeCsvValue("=1+1") // returns "'=1+1"
+ * escapeCsvValue("+8801712345678") // returns "+8801712345678"
+ * escapeCsvValue("Road 5, Gulshan") // returns "\"Road 5, Gulshan\""
+ */
+function escapeCsvValue(value: string): string {
+  const isFormula = /^[=+\-@\t\r]/.test(value) && !/^\+[\d ]+$/.test(value);
+  const cell = isFormula ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Formats a manifest as CSV, one row per order
+ *
+ * @param manifest - The delivery manifest
+ * @returns CSV text with a header row
+ *
+ * @example
+ * formatManifestCsv(manifest)
+ * // returns "Date,City,Time Slot,Order,Customer,Phone,Address\r\n2024-12-25,Dhaka,09:00 - 12:00,#1001,..."
+ */
+export function formatManifestCsv(manifest: DeliveryManifest): string {
+  const rows = [MANIFEST_CSV_COLUMNS];
+
+  for (const city of manifest.cities) {
+    for (const slot of city.slots) {
+      for (const booking of slot.bookings) {
+        rows.push([
+          manifest.date,
+          city.name,
+          slot.label,
+          booking.orderName ?? booking.orderId,
+          booking.fullName ?? "",
+          booking.phoneNumber ?? "",
+          booking.deliveryAddress ?? "",
+        ]);
+      }
+    }
+  }
+
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
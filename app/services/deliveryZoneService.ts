@@ -0,0 +1,366 @@
+/**
+ * Delivery Zone Service
+ *
+ * Maps a shipping address to a delivery city. Each city can list postal
+ * codes, postal code prefixes, area (neighbourhood) names and map polygons
+ * (geofences). Matching is case-insensitive and ignores spaces and dashes in
+ * postal codes; polygons match the address's geocoded coordinates.
+ *
+ * When several zones match, the most specific one wins: a polygon, then an
+ * exact postal code, then the longest postal code prefix, then an area name.
+ *
+ * A zone can override its city's cutoff time and slot list, e.g. for a
+ * sub-zone on the edge of town with an earlier cutoff and fewer slots.
+ */
+
+import { parseTime } from "./cityCutoffService";
+import { isPointInPolygons } from "./geoJsonService";
+import type {
+  DeliveryAddress,
+  DeliveryCity,
+  DeliveryZoneDefinition,
+  DeliveryZoneMatchType,
+  TimeSlot,
+} from "./types/delivery";
+
+/**
+ * Zone match types, most specific first
+ */
+export const DELIVERY_ZONE_MATCH_TYPES: DeliveryZoneMatchType[] = [
+  "polygon",
+  "postalCode",
+  "postalPrefix",
+  "area",
+];
+
+/**
+ * Checks if a value is a known zone match type
+ *
+ * @param value - Value to check (e.g. from a form)
+ * @returns True if the value is a DeliveryZoneMatchType
+ */
+export function isDeliveryZoneMatchType(
+  value: unknown,
+): value is DeliveryZoneMatchType {
+  return DELIVERY_ZONE_MATCH_TYPES.includes(value as DeliveryZoneMatchType);
+}
+
+/**
+ * Normalizes a postal code for comparison
+ *
+ * @param value - Postal code as typed
+ * @returns Uppercase postal code without spaces and dashes
+ *
+ * @example
+ * normalizePostalCode("sw1a 1aa") // returns "SW1A1AA"
+ * normalizePostalCode("1216-") // returns "1216"
+ */
+export function normalizePostalCode(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Normalizes an area name for comparison
+ *
+ * @param value - Area name as typed
+ * @returns Lowercase name with single spaces
+ *
+ * @example
+ * normalizeAreaName("  Dhanmondi   R/A ") // returns "dhanmondi r/a"
+ */
+export function normalizeAreaName(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+const ADDRESS_TEXT_FIELDS = ["address1", "address2", "city", "zip"] as const;
+
+/**
+ * Parses a shipping address sent by a client
+ *
+ * Text fields may be strings or finite numbers (e.g. a postal code sent as
+ * a number), which are converted to strings. Latitude and longitude must
+ * be finite numbers. Missing fields and nulls are left out.
+ *
+ * @param value - Address from a request body or query parameter
+ * @returns The address, undefined if none was sent, or null if it is invalid
+ *
+ * @example
+ * parseDeliveryAddress({ zip: 1216 }) // returns { zip: "1216" }
+ * parseDeliveryAddress({ zip: { code: "1216" } }) // returns null
+ * parseDeliveryAddress(null) // returns undefined
+ */
+export function parseDeliveryAddress(
+  value: unknown,
+): DeliveryAddress | null | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const fields = value as Record<string, unknown>;
+  const address: DeliveryAddress = {};
+
+  for (const key of ADDRESS_TEXT_FIELDS) {
+    const field = fields[key];
+    if (typeof field === "string") {
+      address[key] = field;
+    } else if (typeof field === "number" && Number.isFinite(field)) {
+      address[key] = String(field);
+    } else if (field !== null && field !== undefined) {
+      return null;
+    }
+  }
+
+  for (const key of ["latitude", "longitude"] as const) {
+    const field = fields[key];
+    if (typeof field === "number" && Number.isFinite(field)) {
+      address[key] = field;
+    } else if (field !== null && field !== undefined) {
+      return null;
+    }
+  }
+
+  return address;
+}
+
+/**
+ * Largest stored zone geometry, the size of the TEXT column it is saved in
+ */
+const MAX_ZONE_GEOMETRY_BYTES = 65_535;
+
+/**
+ * Validates a delivery zone before it is saved
+ *
+ * Polygon zones are stored as one GeoJSON MultiPolygon, which must fit
+ * MAX_ZONE_GEOMETRY_BYTES.
+ *
+ * @param zone - The zone to validate
+ * @returns Array of error messages (empty if valid)
+ *
+ * @example
+ * validateDeliveryZone({ cityId: 1, matchType: "postalCode", value: " - " })
+ * // returns ["Postal code is required"]
+ */
+export function validateDeliveryZone(zone: DeliveryZoneDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!isDeliveryZoneMatchType(zone.matchType)) {
+    errors.push("Unknown zone type");
+  } else if (zone.matchType === "polygon") {
+    if (!zone.value.trim()) {
+      errors.push("Zone name is required");
+    }
+    if (!zone.polygons?.length) {
+      errors.push("A GeoJSON Polygon or MultiPolygon is required");
+    } else {
+      // Coordinates are plain numbers, so characters are bytes
+      const size = JSON.stringify({
+        type: "MultiPolygon",
+        coordinates: zone.polygons,
+      }).length;
+      if (size > MAX_ZONE_GEOMETRY_BYTES) {
+        errors.push(
+          `The zone shape is too large (${Math.ceil(size / 1024)} KB, max 64 KB). Simplify the polygon and try again.`,
+        );
+      }
+    }
+  } else if (zone.matchType === "area") {
+    if (!normalizeAreaName(zone.value)) {
+      errors.push("Area name is required");
+    }
+  } else if (!normalizePostalCode(zone.value)) {
+    errors.push(
+      zone.matchType === "postalCode"
+        ? "Postal code is required"
+        : "Postal code prefix is required",
+    );
+  }
+
+  if (zone.cutoffTime && !parseTime(zone.cutoffTime)) {
+    errors.push("Cutoff time must be in HH:mm format");
+  }
+
+  return errors;
+}
+
+/**
+ * Ranks how specifically a zone matches an address
+ *
+ * @param zone - The zone to check
+ * @param address - The shipping address
+ * @returns Match rank (higher is more specific), or 0 if the zone does not match
+ */
+function getZoneMatchRank(
+  zone: DeliveryZoneDefinition,
+  address: DeliveryAddress,
+): number {
+  const zip = normalizePostalCode(address.zip ?? "");
+
+  switch (zone.matchType) {
+    case "polygon": {
+      const { latitude, longitude } = address;
+      if (typeof latitude !== "number" || typeof longitude !== "number") {
+        return 0;
+      }
+      // A drawn boundary is more precise than any postal code
+      return isPointInPolygons({ latitude, longitude }, zone.polygons ?? [])
+        ? 10000
+        : 0;
+    }
+    case "postalCode":
+      return zip && zip === normalizePostalCode(zone.value) ? 1000 : 0;
+    case "postalPrefix": {
+      const prefix = normalizePostalCode(zone.value);
+      // Longer prefixes are more specific, and always below an exact code
+      return prefix && zip.startsWith(prefix) ? 100 + prefix.length : 0;
+    }
+    case "area": {
+      const area = normalizeAreaName(zone.value);
+      const names = [address.city, address.address2].map((name) =>
+        normalizeAreaName(name ?? ""),
+      );
+      return area && names.includes(area) ? 1 : 0;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Finds the zone that best matches an address
+ *
+ * @param address - The shipping address
+ * @param zones - The shop's delivery zones
+ * @returns The most specific matching zone, or undefined if none matches
+ */
+export function findDeliveryZone<T extends DeliveryZoneDefinition>(
+  address: DeliveryAddress,
+  zones: T[],
+): T | undefined {
+  let best: T | undefined;
+  let bestRank = 0;
+
+  for (const zone of zones) {
+    const rank = getZoneMatchRank(zone, address);
+    if (rank > bestRank) {
+      best = zone;
+      bestRank = rank;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Resolves the delivery city for a shipping address
+ *
+ * Zones of cities that are not in the list (e.g. inactive cities) are
+ * ignored.
+ *
+ * @param address - The shipping address
+ * @param zones - The shop's delivery zones
+ * @param cities - The shop's active cities
+ * @returns The matching city, or undefined if the address is not served
+ *
+ * @example
+ * const zones = [
+ *   { cityId: 1, matchType: "postalPrefix", value: "12" },
+ *   { cityId: 2, matchType: "postalCode", value: "1216" },
+ *   { cityId: 3, matchType: "area", value: "Gulshan" },
+ * ];
+ *
+ * resolveDeliveryCity({ zip: "1216" }, zones, cities) // returns city 2
+ * resolveDeliveryCity({ zip: "1209" }, zones, cities) // returns city 1
+ * resolveDeliveryCity({ city: "gulshan" }, zones, cities) // returns city 3
+ * resolveDeliveryCity({ zip: "4000" }, zones, cities) // returns undefined
+ */
+export function resolveDeliveryCity(
+  address: DeliveryAddress,
+  zones: DeliveryZoneDefinition[],
+  cities: DeliveryCity[],
+): DeliveryCity | undefined {
+  const cityIds = new Set(cities.map((city) => city.id));
+  const zone = findDeliveryZone(
+    address,
+    zones.filter((z) => cityIds.has(z.cityId)),
+  );
+
+  return zone ? cities.find((city) => city.id === zone.cityId) : undefined;
+}
+
+/**
+ * Applies a zone's cutoff time and slot list to its city
+ *
+ * The zone's cutoff replaces the city's cutoff and weekday schedule, and
+ * its slots replace the city's assigned slots. Pass the result as the city
+ * to getAvailableSlots and getEarliestDelivery.
+ *
+ * @param city - The zone's city
+ * @param zone - The zone the address is in (undefined = no overrides)
+ * @param timeSlots - The shop's time slots
+ * @returns The city with the zone's overrides applied
+ *
+ * @example
+ * applyDeliveryZoneOverrides(
+ *   { ...city, cutoffTime: "14:00" },
+ *   { cityId: 1, matchType: "polygon", value: "Outskirts", cutoffTime: "11:00", timeSlotIds: [1] },
+ *   timeSlots,
+ * )
+ * // returns { ...city, cutoffTime: "11:00", weekdayCutoffTimes: undefined, timeSlots: [slot 1] }
+ */
+export function applyDeliveryZoneOverrides(
+  city: DeliveryCity,
+  zone: DeliveryZoneDefinition | undefined,
+  timeSlots: TimeSlot[],
+): DeliveryCity {
+  if (!zone || zone.cityId !== city.id) {
+    return city;
+  }
+
+  const overridden = { ...city };
+
+  if (zone.cutoffTime) {
+    overridden.cutoffTime = zone.cutoffTime;
+    overridden.weekdayCutoffTimes = undefined;
+  }
+
+  if (zone.timeSlotIds?.length) {
+    overridden.timeSlots = timeSlots.filter((slot) =>
+      zone.timeSlotIds?.includes(slot.id),
+    );
+  }
+
+  return overridden;
+}
+
+/**
+ * Gets a city with the overrides of the zone an address is in
+ *
+ * Only the city's own zones are considered, so an address outside the
+ * city leaves it unchanged (resolveDeliveryCity reports the mismatch).
+ *
+ * @param city - The selected city
+ * @param address - The shipping address (undefined = no overrides)
+ * @param zones - The shop's delivery zones
+ * @param timeSlots - The shop's time slots
+ * @returns The city with its matching zone's overrides applied
+ */
+export function getCityForAddress(
+  city: DeliveryCity,
+  address: DeliveryAddress | undefined,
+  zones: DeliveryZoneDefinition[],
+  timeSlots: TimeSlot[],
+): DeliveryCity {
+  if (!address) {
+    return city;
+  }
+
+  const zone = findDeliveryZone(
+    address,
+    zones.filter((z) => z.cityId === city.id),
+  );
+
+  return applyDeliveryZoneOverrides(city, zone, timeSlots);
+}
@@ -0,0 +1,202 @@
+/**
+ * GeoJSON Service
+ *
+ * Reads polygons from GeoJSON and checks if a point lies inside them, for
+ * polygon delivery zones. Positions are [longitude, latitude] as in
+ * GeoJSON; the first ring of a polygon is its outer boundary and any
+ * further rings are holes.
+ *
+ * Distances are small enough within a city that coordinates are treated
+ * as planar.
+ */
+
+import type { GeoBounds, GeoPoint, GeoPolygon } from "./types/delivery";
+
+/**
+ * Checks if a value is a GeoJSON position with valid coordinates
+ */
+function isPosition(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === "number" &&
+    typeof value[1] === "number" &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+/**
+ * Reads a polygon's coordinates, or null if a ring is invalid
+ */
+function toPolygon(coordinates: unknown): GeoPolygon | null {
+  if (!Array.isArray(coordinates) || coordinates.length === 0) {
+    return null;
+  }
+
+  const rings = coordinates.map((ring) =>
+    Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition)
+      ? ring.map(([lng, lat]: number[]) => [lng, lat])
+      : null,
+  );
+
+  return rings.every((ring) => ring !== null) ? (rings as GeoPolygon) : null;
+}
+
+/**
+ * Collects the polygons of a GeoJSON object
+ */
+function collectPolygons(geoJson: unknown): GeoPolygon[] | null {
+  if (!geoJson || typeof geoJson !== "object") {
+    return null;
+  }
+
+  const object = geoJson as {
+    type?: string;
+    coordinates?: unknown;
+    geometry?: unknown;
+    features?: unknown;
+    geometries?: unknown;
+  };
+
+  switch (object.type) {
+    case "Polygon": {
+      const polygon = toPolygon(object.coordinates);
+      return polygon ? [polygon] : null;
+    }
+    case "MultiPolygon": {
+      if (!Array.isArray(object.coordinates)) return null;
+      const polygons = object.coordinates.map(toPolygon);
+      return polygons.every((polygon) => polygon !== null)
+        ? (polygons as GeoPolygon[])
+        : null;
+    }
+    case "Feature":
+      return collectPolygons(object.geometry);
+    case "FeatureCollection":
+    case "GeometryCollection": {
+      const members =
+        object.type === "FeatureCollection"
+          ? object.features
+          : object.geometries;
+      if (!Array.isArray(members)) return null;
+      const polygons = members.map(collectPolygons);
+      return polygons.every((list) => list !== null)
+        ? (polygons as GeoPolygon[][]).flat()
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses the polygons of a GeoJSON document
+ *
+ * Accepts a Polygon or MultiPolygon geometry, a Feature, or a
+ * FeatureCollection of them (e.g. exported from geojson.io).
+ *
+ * @param json - GeoJSON text
+ * @returns The polygons, or null if the text is not valid polygon GeoJSON
+ *
+ * @example
+ * parseGeoJsonPolygons('{"type":"Polygon","coordinates":[[[90.4,23.7],[90.5,23.7],[90.5,23.8],[90.4,23.7]]]}')
+ * // returns [[[[90.4, 23.7], [90.5, 23.7], [90.5, 23.8], [90.4, 23.7]]]]
+ * parseGeoJsonPolygons('{"type":"Point","coordinates":[90.4,23.7]}')
+ * // returns null
+ */
+export function parseGeoJsonPolygons(json: string): GeoPolygon[] | null {
+  try {
+    const polygons = collectPolygons(JSON.parse(json));
+    return polygons && polygons.length > 0 ? polygons : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the bounding box of polygons
+ *
+ * @param polygons - GeoJSON polygon coordinates
+ * @returns [west, south, east, north], or null if there are no positions
+ *
+ * @example
+ * getPolygonBounds([[[[90.4, 23.7], [90.5, 23.7], [90.5, 23.8], [90.4, 23.7]]]])
+ * // returns [90.4, 23.7, 90.5, 23.8]
+ */
+export function getPolygonBounds(polygons: GeoPolygon[]): GeoBounds | null {
+  // Holes lie inside the outer ring, so only outer rings count
+  const positions = polygons.flatMap(([outer]) => outer ?? []);
+  if (positions.length === 0) {
+    return null;
+  }
+
+  return positions.reduce<GeoBounds>(
+    ([west, south, east, north], [longitude, latitude]) => [
+      Math.min(west, longitude),
+      Math.min(south, latitude),
+      Math.max(east, longitude),
+      Math.max(north, latitude),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity],
+  );
+}
+
+/**
+ * Checks if a point lies inside a ring, using ray casting
+ */
+function isPointInRing(point: GeoPoint, ring: number[][]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (
+      yi > point.latitude !== yj > point.latitude &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Checks if a point lies inside a polygon and outside its holes
+ *
+ * @param point - The point to check
+ * @param polygon - GeoJSON polygon coordinates
+ * @returns True if the point is inside the polygon
+ *
+ * @example
+ * const square = [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]];
+ * isPointInPolygon({ latitude: 5, longitude: 5 }, square) // returns true
+ * isPointInPolygon({ latitude: 15, longitude: 5 }, square) // returns false
+ */
+export function isPointInPolygon(
+  point: GeoPoint,
+  polygon: GeoPolygon,
+): boolean {
+  const [outer, ...holes] = polygon;
+
+  return (
+    isPointInRing(point, outer) &&
+    !holes.some((hole) => isPointInRing(point, hole))
+  );
+}
+
+/**
+ * Checks if a point lies inside any of a zone's polygons
+ *
+ * @param point - The point to check
+ * @param polygons - GeoJSON polygon coordinates
+ * @returns True if the point is inside one of the polygons
+ */
+export function isPointInPolygons(
+  point: GeoPoint,
+  polygons: GeoPolygon[],
+): boolean {
+  return polygons.some((polygon) => isPointInPolygon(point, polygon));
+}
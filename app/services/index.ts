@@ -8,28 +8,109 @@
 
 // Types
 export type {
+  CarrierRate,
+  CarrierRateAddress,
+  CarrierRateRequest,
   CartProduct,
+  CartVariantLine,
+  CartDelayOptions,
   CheckoutFields,
+  CheckoutRuleError,
+  CheckoutRuleErrorCode,
+  CheckoutRuleSet,
+  CheckoutRuleValidationResult,
   CheckoutValidationResult,
+  DateAvailabilityResult,
+  DateDisableRule,
+  DateSurchargeRule,
+  DateWindow,
+  DelayStrategy,
+  DelayTagDefinition,
+  DelayTagMatchType,
+  DelayTagRule,
+  DeliveryAddress,
+  DeliveryAttributes,
+  DeliveryAvailability,
+  DeliveryBooking,
   DeliveryCity,
   DeliveryConfig,
+  DeliveryFee,
+  DeliveryManifest,
+  DeliverySettings,
+  DeliveryZone,
+  DeliveryZoneDefinition,
+  DeliveryZoneMatchType,
+  EarliestDelivery,
+  EarliestSlotStart,
+  FulfillmentMode,
+  GeoBounds,
+  GeoPoint,
+  GeoPolygon,
+  LeadTime,
+  ManifestCityGroup,
+  ManifestSlotGroup,
+  OpeningHours,
+  OrderPayload,
+  PickupLocation,
+  ProductionCalendar,
+  ProductionClosure,
+  ProductPrepTime,
+  QuantityDelayTier,
+  QuantityDelayTierDefinition,
+  SlotAvailabilityOptions,
   SlotAvailabilityResult,
+  SlotBookingCount,
+  SlotCapacityContext,
+  SlotCapacityRule,
+  SlotCapacityStatus,
   SlotDisableRule,
+  SpecialCityRules,
+  StorefrontSelectors,
   TimeSlot,
+  WeekdayDisableRule,
 } from "./types/delivery";
 
 // Cart Delay Calculator
 export {
   calculateCartDelay,
+  calculateCartLeadTime,
+  DEFAULT_DELAY_TAG_RULES,
+  DELAY_STRATEGIES,
+  getDelayTags,
   getProductDelay,
+  getProductLeadTime,
+  getQuantityDelay,
+  isDelayStrategy,
+  parseCartLines,
+  parseCartVariantLines,
   parseDelayFromTag,
+  parseLeadTimeFromTag,
+  parsePrepDays,
+  PREP_DAYS_METAFIELD,
+  validateDelayTagRule,
+  validateQuantityDelayTier,
 } from "./cartDelayCalculator";
 
+// Timezone Service
+export {
+  DEFAULT_TIMEZONE,
+  getZonedDateString,
+  getZonedDateTime,
+  isValidTimezone,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from "./timezoneService";
+
 // Date Availability Service
 export {
   addDays,
+  addDaysToDateString,
+  expandDateDisableRules,
+  findDateDisableRule,
+  findWeekdayDisableRule,
   formatDateToString,
   getAvailableDates,
+  getDayOfWeek,
   isDateAvailable,
   normalizeDate,
   normalizeDisabledDates,
@@ -44,17 +125,127 @@ export {
   isSlotAvailable,
 } from "./slotAvailabilityService";
 
+// Slot Capacity Service
+export {
+  countSlotBookings,
+  getSlotCapacityStatus,
+} from "./slotCapacityService";
+
+// Delivery Manifest Service
+export {
+  buildDeliveryManifest,
+  formatManifestCsv,
+  MANIFEST_CSV_COLUMNS,
+} from "./deliveryManifestService";
+
 // City Cutoff Service
 export {
   getCityCutoffTime,
+  getEarliestDelivery,
   getMinimumDeliveryDate,
   getMinimumDeliveryDateString,
+  getSameDayBufferMinutes,
   getTimeUntilCutoff,
   isBeforeCutoff,
+  isPastSlotCutoff,
   isSameDayDeliveryAvailable,
+  isTooLateForSlotToday,
   parseTime,
+  startsAfterEarliest,
 } from "./cityCutoffService";
 
+// Production Calendar Service
+export {
+  addProductionDays,
+  ALL_WEEKDAYS,
+  DEFAULT_PRODUCTION_CALENDAR,
+  isProductionDay,
+} from "./productionCalendarService";
+
+// Delivery Zone Service
+export {
+  applyDeliveryZoneOverrides,
+  DELIVERY_ZONE_MATCH_TYPES,
+  findDeliveryZone,
+  getCityForAddress,
+  isDeliveryZoneMatchType,
+  normalizeAreaName,
+  normalizePostalCode,
+  parseDeliveryAddress,
+  resolveDeliveryCity,
+  validateDeliveryZone,
+} from "./deliveryZoneService";
+
+// GeoJSON Service
+export {
+  getPolygonBounds,
+  isPointInPolygon,
+  isPointInPolygons,
+  parseGeoJsonPolygons,
+} from "./geoJsonService";
+
+// Special City Service
+export {
+  applySpecialCityMinimumDate,
+  describeSpecialCityRules,
+  getSpecialCityRules,
+  isSlotAllowedInCity,
+  isWeekdayAllowedInCity,
+} from "./specialCityService";
+
+// Pickup Location Service
+export {
+  FULFILLMENT_MODES,
+  getClosedWeekdays,
+  getFulfillmentConfig,
+  getOpeningHoursSlotIds,
+  getPickupConfig,
+  isFulfillmentMode,
+  isSlotWithinOpeningHours,
+  parseFulfillmentMode,
+  toPickupCity,
+} from "./pickupLocationService";
+
+// Delivery Fee Service
+export {
+  calculateDeliveryFee,
+  findDateSurchargeRule,
+  formatFeeAmount,
+  parseFeeAmount,
+} from "./deliveryFeeService";
+
+// Delivery Availability Service
+export {
+  DEFAULT_DAYS_TO_SHOW,
+  getDeliveryAvailability,
+} from "./deliveryAvailabilityService";
+
+// Carrier Rate Service
+export {
+  buildCarrierRates,
+  CARRIER_RATE_DAYS,
+  formatCarrierServiceCode,
+  parseCarrierServiceCode,
+  resolveAddressCity,
+  toDeliveryAddress,
+} from "./carrierRateService";
+
+// Checkout Rule Validator Service
+export { validateCheckoutAgainstConfig } from "./checkoutRuleValidator";
+
+// Checkout Rule Set Service
+export {
+  buildCheckoutRuleSet,
+  CHECKOUT_RULE_SET_VERSION,
+  CHECKOUT_RULES_METAFIELD,
+} from "./checkoutRuleSetService";
+
+// Cart Attribute Service
+export {
+  DELIVERY_ATTRIBUTE_KEYS,
+  parseDeliveryAttributes,
+} from "./cartAttributeService";
+
 // Checkout Eligibility Validator
 export {
   createEmptyCheckoutFields,
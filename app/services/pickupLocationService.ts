@@ -0,0 +1,246 @@
+/**
+ * Pickup Location Service
+ *
+ * Lets customers collect their order from a shop instead of having it
+ * delivered. Pickup locations have their own slots, cutoff, opening hours
+ * and disable rules; none of the delivery rules (city rules, capacity,
+ * zones, fees) apply to them.
+ *
+ * getPickupConfig turns the locations into cities of a pickup-only
+ * configuration, so the same availability and validation services serve
+ * both fulfillment modes.
+ */
+
+import { getDayOfWeek } from "./dateAvailabilityService";
+import { ALL_WEEKDAYS } from "./productionCalendarService";
+import type {
+  DeliveryCity,
+  DeliveryConfig,
+  FulfillmentMode,
+  OpeningHours,
+  PickupLocation,
+  TimeSlot,
+  WeekdayDisableRule,
+} from "./types/delivery";
+
+/**
+ * Supported fulfillment modes, the first being the default
+ */
+export const FULFILLMENT_MODES: FulfillmentMode[] = ["delivery", "pickup"];
+
+/**
+ * Checks if a value is a supported fulfillment mode
+ */
+export function isFulfillmentMode(value: unknown): value is FulfillmentMode {
+  return FULFILLMENT_MODES.includes(value as FulfillmentMode);
+}
+
+/**
+ * Parses a fulfillment mode, defaulting to delivery
+ *
+ * @param value - Raw value (e.g. a cart attribute)
+ * @returns The fulfillment mode
+ *
+ * @example
+ * parseFulfillmentMode(" Pickup ") // returns "pickup"
+ * parseFulfillmentMode(undefined) // returns "delivery"
+ */
+export function parseFulfillmentMode(
+  value: string | null | undefined,
+): FulfillmentMode {
+  const mode = (value ?? "").trim().toLowerCase();
+  return isFulfillmentMode(mode) ? mode : "delivery";
+}
+
+/**
+ * Checks if a slot falls within a city's opening hours on a date
+ *
+ * @param slot - The time slot to check
+ * @param date - The date in YYYY-MM-DD format
+ * @param city - The selected city (undefined if no city selected)
+ * @returns False only if the city has opening hours and the slot starts
+ *   before opening or ends after closing, or the city is closed that day
+ *
+ * @example
+ * const city = { ...store, openingHours: { 1: { openTime: "10:00", closeTime: "18:00" } } };
+ * isSlotWithinOpeningHours({ ...slot, startTime: "10:00", endTime: "12:00" }, "2024-12-23", city) // returns true (Monday)
+ * isSlotWithinOpeningHours({ ...slot, startTime: "18:00", endTime: "20:00" }, "2024-12-23", city) // returns false
+ */
+export function isSlotWithinOpeningHours(
+  slot: Pick<TimeSlot, "startTime" | "endTime">,
+  date: string,
+  city?: DeliveryCity,
+): boolean {
+  if (!city?.openingHours) {
+    return true;
+  }
+
+  return isSlotWithinHours(slot, city.openingHours[getDayOfWeek(date)]);
+}
+
+/**
+ * Checks if a slot starts and ends within a day's opening hours
+ */
+function isSlotWithinHours(
+  slot: Pick<TimeSlot, "startTime" | "endTime">,
+  hours: OpeningHours | undefined,
+): boolean {
+  return (
+    !!hours &&
+    slot.startTime >= hours.openTime &&
+    slot.endTime <= hours.closeTime
+  );
+}
+
+/**
+ * Gets the slots within a location's opening hours on each weekday
+ *
+ * @param openingHours - Opening hours by weekday
+ * @param slots - Slots to check
+ * @returns Slot IDs by weekday, 0 = Sunday ... 6 = Saturday (empty on
+ *   closed days), or undefined if the location has no opening hours
+ *
+ * @example
+ * getOpeningHoursSlotIds({ 1: { openTime: "10:00", closeTime: "18:00" } }, slots)
+ * // returns { 0: [], 1: [1, 2], 2: [], ... }
+ */
+export function getOpeningHoursSlotIds(
+  openingHours: Record<number, OpeningHours>,
+  slots: TimeSlot[],
+): Record<number, number[]> | undefined {
+  if (Object.keys(openingHours).length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    ALL_WEEKDAYS.map((day) => [
+      day,
+      slots
+        .filter((slot) => isSlotWithinHours(slot, openingHours[day]))
+        .map((slot) => slot.id),
+    ]),
+  );
+}
+
+/**
+ * Gets the weekdays a location is closed on
+ *
+ * @param openingHours - Opening hours by weekday
+ * @returns Closed weekdays, 0 = Sunday ... 6 = Saturday (empty if the
+ *   location has no opening hours, i.e. is open every day)
+ */
+export function getClosedWeekdays(
+  openingHours: Record<number, OpeningHours>,
+): number[] {
+  if (Object.keys(openingHours).length === 0) {
+    return [];
+  }
+
+  return ALL_WEEKDAYS.filter((day) => !openingHours[day]);
+}
+
+/**
+ * Removes a slot's delivery surcharge, which does not apply to pickup
+ */
+function withoutSurcharge(slot: TimeSlot): TimeSlot {
+  return { ...slot, surcharge: 0 };
+}
+
+/**
+ * Converts a pickup location to the city it stands for in the pickup
+ * configuration
+ *
+ * @param location - The pickup location
+ * @returns A city with the location's ID, cutoff, slots and opening hours,
+ *   and no delivery fee
+ */
+export function toPickupCity(location: PickupLocation): DeliveryCity {
+  const hasOpeningHours = Object.keys(location.openingHours).length > 0;
+
+  return {
+    id: location.id,
+    name: location.name,
+    shop: location.shop,
+    isActive: location.isActive,
+    isSpecial: false,
+    cutoffTime: location.cutoffTime,
+    sameDayBufferMinutes: location.sameDayBufferMinutes,
+    deliveryFee: 0,
+    timeSlots: location.timeSlots?.map(withoutSurcharge),
+    openingHours: hasOpeningHours ? location.openingHours : undefined,
+  };
+}
+
+/**
+ * Builds the configuration used for pickup orders
+ *
+ * Pickup locations take the place of cities, keyed by location ID, and
+ * only their own rules apply: closures and slot rules of the location,
+ * plus its closed weekdays. Delivery capacity, zones and fees are left
+ * out.
+ *
+ * @param config - Delivery configuration for the shop
+ * @returns Configuration whose cities are the pickup locations
+ *
+ * @example
+ * const pickup = getPickupConfig(config);
+ * getDeliveryAvailability(pickup, products, storeId, new Date());
+ */
+export function getPickupConfig(config: DeliveryConfig): DeliveryConfig {
+  const { pickupLocations } = config;
+
+  const closedWeekdayRules = pickupLocations.flatMap(
+    (location): WeekdayDisableRule[] => {
+      const daysOfWeek = getClosedWeekdays(location.openingHours);
+      return daysOfWeek.length > 0
+        ? [
+            {
+              id: 0,
+              shop: location.shop,
+              cityId: location.id,
+              daysOfWeek,
+              reason: "Closed",
+            },
+          ]
+        : [];
+    },
+  );
+
+  return {
+    ...config,
+    cities: pickupLocations.map(toPickupCity),
+    timeSlots: config.timeSlots.map(withoutSurcharge),
+    dateDisableRules: pickupLocations.flatMap((location) =>
+      location.dateDisableRules.map((rule) => ({
+        ...rule,
+        cityId: location.id,
+      })),
+    ),
+    weekdayDisableRules: closedWeekdayRules,
+    slotDisableRules: pickupLocations.flatMap((location) =>
+      location.slotDisableRules.map((rule) => ({
+        ...rule,
+        cityId: location.id,
+      })),
+    ),
+    slotCapacity: undefined,
+    slotCapacityRules: [],
+    deliveryZones: [],
+    dateSurchargeRules: [],
+  };
+}
+
+/**
+ * Gets the configuration for a fulfillment mode
+ *
+ * @param config - Delivery configuration for the shop
+ * @param fulfillmentMode - Delivery or pickup
+ * @returns The configuration itself for delivery, the pickup
+ *   configuration for pickup
+ */
+export function getFulfillmentConfig(
+  config: DeliveryConfig,
+  fulfillmentMode: FulfillmentMode,
+): DeliveryConfig {
+  return fulfillmentMode === "pickup" ? getPickupConfig(config) : config;
+}
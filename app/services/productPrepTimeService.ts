@@ -0,0 +1,184 @@
+/**
+ * Product Prep Time Service
+ *
+ * Reads and writes the `delivery.prep_days` metafield on products through
+ * the Admin API, for the product preparation time page.
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { parsePrepDays, PREP_DAYS_METAFIELD } from "./cartDelayCalculator";
+import type { ProductPrepTime } from "./types/delivery";
+
+/**
+ * Products shown per page
+ */
+const PRODUCTS_PAGE_SIZE = 25;
+
+/**
+ * Variants checked for overrides per product. Each variant's metafield
+ * counts towards the query cost, so 25 products with 10 variants each
+ * stay well under the Admin API's 1,000 point limit.
+ */
+const VARIANTS_PAGE_SIZE = 10;
+
+/**
+ * Most metafields metafieldsSet and metafieldsDelete accept per call
+ */
+const METAFIELDS_BATCH_SIZE = 25;
+
+const PRODUCT_PREP_TIMES_QUERY = `#graphql
+  query ProductPrepTimes(
+    $first: Int!
+    $variantsFirst: Int!
+    $after: String
+    $query: String
+    $namespace: String!
+    $key: String!
+  ) {
+    products(first: $first, after: $after, query: $query, sortKey: TITLE) {
+      nodes {
+        id
+        title
+        tags
+        metafield(namespace: $namespace, key: $key) {
+          value
+        }
+        variants(first: $variantsFirst) {
+          nodes {
+            id
+            title
+            metafield(namespace: $namespace, key: $key) {
+              value
+            }
+          }
+          pageInfo {
+            hasNextPage
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const PREP_DAYS_SET_MUTATION = `#graphql
+  mutation SetPrepDays($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const PREP_DAYS_DELETE_MUTATION = `#graphql
+  mutation DeletePrepDays($metafields: [MetafieldIdentifierInput!]!) {
+    metafieldsDelete(metafields: $metafields) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+type MetafieldNode = { value: string } | null;
+
+type ProductNode = {
+  id: string;
+  title: string;
+  tags: string[];
+  metafield: MetafieldNode;
+  variants: {
+    nodes: Array<{ id: string; title: string; metafield: MetafieldNode }>;
+    pageInfo: { hasNextPage: boolean };
+  };
+};
+
+/**
+ * Load a page of products with their preparation days
+ *
+ * Only the first variants of each product are checked for overrides
+ * (see hasMoreVariants).
+ *
+ * @param admin - Admin API context
+ * @param options - Search query and cursor of the previous page
+ * @returns Products and the cursor of the next page (null on the last page)
+ */
+export async function loadProductPrepTimes(
+  admin: AdminApiContext,
+  options: { query?: string; after?: string } = {},
+): Promise<{ products: ProductPrepTime[]; nextCursor: string | null }> {
+  const response = await admin.graphql(PRODUCT_PREP_TIMES_QUERY, {
+    variables: {
+      first: PRODUCTS_PAGE_SIZE,
+      variantsFirst: VARIANTS_PAGE_SIZE,
+      after: options.after || null,
+      query: options.query || null,
+      namespace: PREP_DAYS_METAFIELD.namespace,
+      key: PREP_DAYS_METAFIELD.key,
+    },
+  });
+  const { data } = await response.json();
+
+  const products = (data.products.nodes as ProductNode[]).map((product) => ({
+    id: product.id,
+    title: product.title,
+    tags: product.tags,
+    prepDays: parsePrepDays(product.metafield?.value),
+    variantOverrides: product.variants.nodes.flatMap((variant) => {
+      const prepDays = parsePrepDays(variant.metafield?.value);
+      return prepDays === undefined
+        ? []
+        : [{ id: variant.id, title: variant.title, prepDays }];
+    }),
+    hasMoreVariants: product.variants.pageInfo.hasNextPage,
+  }));
+
+  const { hasNextPage, endCursor } = data.products.pageInfo;
+
+  return { products, nextCursor: hasNextPage ? endCursor : null };
+}
+
+/**
+ * Set or clear the preparation days of products
+ *
+ * @param admin - Admin API context
+ * @param productIds - Product GIDs to update
+ * @param prepDays - Days to set, or null to remove the metafield
+ * @throws Error if Shopify rejects the metafields
+ */
+export async function saveProductPrepDays(
+  admin: AdminApiContext,
+  productIds: string[],
+  prepDays: number | null,
+): Promise<void> {
+  for (let i = 0; i < productIds.length; i += METAFIELDS_BATCH_SIZE) {
+    const metafields = productIds
+      .slice(i, i + METAFIELDS_BATCH_SIZE)
+      .map((ownerId) => ({
+        ownerId,
+        namespace: PREP_DAYS_METAFIELD.namespace,
+        key: PREP_DAYS_METAFIELD.key,
+        ...(prepDays === null
+          ? {}
+          : { type: "number_integer", value: String(prepDays) }),
+      }));
+
+    const response = await admin.graphql(
+      prepDays === null ? PREP_DAYS_DELETE_MUTATION : PREP_DAYS_SET_MUTATION,
+      { variables: { metafields } },
+    );
+    const { data } = await response.json();
+    const result =
+      prepDays === null ? data?.metafieldsDelete : data?.metafieldsSet;
+    const [error] = result?.userErrors ?? [];
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
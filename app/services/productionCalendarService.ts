@@ -0,0 +1,95 @@
+/**
+ * Production Calendar Service
+ *
+ * Counts preparation days on the kitchen's working days only. The
+ * production calendar is separate from the delivery disable rules: a shop
+ * can deliver on a day the kitchen is closed (orders prepared the day
+ * before), and prepare on a day it does not deliver.
+ */
+
+import { addDaysToDateString, getDayOfWeek } from "./dateAvailabilityService";
+import type { ProductionCalendar } from "./types/delivery";
+
+/**
+ * All weekdays, 0 = Sunday ... 6 = Saturday
+ */
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Calendar of a kitchen that works every day, used when a shop has not
+ * set one up
+ */
+export const DEFAULT_PRODUCTION_CALENDAR: ProductionCalendar = {
+  workingDays: ALL_WEEKDAYS,
+  closures: [],
+};
+
+/**
+ * How far ahead to look for working days before giving up, so a calendar
+ * without any working day cannot loop forever
+ */
+const MAX_SEARCH_DAYS = 730;
+
+/**
+ * Checks if the kitchen works on a date
+ *
+ * @param date - The date in YYYY-MM-DD format
+ * @param calendar - The shop's production calendar
+ * @returns True if the weekday is a working day and no closure covers the date
+ *
+ * @example
+ * const calendar = { workingDays: [0, 1, 2, 3, 4], closures: [] };
+ * isProductionDay("2024-12-26", calendar) // returns true (Thursday)
+ * isProductionDay("2024-12-27", calendar) // returns false (Friday)
+ */
+export function isProductionDay(
+  date: string,
+  calendar: ProductionCalendar,
+): boolean {
+  if (!calendar.workingDays.includes(getDayOfWeek(date))) {
+    return false;
+  }
+
+  return !calendar.closures.some(
+    (closure) =>
+      date >= closure.startDate &&
+      date <= (closure.endDate ?? closure.startDate),
+  );
+}
+
+/**
+ * Adds preparation days, counting only the kitchen's working days
+ *
+ * The start date is the first day preparation can happen. Each working day
+ * from there on counts as one day of preparation, and delivery is possible
+ * on the day after the last one. Without a delay the start date is returned
+ * as is, since delivery itself does not need the kitchen.
+ *
+ * @param startDate - First possible preparation day (YYYY-MM-DD format)
+ * @param days - Preparation days needed
+ * @param calendar - The shop's production calendar
+ * @returns Earliest delivery date in YYYY-MM-DD format
+ *
+ * @example
+ * // Kitchen closed on Friday and Saturday, 2 day cake ordered on Thursday
+ * const calendar = { workingDays: [0, 1, 2, 3, 4], closures: [] };
+ * addProductionDays("2024-12-26", 2, calendar)
+ * // returns "2024-12-30" (prepared Thursday and Sunday, delivered Monday)
+ */
+export function addProductionDays(
+  startDate: string,
+  days: number,
+  calendar: ProductionCalendar = DEFAULT_PRODUCTION_CALENDAR,
+): string {
+  let date = startDate;
+  let remaining = days;
+
+  for (let i = 0; remaining > 0 && i < MAX_SEARCH_DAYS; i++) {
+    if (isProductionDay(date, calendar)) {
+      remaining--;
+    }
+    date = addDaysToDateString(date, 1);
+  }
+
+  return date;
+}
@@ -0,0 +1,74 @@
+/**
+ * Shop Timezone Service
+ *
+ * Loads the shop's IANA timezone from the Shopify Shop resource and
+ * stores it in Settings, so delivery calculations use the store's
+ * wall-clock time instead of the server's.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { saveSettings } from "./deliveryConfigService";
+import { isValidTimezone } from "./timezoneService";
+
+const SHOP_TIMEZONE_QUERY = `#graphql
+  query ShopTimezone {
+    shop {
+      ianaTimezone
+    }
+  }
+`;
+
+/**
+ * Fetch the shop's IANA timezone from the Admin API
+ *
+ * @param admin - Admin API context
+ * @returns The timezone (e.g. "Asia/Dhaka"), or null if unavailable
+ */
+export async function fetchShopTimezone(
+  admin: AdminApiContext,
+): Promise<string | null> {
+  const response = await admin.graphql(SHOP_TIMEZONE_QUERY);
+  const { data } = await response.json();
+  const timezone = data?.shop?.ianaTimezone ?? null;
+
+  return isValidTimezone(timezone) ? timezone : null;
+}
+
+/**
+ * Save a timezone to the shop's settings if it is valid
+ *
+ * @param prisma - Prisma client instance
+ * @param shop - The shop domain
+ * @param timezone - IANA timezone name
+ * @returns The saved timezone, or null if it was invalid
+ */
+export async function saveShopTimezone(
+  prisma: PrismaClient,
+  shop: string,
+  timezone: string | null | undefined,
+): Promise<string | null> {
+  if (!timezone || !isValidTimezone(timezone)) {
+    return null;
+  }
+
+  await saveSettings(prisma, shop, { timezone });
+  return timezone;
+}
+
+/**
+ * Fetch the shop's timezone from Shopify and store it in Settings
+ *
+ * @param prisma - Prisma client instance
+ * @param admin - Admin API context
+ * @param shop - The shop domain
+ * @returns The synced timezone, or null if it could not be loaded
+ */
+export async function syncShopTimezone(
+  prisma: PrismaClient,
+  admin: AdminApiContext,
+  shop: string,
+): Promise<string | null> {
+  const timezone = await fetchShopTimezone(admin);
+  return saveShopTimezone(prisma, shop, timezone);
+}
@@ -4,13 +4,37 @@
  * Determines which time slots are available based on disable rules.
  * Rules are applied in priority order:
  * 1. Slot inactivity (slot.isActive === false)
- * 2. Date-range disable (rule with matching startDate/endDate range)
- * 3. City+date-range disable (rule with cityId and matching date range)
+ * 2. City assignment (slot not assigned to the selected city)
+ * 3. Special city restrictions (slot outside the city's slot subset, or a
+ *    weekday the city does not deliver on)
+ * 4. Opening hours (slot outside a pickup location's hours that day)
+ * 5. Date-range disable (rule with matching startDate/endDate range)
+ * 6. City+date-range disable (rule with cityId and matching date range)
+ * 7. Slot cutoff (the slot's own order deadline for the date has passed,
+ *    only checked if the current time is provided)
+ * 8. Same-day buffer (today's slot starts too soon, only checked if the
+ *    current time is provided)
+ * 9. Lead time (slot starts before the cart is ready, only checked if an
+ *    earliest start is provided)
+ * 10. Capacity (slot is fully booked, only checked if capacity is provided)
  *
  * A slot is disabled if ANY applicable rule disables it during the selected date.
  */
 
+import {
+  isPastSlotCutoff,
+  isTooLateForSlotToday,
+  startsAfterEarliest,
+} from "./cityCutoffService";
+import { isSlotWithinOpeningHours } from "./pickupLocationService";
+import { getSlotCapacityStatus } from "./slotCapacityService";
+import {
+  isSlotAllowedInCity,
+  isWeekdayAllowedInCity,
+} from "./specialCityService";
 import type {
+  DeliveryCity,
+  SlotAvailabilityOptions,
   SlotAvailabilityResult,
   SlotDisableRule,
   TimeSlot,
@@ -50,6 +74,51 @@ function checkSlotActive(slot: TimeSlot): {
   return { disabled: false };
 }
 
+/**
+ * Checks if a slot is offered in the selected city
+ *
+ * Cities without any assigned slots offer all shop-wide slots.
+ *
+ * @param slotId - The slot ID to check
+ * @param city - The selected city (undefined if no city selected)
+ * @returns Object with disabled status and reason if applicable
+ */
+function checkCityAssignment(
+  slotId: number,
+  city: DeliveryCity | undefined,
+): { disabled: boolean; reason?: string } {
+  if (!city?.timeSlots || city.timeSlots.length === 0) {
+    return { disabled: false };
+  }
+
+  if (!city.timeSlots.some((assigned) => assigned.id === slotId)) {
+    return { disabled: true, reason: "Not offered in this city" };
+  }
+  return { disabled: false };
+}
+
+/**
+ * Checks a special city's slot subset and delivery weekdays
+ *
+ * @param slotId - The slot ID to check
+ * @param date - The date in YYYY-MM-DD format
+ * @param city - The selected city (undefined if no city selected)
+ * @returns Object with disabled status and reason if applicable
+ */
+function checkSpecialCityRules(
+  slotId: number,
+  date: string,
+  city: DeliveryCity | undefined,
+): { disabled: boolean; reason?: string } {
+  if (!isSlotAllowedInCity(slotId, city)) {
+    return { disabled: true, reason: "Not offered in this special city" };
+  }
+  if (!isWeekdayAllowedInCity(date, city)) {
+    return { disabled: true, reason: "No deliveries on this weekday" };
+  }
+  return { disabled: false };
+}
+
 /**
  * Checks if a slot is disabled for a specific date (regardless of city)
  *
@@ -121,6 +190,8 @@ function checkCityDateDisable(
  * @param date - The selected delivery date in YYYY-MM-DD format
  * @param cityId - The selected city ID (null if no city selected)
  * @param rules - Array of slot disable rules
+ * @param options - Optional context (selected city, capacity and bookings,
+ *   earliest start, current time)
  * @returns SlotAvailabilityResult with disabled status and reason
  */
 export function checkSlotAvailability(
@@ -128,6 +199,7 @@ export function checkSlotAvailability(
   date: string,
   cityId: number | null,
   rules: SlotDisableRule[],
+  options: SlotAvailabilityOptions = {},
 ): SlotAvailabilityResult {
   // Priority 1: Check if slot is active
   const activeCheck = checkSlotActive(slot);
@@ -135,13 +207,30 @@ export function checkSlotAvailability(
     return { slot, disabled: true, reason: activeCheck.reason };
   }
 
-  // Priority 2: Date-range disable
+  // Priority 2: City-to-slot assignment
+  const assignmentCheck = checkCityAssignment(slot.id, options.city);
+  if (assignmentCheck.disabled) {
+    return { slot, disabled: true, reason: assignmentCheck.reason };
+  }
+
+  // Priority 3: Special city restrictions
+  const specialCheck = checkSpecialCityRules(slot.id, date, options.city);
+  if (specialCheck.disabled) {
+    return { slot, disabled: true, reason: specialCheck.reason };
+  }
+
+  // Priority 4: Opening hours
+  if (!isSlotWithinOpeningHours(slot, date, options.city)) {
+    return { slot, disabled: true, reason: "Outside opening hours" };
+  }
+
+  // Priority 5: Date-range disable
   const dateCheck = checkDateSpecificDisable(slot.id, date, rules);
   if (dateCheck.disabled) {
     return { slot, disabled: true, reason: dateCheck.reason };
   }
 
-  // Priority 3: City+date-range disable (only if city is selected)
+  // Priority 6: City+date-range disable (only if city is selected)
   if (cityId) {
     const cityDateCheck = checkCityDateDisable(slot.id, date, cityId, rules);
     if (cityDateCheck.disabled) {
@@ -149,6 +238,60 @@ export function checkSlotAvailability(
     }
   }
 
+  // Priority 7: Slot cutoff
+  if (
+    options.currentTime &&
+    isPastSlotCutoff(slot, date, options.currentTime, options.timeZone)
+  ) {
+    return {
+      slot,
+      disabled: true,
+      reason: "Order cutoff passed for this slot",
+    };
+  }
+
+  // Priority 8: Same-day buffer
+  if (
+    options.currentTime &&
+    isTooLateForSlotToday(
+      slot,
+      date,
+      options.currentTime,
+      options.city,
+      options.timeZone,
+    )
+  ) {
+    return { slot, disabled: true, reason: "Too late for this slot today" };
+  }
+
+  // Priority 9: Lead time
+  if (
+    options.earliestStart &&
+    !startsAfterEarliest(slot.startTime, date, options.earliestStart)
+  ) {
+    return { slot, disabled: true, reason: "Not enough preparation time" };
+  }
+
+  // Priority 10: Capacity
+  if (options.capacity) {
+    const capacity = getSlotCapacityStatus(
+      slot.id,
+      date,
+      cityId,
+      options.capacity,
+    );
+    if (capacity && capacity.remaining <= 0) {
+      return {
+        slot,
+        disabled: true,
+        reason: "Fully booked",
+        remainingCapacity: 0,
+      };
+    }
+
+    return { slot, disabled: false, remainingCapacity: capacity?.remaining };
+  }
+
   // Slot is available
   return { slot, disabled: false };
 }
@@ -163,6 +306,7 @@ export function checkSlotAvailability(
  * @param date - The selected delivery date in YYYY-MM-DD format
  * @param cityId - The selected city ID (null if no city selected yet)
  * @param rules - Array of slot disable rules
+ * @param options - Optional context (selected city, capacity and bookings)
  * @returns Array of SlotAvailabilityResult with disabled status and reasons
  *
  * @example
@@ -185,17 +329,22 @@ export function getAvailableSlots(
   date: string,
   cityId: number | null,
   rules: SlotDisableRule[],
+  options: SlotAvailabilityOptions = {},
 ): SlotAvailabilityResult[] {
   if (!slots || !Array.isArray(slots)) {
     return [];
   }
 
   if (!rules || !Array.isArray(rules)) {
-    // If no rules, only check if slot is active
-    return slots.map((slot) => checkSlotAvailability(slot, date, cityId, []));
+    // If no rules, only check activity and city assignment
+    return slots.map((slot) =>
+      checkSlotAvailability(slot, date, cityId, [], options),
+    );
   }
 
-  return slots.map((slot) => checkSlotAvailability(slot, date, cityId, rules));
+  return slots.map((slot) =>
+    checkSlotAvailability(slot, date, cityId, rules, options),
+  );
 }
 
 /**
@@ -205,6 +354,7 @@ export function getAvailableSlots(
  * @param date - The selected delivery date in YYYY-MM-DD format
  * @param cityId - The selected city ID (null if no city selected)
  * @param rules - Array of slot disable rules
+ * @param options - Optional context (selected city, capacity and bookings)
  * @returns Array of available TimeSlots only
  *
  * @example
@@ -216,8 +366,9 @@ export function getEnabledSlots(
   date: string,
   cityId: number | null,
   rules: SlotDisableRule[],
+  options: SlotAvailabilityOptions = {},
 ): TimeSlot[] {
-  return getAvailableSlots(slots, date, cityId, rules)
+  return getAvailableSlots(slots, date, cityId, rules, options)
     .filter((result) => !result.disabled)
     .map((result) => result.slot);
 }
@@ -230,6 +381,7 @@ export function getEnabledSlots(
  * @param date - The selected delivery date in YYYY-MM-DD format
  * @param cityId - The selected city ID (null if no city selected)
  * @param rules - Array of slot disable rules
+ * @param options - Optional context (selected city, capacity and bookings)
  * @returns True if the slot exists and is available
  */
 export function isSlotAvailable(
@@ -238,12 +390,13 @@ export function isSlotAvailable(
   date: string,
   cityId: number | null,
   rules: SlotDisableRule[],
+  options: SlotAvailabilityOptions = {},
 ): boolean {
   const slot = slots.find((s) => s.id === slotId);
   if (!slot) {
     return false;
   }
 
-  const result = checkSlotAvailability(slot, date, cityId, rules);
+  const result = checkSlotAvailability(slot, date, cityId, rules, options);
   return !result.disabled;
 }
@@ -0,0 +1,143 @@
+/**
+ * Slot Capacity Service
+ *
+ * Limits the number of orders per time slot and date.
+ * Capacity is checked at two levels:
+ * 1. Shop level - bookings across all cities, limited by the most specific
+ *    rule without a city, or by the shop-wide default
+ * 2. City level - bookings in the selected city, limited by the most
+ *    specific rule for that city (unlimited if there is none)
+ *
+ * A slot is fully booked when either level has no remaining capacity.
+ */
+
+import type {
+  SlotBookingCount,
+  SlotCapacityContext,
+  SlotCapacityRule,
+  SlotCapacityStatus,
+} from "./types/delivery";
+
+/**
+ * Finds the most specific capacity rule for a slot and date at one level
+ *
+ * Date-specific rules win over slot-specific rules, which win over rules
+ * for all slots. Among equally specific rules the newest one wins.
+ *
+ * @param slotId - The slot ID to check
+ * @param date - The date in YYYY-MM-DD format
+ * @param cityId - The city ID for city-level rules, undefined for shop-level rules
+ * @param rules - Array of capacity rules
+ * @returns The matching rule, or undefined if none applies
+ */
+function findCapacityRule(
+  slotId: number,
+  date: string,
+  cityId: number | undefined,
+  rules: SlotCapacityRule[],
+): SlotCapacityRule | undefined {
+  const specificity = (rule: SlotCapacityRule) =>
+    (rule.date ? 2 : 0) + (rule.timeSlotId ? 1 : 0);
+
+  return rules
+    .filter(
+      (rule) =>
+        rule.cityId === cityId &&
+        (!rule.timeSlotId || rule.timeSlotId === slotId) &&
+        (!rule.date || rule.date === date),
+    )
+    .reduce<SlotCapacityRule | undefined>((best, rule) => {
+      if (!best) return rule;
+      const diff = specificity(rule) - specificity(best);
+      return diff > 0 || (diff === 0 && rule.id > best.id) ? rule : best;
+    }, undefined);
+}
+
+/**
+ * Counts booked orders for a slot and date
+ *
+ * @param slotId - The slot ID
+ * @param date - The date in YYYY-MM-DD format
+ * @param cityId - Only count this city's bookings (null counts all cities)
+ * @param bookings - Array of booking counts
+ * @returns Number of booked orders
+ *
+ * @example
+ * const bookings = [
+ *   { date: "2024-12-26", timeSlotId: 1, cityId: 1, count: 3 },
+ *   { date: "2024-12-26", timeSlotId: 1, cityId: 2, count: 2 },
+ * ];
+ * countSlotBookings(1, "2024-12-26", null, bookings) // returns 5
+ * countSlotBookings(1, "2024-12-26", 2, bookings) // returns 2
+ */
+export function countSlotBookings(
+  slotId: number,
+  date: string,
+  cityId: number | null,
+  bookings: SlotBookingCount[],
+): number {
+  return bookings
+    .filter(
+      (booking) =>
+        booking.timeSlotId === slotId &&
+        booking.date === date &&
+        (!cityId || booking.cityId === cityId),
+    )
+    .reduce((total, booking) => total + booking.count, 0);
+}
+
+/**
+ * Gets the capacity of a slot on a date
+ *
+ * Checks the shop level and, if a city is selected, the city level, and
+ * returns the level with the least remaining capacity.
+ *
+ * @param slotId - The slot ID to check
+ * @param date - The date in YYYY-MM-DD format
+ * @param cityId - The selected city ID (null if no city selected)
+ * @param context - Capacity limits and current bookings
+ * @returns Capacity status, or undefined if the slot is unlimited
+ *
+ * @example
+ * const context = { defaultCapacity: 10, rules: [], bookings };
+ * getSlotCapacityStatus(1, "2024-12-26", null, context)
+ * // returns { limit: 10, booked: 5, remaining: 5 }
+ */
+export function getSlotCapacityStatus(
+  slotId: number,
+  date: string,
+  cityId: number | null,
+  context: SlotCapacityContext,
+): SlotCapacityStatus | undefined {
+  const statuses: SlotCapacityStatus[] = [];
+
+  const shopLimit =
+    findCapacityRule(slotId, date, undefined, context.rules)?.capacity ??
+    context.defaultCapacity;
+  if (shopLimit !== undefined) {
+    const booked = countSlotBookings(slotId, date, null, context.bookings);
+    statuses.push({
+      limit: shopLimit,
+      booked,
+      remaining: Math.max(shopLimit - booked, 0),
+    });
+  }
+
+  if (cityId) {
+    const cityRule = findCapacityRule(slotId, date, cityId, context.rules);
+    if (cityRule) {
+      const booked = countSlotBookings(slotId, date, cityId, context.bookings);
+      statuses.push({
+        limit: cityRule.capacity,
+        booked,
+        remaining: Math.max(cityRule.capacity - booked, 0),
+      });
+    }
+  }
+
+  return statuses.reduce<SlotCapacityStatus | undefined>(
+    (tightest, status) =>
+      !tightest || status.remaining < tightest.remaining ? status : tightest,
+    undefined,
+  );
+}
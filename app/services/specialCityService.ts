@@ -0,0 +1,168 @@
+/**
+ * Special City Service
+ *
+ * Applies the restrictions of cities marked as special: extra lead days,
+ * no same-day delivery, a subset of the city's slots and the weekdays
+ * delivery is allowed on. Restrictions are only applied while the city is
+ * special, so unmarking a city lifts them without losing its settings.
+ */
+
+import { addDaysToDateString, getDayOfWeek } from "./dateAvailabilityService";
+import type {
+  DeliveryCity,
+  SpecialCityRules,
+  TimeSlot,
+} from "./types/delivery";
+
+/**
+ * Weekday names, 0 = Sunday ... 6 = Saturday
+ */
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Gets the restrictions that apply to a city
+ *
+ * @param city - The delivery city (undefined if no city selected)
+ * @returns The city's rules if it is special, otherwise undefined
+ */
+export function getSpecialCityRules(
+  city?: DeliveryCity,
+): SpecialCityRules | undefined {
+  return city?.isSpecial ? city.specialRules : undefined;
+}
+
+/**
+ * Checks if a city accepts deliveries on a date's weekday
+ *
+ * @param date - The date in YYYY-MM-DD format
+ * @param city - The delivery city (undefined if no city selected)
+ * @returns False only if the city is special and the weekday is not allowed
+ *
+ * @example
+ * const city = { ...downtown, isSpecial: true, specialRules: { ...rules, allowedWeekdays: [1, 3, 5] } };
+ * isWeekdayAllowedInCity("2024-12-23", city) // returns true (Monday)
+ * isWeekdayAllowedInCity("2024-12-24", city) // returns false (Tuesday)
+ */
+export function isWeekdayAllowedInCity(
+  date: string,
+  city?: DeliveryCity,
+): boolean {
+  const allowedWeekdays = getSpecialCityRules(city)?.allowedWeekdays;
+  return !allowedWeekdays || allowedWeekdays.includes(getDayOfWeek(date));
+}
+
+/**
+ * Checks if a slot is part of a special city's slot subset
+ *
+ * @param slotId - The slot ID to check
+ * @param city - The delivery city (undefined if no city selected)
+ * @returns False only if the city is special and the slot is left out
+ */
+export function isSlotAllowedInCity(
+  slotId: number,
+  city?: DeliveryCity,
+): boolean {
+  const allowedSlotIds = getSpecialCityRules(city)?.allowedSlotIds;
+  return !allowedSlotIds || allowedSlotIds.includes(slotId);
+}
+
+/**
+ * Applies a special city's restrictions to a minimum delivery date
+ *
+ * 1. Extra lead days are added
+ * 2. Without same-day delivery, the date is at least tomorrow
+ * 3. The date moves forward to the next allowed weekday
+ *
+ * @param minimumDate - Minimum date before the restrictions (YYYY-MM-DD)
+ * @param today - Today's date in the shop's timezone (YYYY-MM-DD)
+ * @param city - The delivery city (undefined if no city selected)
+ * @returns Minimum delivery date in YYYY-MM-DD format
+ *
+ * @example
+ * // Special city: +1 lead day, deliveries on Monday, Wednesday and Friday
+ * applySpecialCityMinimumDate("2024-12-24", "2024-12-24", city)
+ * // returns "2024-12-25" (Wednesday)
+ */
+export function applySpecialCityMinimumDate(
+  minimumDate: string,
+  today: string,
+  city?: DeliveryCity,
+): string {
+  const rules = getSpecialCityRules(city);
+  if (!rules) {
+    return minimumDate;
+  }
+
+  let date = addDaysToDateString(minimumDate, rules.extraLeadDays);
+  if (rules.noSameDay && date <= today) {
+    date = addDaysToDateString(today, 1);
+  }
+
+  for (let i = 0; i < 7 && !isWeekdayAllowedInCity(date, city); i++) {
+    date = addDaysToDateString(date, 1);
+  }
+
+  return date;
+}
+
+/**
+ * Describes a special city's restrictions for the admin
+ *
+ * @param city - The delivery city
+ * @param timeSlots - The shop's time slots, used for slot labels
+ * @returns One sentence per restriction (empty if the city is not special)
+ *
+ * @example
+ * describeSpecialCityRules(city, slots)
+ * // returns [
+ * //   "Minimum date is 1 day later",
+ * //   "No same-day delivery",
+ * //   "Deliveries on Monday, Wednesday, Friday",
+ * // ]
+ */
+export function describeSpecialCityRules(
+  city: DeliveryCity,
+  timeSlots: TimeSlot[],
+): string[] {
+  const rules = getSpecialCityRules(city);
+  if (!rules) {
+    return [];
+  }
+
+  const descriptions: string[] = [];
+
+  if (rules.extraLeadDays > 0) {
+    descriptions.push(
+      `Minimum date is ${rules.extraLeadDays} ${
+        rules.extraLeadDays === 1 ? "day" : "days"
+      } later`,
+    );
+  }
+  if (rules.noSameDay) {
+    descriptions.push("No same-day delivery");
+  }
+  if (rules.allowedWeekdays) {
+    descriptions.push(
+      `Deliveries on ${
+        rules.allowedWeekdays.map((day) => WEEKDAY_NAMES[day]).join(", ") ||
+        "no weekday"
+      }`,
+    );
+  }
+  if (rules.allowedSlotIds) {
+    const labels = timeSlots
+      .filter((slot) => rules.allowedSlotIds?.includes(slot.id))
+      .map((slot) => slot.label ?? `${slot.startTime} - ${slot.endTime}`);
+    descriptions.push(`Only slots ${labels.join(", ") || "(none)"}`);
+  }
+
+  return descriptions;
+}
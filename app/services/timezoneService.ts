@@ -0,0 +1,202 @@
+/**
+ * Timezone Service
+ *
+ * Converts between instants (Date objects) and wall-clock time in the
+ * shop's IANA timezone (e.g. "Asia/Dhaka"), independent of the server's
+ * process timezone.
+ *
+ * Uses Intl.DateTimeFormat, so DST transitions are handled by the
+ * runtime's timezone database.
+ */
+
+/**
+ * Timezone used when the shop's timezone is unknown or invalid
+ */
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Wall-clock date and time in a specific timezone
+ */
+export interface ZonedDateTime {
+  year: number;
+  /** Month (1-12) */
+  month: number;
+  day: number;
+  /** Hours (0-23) */
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * Cache of formatters per timezone (creating them is expensive)
+ */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a cached formatter for a timezone
+ *
+ * @param timeZone - IANA timezone name
+ * @returns Formatter producing numeric date/time parts
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks if a string is a valid IANA timezone name
+ *
+ * @param timeZone - The timezone to check
+ * @returns True if the runtime recognizes the timezone
+ *
+ * @example
+ * isValidTimezone("Asia/Dhaka") // returns true
+ * isValidTimezone("Mars/Olympus") // returns false
+ */
+export function isValidTimezone(timeZone: string | null | undefined): boolean {
+  if (!timeZone || typeof timeZone !== "string") {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the timezone if valid, otherwise the default timezone
+ *
+ * @param timeZone - The timezone to resolve
+ * @returns A usable IANA timezone name
+ */
+export function resolveTimezone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Gets the wall-clock date and time of an instant in a timezone
+ *
+ * @param date - The instant to convert
+ * @param timeZone - IANA timezone name
+ * @returns Wall-clock components in the timezone
+ *
+ * @example
+ * getZonedDateTime(new Date("2024-12-24T20:30:00Z"), "Asia/Dhaka")
+ * // returns { year: 2024, month: 12, day: 25, hours: 2, minutes: 30, seconds: 0 }
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)?.value ?? "0", 10);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hours: get("hour"),
+    minutes: get("minute"),
+    seconds: get("second"),
+  };
+}
+
+/**
+ * Gets the calendar date of an instant in a timezone
+ *
+ * @param date - The instant to convert
+ * @param timeZone - IANA timezone name
+ * @returns Date string in YYYY-MM-DD format
+ *
+ * @example
+ * getZonedDateString(new Date("2024-12-24T20:30:00Z"), "Asia/Dhaka") // returns "2024-12-25"
+ * getZonedDateString(new Date("2024-12-24T20:30:00Z"), "UTC") // returns "2024-12-24"
+ */
+export function getZonedDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Gets the offset of a timezone from UTC at a given instant
+ *
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+function getTimezoneOffsetMs(date: Date, timeZone: string): number {
+  const zoned = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hours,
+    zoned.minutes,
+    zoned.seconds,
+  );
+  const time = date.getTime();
+  return asUtc - (time - (((time % 1000) + 1000) % 1000));
+}
+
+/**
+ * Converts a wall-clock date and time in a timezone to an instant
+ *
+ * If the wall-clock time does not exist (DST gap), the result is shifted
+ * forward by the gap. If it occurs twice (DST overlap), the first
+ * occurrence is returned.
+ *
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @param hours - Hours (0-23)
+ * @param minutes - Minutes (0-59)
+ * @param timeZone - IANA timezone name
+ * @returns The corresponding instant
+ *
+ * @example
+ * zonedTimeToUtc("2024-12-24", 14, 0, "Asia/Dhaka")
+ * // returns Date for 2024-12-24T08:00:00Z
+ */
+export function zonedTimeToUtc(
+  dateStr: string,
+  hours: number,
+  minutes: number,
+  timeZone: string,
+): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Offsets before and after a possible transition near the target time
+  const offsetBefore = getTimezoneOffsetMs(
+    new Date(wallClockAsUtc - 24 * 60 * 60 * 1000),
+    timeZone,
+  );
+  const offsetAfter = getTimezoneOffsetMs(
+    new Date(wallClockAsUtc + 24 * 60 * 60 * 1000),
+    timeZone,
+  );
+
+  // Prefer the earlier occurrence when the wall-clock time is ambiguous
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const instant = new Date(wallClockAsUtc - offset);
+    if (getTimezoneOffsetMs(instant, timeZone) === offset) {
+      return instant;
+    }
+  }
+
+  // Wall-clock time falls in a DST gap: shift forward by the gap
+  return new Date(wallClockAsUtc - offsetBefore);
+}
@@ -20,10 +20,94 @@ export interface DeliveryCity {
   isActive: boolean;
   /** Whether this city has special delivery restrictions */
   isSpecial: boolean;
+  /** Restrictions applied while the city is special */
+  specialRules?: SpecialCityRules;
   /** Cutoff time for same-day delivery in HH:mm format (24-hour) */
   cutoffTime: string;
-  /** Associated time slots */
+  /**
+   * Cutoff times by weekday (0 = Sunday ... 6 = Saturday).
+   * Weekdays without an entry use cutoffTime.
+   */
+  weekdayCutoffTimes?: Record<number, string>;
+  /** Minutes between now and the start of a same-day slot (default 0) */
+  sameDayBufferMinutes?: number;
+  /** Base delivery fee in the shop's currency (default 0) */
+  deliveryFee?: number;
+  /**
+   * Time slots assigned to this city.
+   * If empty or undefined, all shop-wide slots are offered.
+   */
   timeSlots?: TimeSlot[];
+  /**
+   * Opening hours by weekday (0 = Sunday ... 6 = Saturday), set when the
+   * city stands for a pickup location. Slots outside the day's hours are
+   * not offered. If undefined, every slot is offered.
+   */
+  openingHours?: Record<number, OpeningHours>;
+}
+
+/**
+ * How an order reaches the customer
+ */
+export type FulfillmentMode = "delivery" | "pickup";
+
+/**
+ * Opening hours of a pickup location on one weekday
+ */
+export interface OpeningHours {
+  /** Opening time in HH:mm format (24-hour) */
+  openTime: string;
+  /** Closing time in HH:mm format (24-hour) */
+  closeTime: string;
+}
+
+/**
+ * A shop where customers collect their order, with its own slots, cutoff,
+ * opening hours and disable rules
+ */
+export interface PickupLocation {
+  /** Unique identifier for the location */
+  id: number;
+  /** Display name of the location */
+  name: string;
+  /** Shopify shop domain */
+  shop: string;
+  /** Street address shown to customers */
+  address?: string;
+  /** Whether this location is active */
+  isActive: boolean;
+  /** Cutoff time for same-day pickup in HH:mm format (24-hour) */
+  cutoffTime: string;
+  /** Minutes between now and the start of a same-day slot (default 0) */
+  sameDayBufferMinutes?: number;
+  /**
+   * Opening hours by weekday (0 = Sunday ... 6 = Saturday). Weekdays
+   * without an entry are closed. If empty, the location is open every day.
+   */
+  openingHours: Record<number, OpeningHours>;
+  /**
+   * Time slots offered at this location.
+   * If empty or undefined, all shop-wide slots are offered.
+   */
+  timeSlots?: TimeSlot[];
+  /** Dates the location is closed */
+  dateDisableRules: DateDisableRule[];
+  /** Slots disabled at this location on certain dates */
+  slotDisableRules: SlotDisableRule[];
+}
+
+/**
+ * Delivery restrictions of a special city
+ */
+export interface SpecialCityRules {
+  /** Calendar days added to the minimum delivery date */
+  extraLeadDays: number;
+  /** Whether same-day delivery is disabled */
+  noSameDay: boolean;
+  /** Weekdays delivery is allowed on, 0 = Sunday ... 6 = Saturday (undefined = every day) */
+  allowedWeekdays?: number[];
+  /** IDs of the slots offered, among the city's slots (undefined = all of them) */
+  allowedSlotIds?: number[];
 }
 
 /**
@@ -42,6 +126,87 @@ export interface TimeSlot {
   isActive: boolean;
   /** Human-readable label (e.g., "09:30 AM - 12:00 PM") */
   label?: string;
+  /** Minutes between now and the start of the slot for same-day orders (default 0) */
+  sameDayBufferMinutes?: number;
+  /** Latest order time in HH:mm format for this slot (undefined = no slot cutoff) */
+  cutoffTime?: string;
+  /** Days before the delivery date the cutoff applies, 0 = same day */
+  cutoffDaysBefore?: number;
+  /** Added to the city's delivery fee for this slot (default 0) */
+  surcharge?: number;
+}
+
+/**
+ * How a delivery zone matches an address
+ */
+export type DeliveryZoneMatchType =
+  | "postalCode"
+  | "postalPrefix"
+  | "area"
+  | "polygon";
+
+/**
+ * GeoJSON polygon coordinates: an outer ring followed by any holes, each a
+ * closed list of [longitude, latitude] positions
+ */
+export type GeoPolygon = number[][][];
+
+/**
+ * Bounding box of polygons as [west, south, east, north], like a GeoJSON
+ * bbox
+ */
+export type GeoBounds = [number, number, number, number];
+
+/**
+ * A point on the map
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Postal code, postal code prefix, area name or map polygon mapped to a city
+ */
+export interface DeliveryZone {
+  /** ID of the zone */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** City the zone belongs to */
+  cityId: number;
+  /** How the value is matched */
+  matchType: DeliveryZoneMatchType;
+  /** Postal code, postal code prefix, area name or polygon zone name */
+  value: string;
+  /** Polygons covered by the zone, for polygon zones */
+  polygons?: GeoPolygon[];
+  /** Overrides the city's cutoff time in the zone (HH:mm) */
+  cutoffTime?: string | null;
+  /** Overrides the city's slot list in the zone (empty = city's slots) */
+  timeSlotIds?: number[];
+}
+
+/**
+ * The parts of a delivery zone used to match addresses
+ */
+export type DeliveryZoneDefinition = Pick<
+  DeliveryZone,
+  "cityId" | "matchType" | "value" | "polygons" | "cutoffTime" | "timeSlotIds"
+>;
+
+/**
+ * Shipping address fields used to find the delivery city, as in
+ * Shopify's MailingAddress
+ */
+export interface DeliveryAddress {
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  zip?: string | null;
+  /** Geocoded position, used for polygon zones */
+  latitude?: number | null;
+  longitude?: number | null;
 }
 
 /**
@@ -58,10 +223,108 @@ export interface DateDisableRule {
   startDate: string;
   /** End date of the disable period (YYYY-MM-DD format) */
   endDate?: string;
+  /** Repeat on the same month/day every year from startDate's year on */
+  repeatsYearly?: boolean;
   /** Reason for disabling */
   reason?: string;
 }
 
+/**
+ * Surcharge added to the delivery fee on certain dates (e.g. holidays)
+ */
+export interface DateSurchargeRule {
+  /** ID of the rule */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** City ID (optional - if null, applies to all cities) */
+  cityId?: number;
+  /** First date with the surcharge (YYYY-MM-DD format) */
+  startDate: string;
+  /** Last date with the surcharge (YYYY-MM-DD format) */
+  endDate?: string;
+  /** Repeat on the same month/day every year from startDate's year on */
+  repeatsYearly?: boolean;
+  /** Amount added to the delivery fee, in the shop's currency */
+  amount: number;
+  /** Shown next to the fee (e.g. "Valentine's Day") */
+  label?: string;
+}
+
+/**
+ * Delivery fee for a city, date and slot, in the shop's currency
+ */
+export interface DeliveryFee {
+  /** The city's base fee */
+  baseFee: number;
+  /** The slot's surcharge */
+  slotSurcharge: number;
+  /** The highest surcharge of the date */
+  dateSurcharge: number;
+  /** Label of the date surcharge rule (if any) */
+  dateSurchargeLabel?: string;
+  /** Sum of the fee parts */
+  total: number;
+}
+
+/**
+ * Inclusive range of calendar dates
+ */
+export interface DateWindow {
+  /** First date (YYYY-MM-DD format) */
+  startDate: string;
+  /** Last date (YYYY-MM-DD format) */
+  endDate: string;
+}
+
+/**
+ * Recurring rule for disabling delivery on certain weekdays
+ * (e.g. closed every Friday), optionally per city and date range
+ */
+export interface WeekdayDisableRule {
+  /** ID of the rule */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** City ID (optional - if null, applies to all cities) */
+  cityId?: number;
+  /** Disabled weekdays, 0 = Sunday ... 6 = Saturday */
+  daysOfWeek: number[];
+  /** First date the rule applies (YYYY-MM-DD format, optional) */
+  startDate?: string;
+  /** Last date the rule applies (YYYY-MM-DD format, optional) */
+  endDate?: string;
+  /** Reason for disabling */
+  reason?: string;
+}
+
+/**
+ * Dates the kitchen is closed (e.g. staff holidays). Unlike date disable
+ * rules these do not block delivery, they pause preparation.
+ */
+export interface ProductionClosure {
+  /** ID of the closure */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** First closed date (YYYY-MM-DD format) */
+  startDate: string;
+  /** Last closed date (YYYY-MM-DD format, optional - defaults to startDate) */
+  endDate?: string;
+  /** Reason for the closure */
+  reason?: string;
+}
+
+/**
+ * Days the kitchen prepares orders. Preparation delays count only these days.
+ */
+export interface ProductionCalendar {
+  /** Working weekdays, 0 = Sunday ... 6 = Saturday */
+  workingDays: number[];
+  /** Closed dates on top of the non-working weekdays */
+  closures: Array<Pick<ProductionClosure, "startDate" | "endDate">>;
+}
+
 /**
  * Rule for disabling a specific time slot
  * Rules are applied in priority order: global → date-specific → city+date-specific
@@ -83,20 +346,249 @@ export interface SlotDisableRule {
   reason?: string;
 }
 
+/**
+ * Maximum number of orders per time slot and date
+ *
+ * Rules without a city cap bookings across all cities; rules with a city
+ * cap that city's bookings only. The most specific matching rule wins
+ * (date before slot).
+ */
+export interface SlotCapacityRule {
+  /** ID of the rule */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** Time slot ID (optional - if null, applies to all slots) */
+  timeSlotId?: number;
+  /** City ID (optional - if null, counts bookings across all cities) */
+  cityId?: number;
+  /** Date the rule applies to (YYYY-MM-DD format, optional - if null, every date) */
+  date?: string;
+  /** Maximum number of orders */
+  capacity: number;
+}
+
+/**
+ * Number of booked orders for a date, slot and city
+ */
+export interface SlotBookingCount {
+  /** Delivery date (YYYY-MM-DD format) */
+  date: string;
+  /** Booked time slot ID */
+  timeSlotId: number;
+  /** Delivery city ID (undefined if the order had no city) */
+  cityId?: number;
+  /** Number of orders */
+  count: number;
+}
+
+/**
+ * Capacity of a time slot on a date
+ */
+export interface SlotCapacityStatus {
+  /** Maximum number of orders */
+  limit: number;
+  /** Number of booked orders */
+  booked: number;
+  /** Orders that can still be booked (never negative) */
+  remaining: number;
+}
+
+/**
+ * Capacity limits and current bookings used for slot availability
+ */
+export interface SlotCapacityContext {
+  /** Shop-wide default max orders per slot and date (undefined = unlimited) */
+  defaultCapacity?: number;
+  /** Capacity overrides per city and/or date */
+  rules: SlotCapacityRule[];
+  /** Current booking counts */
+  bookings: SlotBookingCount[];
+}
+
 /**
  * Complete delivery configuration loaded from database
  */
 export interface DeliveryConfig {
   /** Shopify shop domain */
   shop: string;
+  /** Shop's IANA timezone used for all date and cutoff calculations */
+  timezone: string;
   /** Available delivery cities */
   cities: DeliveryCity[];
   /** Available time slots */
   timeSlots: TimeSlot[];
   /** Rules for disabling delivery dates */
   dateDisableRules: DateDisableRule[];
+  /** Recurring rules for disabling weekdays */
+  weekdayDisableRules: WeekdayDisableRule[];
   /** Rules for disabling specific slots */
   slotDisableRules: SlotDisableRule[];
+  /** Shop-wide default max orders per slot and date (undefined = unlimited) */
+  slotCapacity?: number;
+  /** Capacity overrides per city and/or date */
+  slotCapacityRules: SlotCapacityRule[];
+  /** Product tag rules that add preparation days */
+  delayTagRules: DelayTagRule[];
+  /** How product delays combine into the cart's delay */
+  delayStrategy: DelayStrategy;
+  /** Extra days for large quantities of tagged products */
+  quantityDelayTiers: QuantityDelayTier[];
+  /** Kitchen working days used to count preparation days */
+  productionCalendar: ProductionCalendar;
+  /** Postal codes and areas mapped to cities */
+  deliveryZones: DeliveryZone[];
+  /** Date surcharges added to the delivery fee */
+  dateSurchargeRules: DateSurchargeRule[];
+  /** Active pickup locations, with their own rules */
+  pickupLocations: PickupLocation[];
+}
+
+/**
+ * CSS selectors used by the storefront block to find theme elements
+ */
+export interface StorefrontSelectors {
+  /** Selector for the cart form */
+  cartForm: string;
+  /** Selector for the checkout button(s) */
+  checkoutButton: string;
+}
+
+/**
+ * Shop-wide delivery settings
+ */
+export interface DeliverySettings {
+  /** Shopify shop domain */
+  shop: string;
+  /** Default cutoff time in HH:mm format (24-hour) */
+  cutoffTime?: string;
+  /** Shop's IANA timezone (e.g., "Asia/Dhaka"), synced from Shopify */
+  timezone: string;
+  /** Theme selectors used by the storefront block */
+  selectors: StorefrontSelectors;
+  /** Default max orders per slot and date (undefined = unlimited) */
+  slotCapacity?: number;
+  /** Kitchen working weekdays, 0 = Sunday ... 6 = Saturday */
+  productionDays: number[];
+  /** How product delays combine into the cart's delay */
+  delayStrategy: DelayStrategy;
+}
+
+/**
+ * How a delay tag rule matches product tags
+ *
+ * - `exact`: the tag equals the rule's tag (case-insensitive)
+ * - `pattern`: `*` matches any text, and `{days}` or `{hours}` matches a
+ *   number that is used as the delay, e.g. `delay-{days}`, `prep-{hours}h`
+ *   or `custom-*`
+ */
+export type DelayTagMatchType = "exact" | "pattern";
+
+/**
+ * Rule mapping product tags to preparation days
+ */
+export interface DelayTagRule {
+  /** ID of the rule */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** How the tag is matched */
+  matchType: DelayTagMatchType;
+  /** Tag or pattern to match */
+  tag: string;
+  /** Delay in days (used when the pattern has no placeholder) */
+  delayDays: number;
+  /** Lead time in hours (used when the pattern has no placeholder) */
+  delayHours: number;
+}
+
+/**
+ * The parts of a delay tag rule used to match tags
+ */
+export type DelayTagDefinition = Pick<
+  DelayTagRule,
+  "matchType" | "tag" | "delayDays" | "delayHours"
+>;
+
+/**
+ * How the delays of the products in a cart combine into the cart's delay
+ *
+ * - "max": the product with the longest delay decides
+ * - "sum": delays add up, for bundles prepared one after another
+ * - "maxPlusQuantity": as "max", with quantity tiers adding days per line
+ */
+export type DelayStrategy = "max" | "sum" | "maxPlusQuantity";
+
+/**
+ * Extra preparation days for large quantities of a product
+ * (e.g. +1 day from 10 cupcakes)
+ */
+export interface QuantityDelayTier {
+  /** ID of the tier */
+  id: number;
+  /** Shopify shop domain */
+  shop: string;
+  /** Product tag the tier applies to (lowercase) */
+  tag: string;
+  /** Tier applies from this quantity on a cart line */
+  minQuantity: number;
+  /** Days added on top of the product's delay */
+  extraDays: number;
+}
+
+/**
+ * The parts of a quantity delay tier used to match cart lines
+ */
+export type QuantityDelayTierDefinition = Pick<
+  QuantityDelayTier,
+  "tag" | "minQuantity" | "extraDays"
+>;
+
+/**
+ * How a cart's delay is calculated from its products
+ */
+export interface CartDelayOptions {
+  /** How product delays combine (default "max") */
+  strategy?: DelayStrategy;
+  /** Quantity tiers, used by the "maxPlusQuantity" strategy */
+  quantityTiers?: QuantityDelayTierDefinition[];
+}
+
+/**
+ * Preparation time needed before delivery
+ *
+ * Days and hours are two separate minimums, and the later one applies
+ * (they are not added together). Days move the earliest date in whole
+ * days from today. Hours are counted from the current time and compared
+ * with slot start times.
+ */
+export interface LeadTime {
+  /** Whole days added to today's date */
+  days: number;
+  /** Hours added to the current time */
+  hours: number;
+}
+
+/**
+ * Earliest wall-clock time a delivery slot may start, in the shop's timezone
+ */
+export interface EarliestSlotStart {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Time in HH:mm format */
+  time: string;
+}
+
+/**
+ * Earliest feasible delivery for a cart
+ */
+export interface EarliestDelivery {
+  /** Earliest delivery date (YYYY-MM-DD format) */
+  date: string;
+  /** First slot that can be delivered on that date (null if none) */
+  timeSlotId: number | null;
+  /** Slots must not start before this (undefined = no hourly lead time) */
+  earliestStart?: EarliestSlotStart;
 }
 
 /**
@@ -105,6 +597,41 @@ export interface DeliveryConfig {
 export interface CartProduct {
   /** Product tags used for delay calculation */
   tags: string[];
+  /** Preparation days from the product's `delivery.prep_days` metafield */
+  productPrepDays?: number;
+  /** Preparation days from the variant's `delivery.prep_days` metafield */
+  variantPrepDays?: number;
+  /** Quantity on the cart line (default 1) */
+  quantity?: number;
+}
+
+/**
+ * Cart line identified by its variant, whose tags and prep days are loaded
+ * from Shopify rather than trusted from the client
+ */
+export interface CartVariantLine {
+  /** Numeric variant ID (null for items without a variant) */
+  variantId: number | null;
+  /** Quantity on the cart line */
+  quantity: number;
+}
+
+/**
+ * Product with its preparation time, as listed in the admin
+ */
+export interface ProductPrepTime {
+  /** Product GID */
+  id: string;
+  /** Product title */
+  title: string;
+  /** Product tags */
+  tags: string[];
+  /** Preparation days from the product metafield (undefined = not set) */
+  prepDays?: number;
+  /** Variants with their own preparation days */
+  variantOverrides: Array<{ id: string; title: string; prepDays: number }>;
+  /** Whether the product has more variants than were checked for overrides */
+  hasMoreVariants?: boolean;
 }
 
 /**
@@ -121,6 +648,96 @@ export interface CheckoutFields {
   deliveryDate: string;
   /** Selected delivery time slot ID (numeric) */
   deliveryTimeSlot: number;
+  /** Delivery or pickup (default delivery); pickup needs no address */
+  fulfillmentMode?: FulfillmentMode;
+}
+
+/**
+ * Delivery selection stored in cart attributes / order note attributes
+ */
+export interface DeliveryAttributes extends CheckoutFields {
+  /** Selected delivery city ID (null if not selected) */
+  cityId: number | null;
+  /** Selected pickup location ID (null if not selected) */
+  pickupLocationId: number | null;
+}
+
+/**
+ * Delivery slot booked by an order
+ */
+export interface DeliveryBooking {
+  /** Shopify order ID */
+  orderId: string;
+  /** Order name (e.g., "#1001") */
+  orderName?: string;
+  /** Delivery city ID (null if the order had no city) */
+  cityId: number | null;
+  /** Pickup location ID (undefined for delivery orders) */
+  pickupLocationId?: number;
+  /** Booked time slot ID (null if the order had no slot) */
+  timeSlotId: number | null;
+  /** Delivery date (YYYY-MM-DD format) */
+  deliveryDate: string;
+  /** Recipient's full name */
+  fullName?: string;
+  /** Recipient's phone number */
+  phoneNumber?: string;
+  /** Delivery address */
+  deliveryAddress?: string;
+}
+
+/**
+ * Bookings of one time slot in a delivery manifest
+ */
+export interface ManifestSlotGroup {
+  /** Time slot ID (null for orders without a slot) */
+  timeSlotId: number | null;
+  /** Time slot label */
+  label: string;
+  /** Bookings in this slot, ordered by order name */
+  bookings: DeliveryBooking[];
+}
+
+/**
+ * Bookings of one city in a delivery manifest
+ */
+export interface ManifestCityGroup {
+  /** City ID (null for orders without a city) */
+  cityId: number | null;
+  /** City name */
+  name: string;
+  /** Bookings grouped by time slot, in slot order */
+  slots: ManifestSlotGroup[];
+}
+
+/**
+ * All bookings of a delivery date, grouped by city and time slot
+ */
+export interface DeliveryManifest {
+  /** Delivery date (YYYY-MM-DD format) */
+  date: string;
+  /** Total number of orders */
+  totalOrders: number;
+  /** Bookings grouped by city, in city order */
+  cities: ManifestCityGroup[];
+}
+
+/**
+ * Order fields used for bookings, as sent in orders/* webhook payloads
+ */
+export interface OrderPayload {
+  /** Shopify order ID */
+  id: number | string;
+  /** Order name (e.g., "#1001") */
+  name?: string | null;
+  /** Note attributes copied from the cart attributes */
+  note_attributes?: Array<{ name: string; value: string | null }> | null;
+  /** Set once the order is cancelled */
+  cancelled_at?: string | null;
+  /** Last time the order changed, used to ignore out-of-order webhooks */
+  updated_at?: string | null;
+  /** Shipping lines, whose code identifies a delivery rate we returned */
+  shipping_lines?: Array<{ code?: string | null }> | null;
 }
 
 /**
@@ -133,6 +750,65 @@ export interface SlotAvailabilityResult {
   disabled: boolean;
   /** Reason for disabling (if applicable) */
   reason?: string;
+  /** Orders that can still be booked (undefined if unlimited) */
+  remainingCapacity?: number;
+  /** Delivery fee for the slot on the date (set by getDeliveryAvailability) */
+  fee?: DeliveryFee;
+}
+
+/**
+ * Availability of a single delivery date, including its slots
+ */
+export interface DateAvailabilityResult {
+  /** The date in YYYY-MM-DD format */
+  date: string;
+  /** Whether the date is disabled */
+  disabled: boolean;
+  /** Reason for disabling (if applicable) */
+  reason?: string;
+  /** Slot availability for this date (empty if the date is disabled) */
+  slots: SlotAvailabilityResult[];
+}
+
+/**
+ * Combined delivery availability for a cart and city
+ */
+export interface DeliveryAvailability {
+  /** Delivery or pickup */
+  fulfillmentMode: FulfillmentMode;
+  /** Selected city ID, or pickup location ID for pickup (null if none selected) */
+  cityId: number | null;
+  /** Cart-level delay in days */
+  cartDelay: number;
+  /** Cart-level lead time in hours, counted from now */
+  leadTimeHours: number;
+  /** Whether same-day delivery is still possible for the city */
+  sameDayAvailable: boolean;
+  /** Earliest possible delivery date (YYYY-MM-DD format) */
+  minimumDate: string;
+  /** First slot that can be delivered on the minimum date (null if none) */
+  earliestTimeSlotId: number | null;
+  /** Availability for each date in the window, starting at minimumDate */
+  dates: DateAvailabilityResult[];
+}
+
+/**
+ * Optional context for slot availability checks
+ */
+export interface SlotAvailabilityOptions {
+  /** The selected city, used for city-to-slot assignments */
+  city?: DeliveryCity;
+  /** Capacity limits and bookings (capacity is not checked if omitted) */
+  capacity?: SlotCapacityContext;
+  /** Slots starting before this lack preparation time (not checked if omitted) */
+  earliestStart?: EarliestSlotStart;
+  /**
+   * Current time, used to hide today's slots starting within the same-day
+   * buffer (not checked if omitted)
+   */
+  currentTime?: Date;
+  /** Shop's IANA timezone for currentTime (default UTC) */
+  timeZone?: string;
 }
 
 /**
@@ -144,3 +820,176 @@ export interface CheckoutValidationResult {
   /** List of validation error messages */
   errors: string[];
 }
+
+/**
+ * Error codes for checkout validation against the delivery rules
+ */
+export type CheckoutRuleErrorCode =
+  | "CITY_REQUIRED"
+  | "CITY_NOT_FOUND"
+  | "AREA_NOT_SERVED"
+  | "AREA_CITY_MISMATCH"
+  | "PICKUP_LOCATION_REQUIRED"
+  | "PICKUP_LOCATION_NOT_FOUND"
+  | "DATE_REQUIRED"
+  | "DATE_INVALID"
+  | "DATE_IN_PAST"
+  | "DATE_BEFORE_MINIMUM"
+  | "DATE_DISABLED"
+  | "SLOT_REQUIRED"
+  | "SLOT_NOT_FOUND"
+  | "SLOT_UNAVAILABLE"
+  | "SLOT_FULLY_BOOKED";
+
+/**
+ * A delivery selection that breaks a delivery rule
+ */
+export interface CheckoutRuleError {
+  /** Machine-readable error code */
+  code: CheckoutRuleErrorCode;
+  /** Message shown to the customer */
+  message: string;
+}
+
+/**
+ * Result of checkout validation against the delivery rules
+ */
+export interface CheckoutRuleValidationResult {
+  /** Whether the selection satisfies all delivery rules */
+  isValid: boolean;
+  /** List of rule violations */
+  errors: CheckoutRuleError[];
+}
+
+/**
+ * Delivery rules published to a shop metafield for the checkout
+ * validation function, which cannot query the app's database
+ */
+export interface CheckoutRuleSet {
+  /** Format version, bumped on breaking changes */
+  version: number;
+  /**
+   * Product tags and their lead time, days and hours as in LeadTime
+   * (missing hours = 0)
+   */
+  delayTags: Array<{ tag: string; days: number; hours?: number }>;
+  /** Active cities and their assigned slots (empty = all slots) */
+  cities: Array<{
+    id: number;
+    timeSlotIds: number[];
+    /** Restrictions of special cities (missing = not special) */
+    special?: SpecialCityRules;
+    /** Same-day cutoff in HH:mm (missing in rule sets published before it) */
+    cutoffTime?: string;
+    /** Cutoff times by weekday, replacing cutoffTime on those days */
+    weekdayCutoffTimes?: Record<number, string>;
+  }>;
+  /**
+   * Distinct cutoff times (HH:mm) the function can check, in the order of
+   * its cutoff input variables. Cutoffs left out are not checked at
+   * checkout.
+   */
+  cutoffTimes?: string[];
+  /**
+   * Delivery zones, values normalized (missing = addresses not checked).
+   * Zone slot lists (empty = city's slots) replace the city's; zone
+   * cutoffs are checked by the storefront validation endpoint. Polygon
+   * zones carry their bounding box instead of their polygons, to keep the
+   * rule set small.
+   */
+  zones?: Array<
+    Omit<DeliveryZoneDefinition, "cutoffTime" | "polygons"> & {
+      bounds?: GeoBounds;
+    }
+  >;
+  /** Active time slot IDs */
+  timeSlotIds: number[];
+  /** Date disable rules */
+  dateRules: Array<
+    Pick<DateDisableRule, "startDate" | "endDate" | "cityId" | "repeatsYearly">
+  >;
+  /** Recurring weekday disable rules */
+  weekdayRules: Array<
+    Pick<WeekdayDisableRule, "daysOfWeek" | "startDate" | "endDate" | "cityId">
+  >;
+  /** Slot disable rules */
+  slotRules: Array<
+    Pick<SlotDisableRule, "timeSlotId" | "cityId" | "startDate" | "endDate">
+  >;
+  /** Kitchen working days (missing in rule sets published before it) */
+  production?: ProductionCalendar;
+  /** How product delays combine (missing = "max") */
+  delayStrategy?: DelayStrategy;
+  /** Quantity tiers with tags in lowercase */
+  quantityTiers?: Array<{ tag: string; minQuantity: number; days: number }>;
+  /**
+   * Active pickup locations and their own rules (rule cityId = location
+   * ID), checked instead of the cities, rules and zones for pickup
+   * selections (missing in rule sets published before it)
+   */
+  pickup?: Pick<CheckoutRuleSet, "dateRules" | "weekdayRules" | "slotRules"> & {
+    locations: Array<{
+      id: number;
+      /** Assigned slots (empty = all slots) */
+      timeSlotIds: number[];
+      /** Slots within the opening hours by weekday (missing = no hours) */
+      weekdaySlotIds?: Record<number, number[]>;
+      /** Same-day cutoff in HH:mm */
+      cutoffTime?: string;
+    }>;
+  };
+}
+
+/**
+ * Shipping address of a CarrierService rate request
+ */
+export interface CarrierRateAddress {
+  country?: string | null;
+  postal_code?: string | null;
+  province?: string | null;
+  city?: string | null;
+  name?: string | null;
+  address1?: string | null;
+  address2?: string | null;
+  address3?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+/**
+ * Rate request Shopify sends to a CarrierService callback at checkout
+ */
+export interface CarrierRateRequest {
+  rate: {
+    origin?: CarrierRateAddress;
+    destination: CarrierRateAddress;
+    items: Array<{
+      name?: string;
+      sku?: string | null;
+      quantity: number;
+      product_id?: number | null;
+      variant_id?: number | null;
+      requires_shipping?: boolean;
+    }>;
+    /** Currency of the checkout (e.g. "USD") */
+    currency: string;
+    /** Customer's locale (e.g. "en") */
+    locale?: string;
+  };
+}
+
+/**
+ * Shipping rate returned to Shopify by the CarrierService callback
+ */
+export interface CarrierRate {
+  /** Shown to the customer (e.g. "Delivery Sat, Feb 14, 09:30 AM - 12:00 PM") */
+  service_name: string;
+  /** Identifies the date and slot on the order's shipping line */
+  service_code: string;
+  /** Price in the currency's subunits (e.g. cents), as a string */
+  total_price: string;
+  /** Shown under the service name */
+  description: string;
+  /** Currency of the price */
+  currency: string;
+}
@@ -6,6 +6,7 @@ import {
 } from "@shopify/shopify-app-react-router/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
+import { syncShopTimezone } from "./services/shopTimezoneService";
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -16,6 +17,16 @@ const shopify = shopifyApp({
   authPathPrefix: "/auth",
   sessionStorage: new PrismaSessionStorage(prisma),
   distribution: AppDistribution.AppStore,
+  hooks: {
+    afterAuth: async ({ session, admin }) => {
+      try {
+        await syncShopTimezone(prisma, admin, session.shop);
+      } catch (error) {
+        // The shop/update webhook stores the timezone later, so don't fail the install
+        console.error(`Failed to sync timezone for ${session.shop}:`, error);
+      }
+    },
+  },
   future: {
     expiringOfflineAccessTokens: true,
   },
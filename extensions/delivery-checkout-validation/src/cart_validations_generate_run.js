@@ -0,0 +1,66 @@
+import { validateDeliverySelection } from "./rules";
+
+/**
+ * Blocks checkout when the delivery or pickup selection in the cart
+ * attributes, or in the selected carrier rate, is missing or breaks the
+ * published delivery rules.
+ *
+ * Cart interactions (e.g. adding a product) are not blocked, so shoppers
+ * can fill their cart before choosing a delivery date.
+ *
+ * @param {object} input - Result of cart_validations_generate_run.graphql
+ * @returns {object} Validation operations
+ */
+export function cartValidationsGenerateRun(input) {
+  const step = input.buyerJourney?.step;
+  const ruleSet = input.shop.rules?.jsonValue;
+  const { localTime } = input.shop;
+
+  const cartLines = input.cart.lines.map(({ quantity, merchandise }) =>
+    merchandise.__typename === "ProductVariant"
+      ? {
+          tags: merchandise.product.delayTags
+            .filter(({ hasTag }) => hasTag)
+            .map(({ tag }) => tag),
+          productPrepDays: merchandise.product.prepDays?.value,
+          variantPrepDays: merchandise.prepDays?.value,
+          quantity,
+        }
+      : { tags: [], quantity },
+  );
+
+  const messages =
+    step === "CART_INTERACTION"
+      ? []
+      : validateDeliverySelection(
+          ruleSet,
+          {
+            fulfillmentMode: input.cart.fulfillmentMode?.value,
+            pickupLocationId: input.cart.pickupLocationId?.value,
+            cityId: input.cart.cityId?.value,
+            deliveryDate: input.cart.deliveryDate?.value,
+            slotId: input.cart.slotId?.value,
+            address: input.cart.deliveryGroups[0]?.deliveryAddress,
+            rateCode:
+              input.cart.deliveryGroups[0]?.selectedDeliveryOption?.code,
+          },
+          cartLines,
+          localTime.date,
+          [
+            localTime.beforeCutoff0,
+            localTime.beforeCutoff1,
+            localTime.beforeCutoff2,
+            localTime.beforeCutoff3,
+          ],
+        );
+
+  return {
+    operations: [
+      {
+        validationAdd: {
+          errors: messages.map((message) => ({ message, target: "$.cart" })),
+        },
+      },
+    ],
+  };
+}
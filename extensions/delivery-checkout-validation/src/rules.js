@@ -0,0 +1,597 @@
+/**
+ * Delivery rules evaluated at checkout
+ *
+ * Evaluates the rule set published by app/services/checkoutRuleSetService.ts
+ * with the same semantics as the app's dateAvailabilityService and
+ * slotAvailabilityService. Functions have no network access, so the rule set
+ * is read from a shop metafield.
+ *
+ * Functions cannot read the clock, so city and pickup location cutoffs are
+ * checked with a "still before" flag per published cutoff time
+ * (cutoffTimes), from the input query's shop local time. Slot capacity,
+ * slot cutoffs, same-day buffers and zone cutoffs are only checked by the
+ * storefront validation endpoint. Polygon zones are published as bounding
+ * boxes, so addresses near a zone's edge are accepted here and left to the
+ * storefront check.
+ *
+ * Without a rule set (not published yet, or a format this function does not
+ * understand), the selection is still required and checked for format; only
+ * the checks against the rules are skipped.
+ *
+ * Pickup selections (delivery_method "pickup") name a pickup location
+ * instead of a city. They are checked against the location's own rules,
+ * and the shipping address is not checked.
+ *
+ * A selected carrier rate (see app/services/carrierRateService.ts) carries
+ * its own city, date and slot, and decides the order's booking. It stands in
+ * for the cart attributes when they are missing, and must match them when
+ * both are set.
+ */
+
+/**
+ * Rule set format version this function understands
+ */
+const SUPPORTED_VERSION = 1;
+
+export const MESSAGES = {
+  cityRequired: "Please select a delivery city",
+  cityNotFound: "Delivery is not available in the selected city",
+  pickupLocationRequired: "Please select a pickup location",
+  pickupLocationNotFound: "Pickup is not available at the selected location",
+  dateRequired: "Please select a delivery date",
+  dateInvalid: "The delivery date is invalid",
+  dateInPast: "The delivery date is in the past",
+  dateBeforeMinimum: (minimumDate) =>
+    `The earliest delivery date for this cart is ${minimumDate}`,
+  dateDisabled: (date) => `Delivery is not available on ${date}`,
+  pickupDateDisabled: (date) => `Pickup is not available on ${date}`,
+  areaNotServed: "We do not deliver to this address",
+  areaCityMismatch: "The delivery address is not in the selected city",
+  slotRequired: "Please select a delivery time slot",
+  slotUnavailable: "The selected time slot is not available",
+  rateMismatch:
+    "The selected shipping rate does not match your delivery date and time slot",
+};
+
+/**
+ * Parses a YYYY-MM-DD string to UTC date components, or null if invalid
+ */
+function parseDateString(dateStr) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec((dateStr || "").trim());
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parses an ID attribute value, or null if it is not a positive integer
+ */
+function parseId(value) {
+  const id = (value || "").trim();
+  return /^\d+$/.test(id) && Number(id) > 0 ? Number(id) : null;
+}
+
+/**
+ * Reads the city, date and slot from a carrier rate's code, as
+ * parseCarrierServiceCode in carrierRateService, or null if the code is not
+ * one of our rates
+ */
+function parseCarrierRateCode(code) {
+  const match = /^delivery:(\d+):(\d{4}-\d{2}-\d{2}):(\d+)$/.exec(code || "");
+  if (!match) return null;
+
+  return { cityId: match[1], deliveryDate: match[2], slotId: match[3] };
+}
+
+/**
+ * Applies the selected carrier rate to the selection
+ *
+ * @returns The selection to check, and whether the rate and the cart
+ *   attributes disagree
+ */
+function applyCarrierRate(selection) {
+  const rate = parseCarrierRateCode(selection.rateCode);
+  if (!rate) return { selection, rateMismatch: false };
+
+  const isPickup =
+    (selection.fulfillmentMode || "").trim().toLowerCase() === "pickup";
+  if (
+    !isPickup &&
+    !selection.cityId &&
+    !selection.deliveryDate &&
+    !selection.slotId
+  ) {
+    return { selection: { ...selection, ...rate }, rateMismatch: false };
+  }
+
+  return {
+    selection,
+    rateMismatch:
+      isPickup ||
+      parseId(selection.cityId) !== Number(rate.cityId) ||
+      (selection.deliveryDate || "").trim() !== rate.deliveryDate ||
+      parseId(selection.slotId) !== Number(rate.slotId),
+  };
+}
+
+function formatDate(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(dateStr, days) {
+  const date = parseDateString(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+}
+
+/**
+ * Moves a date to another year, 29 February becomes 28 February
+ */
+function setYear(dateStr, year) {
+  const [, month, day] = dateStr.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return formatDate(
+    new Date(Date.UTC(year, month - 1, Math.min(day, lastDay))),
+  );
+}
+
+function appliesToCity(rule, cityId) {
+  return !rule.cityId || rule.cityId === cityId;
+}
+
+function isInRange(date, startDate, endDate) {
+  return date >= startDate && date <= (endDate || startDate);
+}
+
+function isInOpenRange(date, startDate, endDate) {
+  if (startDate && date < startDate) return false;
+  if (endDate && date > endDate) return false;
+  return true;
+}
+
+/**
+ * Checks a date disable rule, expanding yearly repeating rules
+ */
+function isDisabledByDateRule(date, rule) {
+  if (!rule.repeatsYearly) {
+    return isInRange(date, rule.startDate, rule.endDate);
+  }
+
+  const firstYear = Number(rule.startDate.slice(0, 4));
+  const yearSpan = rule.endDate
+    ? Number(rule.endDate.slice(0, 4)) - firstYear
+    : 0;
+  const year = Number(date.slice(0, 4));
+
+  // The occurrence can start this year or, across New Year, the year before
+  return [year - 1, year].some(
+    (startYear) =>
+      startYear >= firstYear &&
+      isInRange(
+        date,
+        setYear(rule.startDate, startYear),
+        rule.endDate ? setYear(rule.endDate, startYear + yearSpan) : undefined,
+      ),
+  );
+}
+
+export function isDateDisabled(ruleSet, date, cityId) {
+  const dayOfWeek = parseDateString(date).getUTCDay();
+
+  return (
+    ruleSet.dateRules.some(
+      (rule) => appliesToCity(rule, cityId) && isDisabledByDateRule(date, rule),
+    ) ||
+    ruleSet.weekdayRules.some(
+      (rule) =>
+        appliesToCity(rule, cityId) &&
+        rule.daysOfWeek.includes(dayOfWeek) &&
+        isInOpenRange(date, rule.startDate, rule.endDate),
+    )
+  );
+}
+
+export function isSlotAvailable(ruleSet, slotId, date, city, zone) {
+  if (!ruleSet.timeSlotIds.includes(slotId)) return false;
+
+  // Pickup locations only offer slots within their opening hours
+  if (
+    city.weekdaySlotIds &&
+    !(city.weekdaySlotIds[parseDateString(date).getUTCDay()] || []).includes(
+      slotId,
+    )
+  ) {
+    return false;
+  }
+
+  // A zone's slot list replaces the city's
+  const assignedSlotIds = zone?.timeSlotIds?.length
+    ? zone.timeSlotIds
+    : city.timeSlotIds;
+  if (assignedSlotIds.length > 0 && !assignedSlotIds.includes(slotId)) {
+    return false;
+  }
+
+  if (
+    city.special?.allowedSlotIds &&
+    !city.special.allowedSlotIds.includes(slotId)
+  ) {
+    return false;
+  }
+
+  return !ruleSet.slotRules.some(
+    (rule) =>
+      rule.timeSlotId === slotId &&
+      (!rule.cityId || rule.cityId === city.id) &&
+      isInRange(date, rule.startDate, rule.endDate),
+  );
+}
+
+function normalizePostalCode(value) {
+  return (value || "").replace(/[\s-]/g, "").toUpperCase();
+}
+
+function normalizeAreaName(value) {
+  return (value || "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Checks if a [longitude, latitude] point lies inside a [west, south, east,
+ * north] bounding box
+ */
+function isPointInBounds([x, y], bounds) {
+  if (!bounds) return false;
+
+  const [west, south, east, north] = bounds;
+  return x >= west && x <= east && y >= south && y <= north;
+}
+
+/**
+ * Finds the delivery zone of a shipping address
+ *
+ * A polygon containing the address's coordinates wins over an exact postal
+ * code, which wins over the longest postal code prefix, which wins over an
+ * area name. Zone values are published normalized.
+ *
+ * Polygon zones only carry their bounding box, which can overlap other
+ * zones, so a box only wins for the selected city: the address is then
+ * possibly in the zone, and never wrongly rejected. Boxes of other cities
+ * rank last, to report the city mismatch when nothing else matches.
+ *
+ * @param cityId - The selected city, if any
+ * @returns The zone, or null if no zone matches
+ */
+export function resolveZone(ruleSet, address, cityId) {
+  const zip = normalizePostalCode(address.zip);
+  const names = [address.city, address.address2].map(normalizeAreaName);
+  const hasPoint =
+    typeof address.latitude === "number" &&
+    typeof address.longitude === "number";
+
+  let match = null;
+  let bestRank = 0;
+  for (const zone of ruleSet.zones || []) {
+    let rank = 0;
+    if (zone.matchType === "polygon") {
+      const inBounds =
+        hasPoint &&
+        isPointInBounds([address.longitude, address.latitude], zone.bounds);
+      rank = inBounds ? (zone.cityId === cityId ? 10000 : 0.5) : 0;
+    } else if (zone.matchType === "postalCode") {
+      rank = zip && zip === zone.value ? 1000 : 0;
+    } else if (zone.matchType === "postalPrefix") {
+      rank = zip.startsWith(zone.value) ? 100 + zone.value.length : 0;
+    } else if (zone.matchType === "area") {
+      rank = names.includes(zone.value) ? 1 : 0;
+    }
+
+    if (rank > bestRank) {
+      match = zone;
+      bestRank = rank;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Checks if a city's cutoff for today has passed
+ *
+ * The cutoff of today's weekday replaces the city's cutoff. Cutoffs the
+ * rule set does not list in cutoffTimes are not checked.
+ *
+ * @param beforeCutoffs - Whether the shop's local time is before each of
+ *   the rule set's cutoffTimes, in the same order
+ */
+function isPastCutoff(ruleSet, city, today, beforeCutoffs) {
+  const cutoffTime =
+    city?.weekdayCutoffTimes?.[parseDateString(today).getUTCDay()] ||
+    city?.cutoffTime;
+  const index = (ruleSet.cutoffTimes || []).indexOf(cutoffTime);
+
+  return index >= 0 && beforeCutoffs?.[index] === false;
+}
+
+/**
+ * Checks if a special city delivers on a date's weekday
+ */
+function isWeekdayAllowedInCity(city, date) {
+  const allowedWeekdays = city?.special?.allowedWeekdays;
+  return (
+    !allowedWeekdays ||
+    allowedWeekdays.includes(parseDateString(date).getUTCDay())
+  );
+}
+
+/**
+ * Applies a special city's extra lead days, no same-day delivery and
+ * allowed weekdays to the minimum date
+ */
+function applySpecialCityMinimumDate(city, minimumDate, today) {
+  const special = city?.special;
+  if (!special) return minimumDate;
+
+  let date = addDays(minimumDate, special.extraLeadDays);
+  if (special.noSameDay && date <= today) date = addDays(today, 1);
+
+  for (let i = 0; i < 7 && !isWeekdayAllowedInCity(city, date); i++) {
+    date = addDays(date, 1);
+  }
+
+  return date;
+}
+
+/**
+ * Parses a prep days metafield value, or null if missing or invalid
+ */
+function parsePrepDays(value) {
+  if (value === null || value === undefined || value === "") return null;
+
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 ? days : null;
+}
+
+/**
+ * Checks if the kitchen works on a date, every day without a calendar
+ */
+function isProductionDay(production, date) {
+  if (!production) return true;
+
+  return (
+    production.workingDays.includes(parseDateString(date).getUTCDay()) &&
+    !production.closures.some((closure) =>
+      isInRange(date, closure.startDate, closure.endDate),
+    )
+  );
+}
+
+/**
+ * Adds preparation days, counting only the kitchen's working days
+ */
+function addProductionDays(production, startDate, days) {
+  let date = startDate;
+  let remaining = days;
+
+  // Give up after two years so a calendar without working days cannot hang
+  for (let i = 0; remaining > 0 && i < 730; i++) {
+    if (isProductionDay(production, date)) remaining--;
+    date = addDays(date, 1);
+  }
+
+  return date;
+}
+
+/**
+ * Gets the extra days a cart line's quantity adds, the highest matching tier
+ */
+function getQuantityDelay(ruleSet, line) {
+  const quantity = line.quantity || 1;
+  const tags = line.tags.map((tag) => tag.toLowerCase());
+
+  return (ruleSet.quantityTiers || []).reduce(
+    (max, tier) =>
+      quantity >= tier.minQuantity && tags.includes(tier.tag)
+        ? Math.max(max, tier.days)
+        : max,
+    0,
+  );
+}
+
+/**
+ * Combines two delays, keeping the highest days and hours
+ */
+function maxDelay(a, b) {
+  return { days: Math.max(a.days, b.days), hours: Math.max(a.hours, b.hours) };
+}
+
+/**
+ * Calculates the cart delay with the shop's delay strategy
+ *
+ * A product's delay comes from the variant's or product's prep days
+ * metafield, falling back to its delay tags. Days and hours are kept apart
+ * like on the server. The highest delay wins, unless the strategy adds
+ * delays up ("sum") or adds quantity tier days to each line
+ * ("maxPlusQuantity").
+ */
+export function getCartDelay(ruleSet, cartLines) {
+  const delays = new Map(
+    ruleSet.delayTags.map(({ tag, days, hours }) => [
+      tag,
+      { days, hours: hours || 0 },
+    ]),
+  );
+  const strategy = ruleSet.delayStrategy || "max";
+  const noDelay = { days: 0, hours: 0 };
+
+  return cartLines.reduce((cartDelay, line) => {
+    const prepDays =
+      parsePrepDays(line.variantPrepDays) ??
+      parsePrepDays(line.productPrepDays);
+    const lineDelay =
+      prepDays !== null
+        ? { days: prepDays, hours: 0 }
+        : line.tags.reduce(
+            (max, tag) =>
+              maxDelay(max, delays.get(tag.toLowerCase()) || noDelay),
+            noDelay,
+          );
+
+    if (strategy === "sum") {
+      return {
+        days: cartDelay.days + lineDelay.days,
+        hours: cartDelay.hours + lineDelay.hours,
+      };
+    }
+
+    if (strategy === "maxPlusQuantity") {
+      lineDelay.days += getQuantityDelay(ruleSet, line);
+    }
+    return maxDelay(cartDelay, lineDelay);
+  }, noDelay);
+}
+
+/**
+ * Gets the rules that apply to pickup selections: the pickup locations
+ * take the place of the cities, with their own disable rules and no zones
+ */
+function getPickupRuleSet(ruleSet) {
+  const pickup = ruleSet.pickup || {
+    locations: [],
+    dateRules: [],
+    weekdayRules: [],
+    slotRules: [],
+  };
+
+  return {
+    ...ruleSet,
+    cities: pickup.locations,
+    dateRules: pickup.dateRules,
+    weekdayRules: pickup.weekdayRules,
+    slotRules: pickup.slotRules,
+    zones: [],
+  };
+}
+
+/**
+ * Validates the delivery selection
+ *
+ * @param ruleSet - Published rule set (checks against the rules are skipped
+ *   without one)
+ * @param cartSelection - { fulfillmentMode, pickupLocationId, cityId,
+ *   deliveryDate, slotId } attribute values, the shipping address
+ *   ({ address2, city, zip, latitude, longitude }) and the selected shipping
+ *   rate's code (rateCode), if chosen yet
+ * @param cartLines - { tags, productPrepDays, variantPrepDays, quantity } per
+ *   cart line
+ * @param today - Shop's local date in YYYY-MM-DD format
+ * @param beforeCutoffs - Whether the shop's local time is before each of
+ *   the rule set's cutoffTimes (cutoffs are not checked without them)
+ * @returns Error messages (empty if the selection is valid)
+ */
+export function validateDeliverySelection(
+  ruleSet,
+  cartSelection,
+  cartLines,
+  today,
+  beforeCutoffs,
+) {
+  const { selection, rateMismatch } = applyCarrierRate(cartSelection);
+  const isPickup =
+    (selection.fulfillmentMode || "").trim().toLowerCase() === "pickup";
+  const supportedRules =
+    ruleSet?.version === SUPPORTED_VERSION ? ruleSet : null;
+  const rules =
+    supportedRules && isPickup
+      ? getPickupRuleSet(supportedRules)
+      : supportedRules;
+  const errors = rateMismatch ? [MESSAGES.rateMismatch] : [];
+
+  // For pickup, the location stands in for the city
+  const selectedId = isPickup ? selection.pickupLocationId : selection.cityId;
+  const cityId = parseId(selectedId);
+  const city = rules?.cities.find((c) => c.id === cityId);
+  if (!selectedId) {
+    errors.push(
+      isPickup ? MESSAGES.pickupLocationRequired : MESSAGES.cityRequired,
+    );
+  } else if (!cityId || (rules && !city)) {
+    errors.push(
+      isPickup ? MESSAGES.pickupLocationNotFound : MESSAGES.cityNotFound,
+    );
+  }
+
+  // Pickup orders are not delivered, so the address is not checked
+  const address = isPickup ? null : selection.address;
+  let zone = null;
+  if (
+    rules?.zones?.length &&
+    (address?.zip || address?.city || typeof address?.latitude === "number")
+  ) {
+    zone = resolveZone(rules, address, cityId);
+    if (!rules.cities.some((c) => c.id === zone?.cityId)) {
+      errors.push(MESSAGES.areaNotServed);
+    } else if (city && zone.cityId !== city.id) {
+      errors.push(MESSAGES.areaCityMismatch);
+    }
+  }
+
+  const date = selection.deliveryDate
+    ? parseDateString(selection.deliveryDate) && selection.deliveryDate.trim()
+    : null;
+  if (!selection.deliveryDate) {
+    errors.push(MESSAGES.dateRequired);
+  } else if (!date) {
+    errors.push(MESSAGES.dateInvalid);
+  } else if (date < today) {
+    errors.push(MESSAGES.dateInPast);
+  } else if (rules) {
+    // Once the cutoff has passed, preparation starts tomorrow
+    const startDate = isPastCutoff(rules, city, today, beforeCutoffs)
+      ? addDays(today, 1)
+      : today;
+    // Days count the kitchen's working days, hours count from now and only
+    // move the date by their whole days. The later of the two applies.
+    const { days, hours } = getCartDelay(rules, cartLines);
+    const dayDate = applySpecialCityMinimumDate(
+      city,
+      addProductionDays(rules.production, startDate, days),
+      today,
+    );
+    const hourDate = addDays(today, Math.floor(hours / 24));
+    const minimumDate = dayDate > hourDate ? dayDate : hourDate;
+
+    if (date < minimumDate) {
+      errors.push(MESSAGES.dateBeforeMinimum(minimumDate));
+    } else if (
+      isDateDisabled(rules, date, cityId) ||
+      !isWeekdayAllowedInCity(city, date)
+    ) {
+      errors.push(
+        isPickup
+          ? MESSAGES.pickupDateDisabled(date)
+          : MESSAGES.dateDisabled(date),
+      );
+    }
+  }
+
+  const slotId = parseId(selection.slotId);
+  if (!selection.slotId) {
+    errors.push(MESSAGES.slotRequired);
+  } else if (
+    !slotId ||
+    (rules && date && city && !isSlotAvailable(rules, slotId, date, city, zone))
+  ) {
+    errors.push(MESSAGES.slotUnavailable);
+  }
+
+  return errors;
+}
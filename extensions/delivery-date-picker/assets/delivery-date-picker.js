@@ -0,0 +1,378 @@
+/**
+ * Cart delivery date picker
+ *
+ * Loads availability from the app proxy, renders city/date/slot choices,
+ * stores the selection in cart attributes and keeps checkout disabled
+ * until the server-side checkout validation passes.
+ *
+ * When the shop has pickup locations, customers can choose store pickup
+ * instead: a pickup location takes the place of the city, and no delivery
+ * address is needed.
+ *
+ * Attribute keys must match app/services/cartAttributeService.ts.
+ */
+(() => {
+  const ATTRIBUTE_KEYS = {
+    fulfillmentMode: "delivery_method",
+    pickupLocationId: "pickup_location_id",
+    cityId: "delivery_city_id",
+    deliveryDate: "delivery_date",
+    deliveryTimeSlot: "delivery_slot_id",
+    fullName: "delivery_full_name",
+    phoneNumber: "delivery_phone",
+    deliveryAddress: "delivery_address",
+  };
+
+  const INPUT_DEBOUNCE_MS = 400;
+
+  class DeliveryDatePicker {
+    constructor(root) {
+      this.root = root;
+      this.proxyUrl = root.dataset.proxyUrl;
+      this.days = root.dataset.days;
+
+      const cart = JSON.parse(
+        root.querySelector("[data-delivery-cart]").textContent,
+      );
+      this.lines = cart.lines || [];
+      this.messages = cart.messages || {};
+      this.attributes = {};
+      for (const key of Object.values(ATTRIBUTE_KEYS)) {
+        this.attributes[key] = (cart.attributes && cart.attributes[key]) || "";
+      }
+
+      this.statusEl = root.querySelector("[data-delivery-status]");
+      this.errorEl = root.querySelector("[data-delivery-error]");
+      this.methodField = root.querySelector("[data-delivery-method-field]");
+      this.methodInputs = root.querySelectorAll("[data-delivery-method]");
+      this.cityField = root.querySelector("[data-delivery-city-field]");
+      this.citySelect = root.querySelector("[data-delivery-city]");
+      this.pickupField = root.querySelector("[data-delivery-pickup-field]");
+      this.pickupSelect = root.querySelector("[data-delivery-pickup-location]");
+      this.addressField = root.querySelector("[data-delivery-address-field]");
+      this.dateSelect = root.querySelector("[data-delivery-date]");
+      this.slotsEl = root.querySelector("[data-delivery-slots]");
+      this.fieldInputs = root.querySelectorAll("[data-delivery-field]");
+
+      this.availability = null;
+      this.selectors = null;
+      this.isValid = false;
+      this.inputTimer = null;
+
+      this.bindEvents();
+      this.fillFieldInputs();
+      this.loadAvailability();
+    }
+
+    isPickup() {
+      return this.attributes[ATTRIBUTE_KEYS.fulfillmentMode] === "pickup";
+    }
+
+    // The pickup location takes the place of the city
+    locationKey() {
+      return this.isPickup()
+        ? ATTRIBUTE_KEYS.pickupLocationId
+        : ATTRIBUTE_KEYS.cityId;
+    }
+
+    bindEvents() {
+      this.methodInputs.forEach((input) => {
+        input.addEventListener("change", () => {
+          this.attributes[ATTRIBUTE_KEYS.fulfillmentMode] = input.value;
+          this.attributes[ATTRIBUTE_KEYS.deliveryDate] = "";
+          this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot] = "";
+          this.save();
+          this.loadAvailability();
+        });
+      });
+
+      this.citySelect.addEventListener("change", () => {
+        this.attributes[ATTRIBUTE_KEYS.cityId] = this.citySelect.value;
+        this.attributes[ATTRIBUTE_KEYS.deliveryDate] = "";
+        this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot] = "";
+        this.save();
+        this.loadAvailability();
+      });
+
+      this.pickupSelect.addEventListener("change", () => {
+        this.attributes[ATTRIBUTE_KEYS.pickupLocationId] =
+          this.pickupSelect.value;
+        this.attributes[ATTRIBUTE_KEYS.deliveryDate] = "";
+        this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot] = "";
+        this.save();
+        this.loadAvailability();
+      });
+
+      this.dateSelect.addEventListener("change", () => {
+        this.attributes[ATTRIBUTE_KEYS.deliveryDate] = this.dateSelect.value;
+        this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot] = "";
+        this.renderSlots();
+        this.save();
+      });
+
+      this.slotsEl.addEventListener("change", (event) => {
+        this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot] = event.target.value;
+        this.save();
+      });
+
+      this.fieldInputs.forEach((input) => {
+        input.addEventListener("input", () => {
+          this.attributes[ATTRIBUTE_KEYS[input.dataset.deliveryField]] =
+            input.value;
+          clearTimeout(this.inputTimer);
+          this.inputTimer = setTimeout(() => this.save(), INPUT_DEBOUNCE_MS);
+        });
+      });
+    }
+
+    fillFieldInputs() {
+      this.fieldInputs.forEach((input) => {
+        input.value =
+          this.attributes[ATTRIBUTE_KEYS[input.dataset.deliveryField]];
+      });
+    }
+
+    async loadAvailability() {
+      const params = new URLSearchParams();
+      const isPickup = this.isPickup();
+      const locationId = this.attributes[this.locationKey()];
+      if (isPickup) params.set("mode", "pickup");
+      if (locationId) {
+        params.set(isPickup ? "pickupLocationId" : "cityId", locationId);
+      }
+      if (this.days) params.set("days", this.days);
+      params.set("lines", JSON.stringify(this.lines));
+
+      try {
+        const response = await fetch(
+          `${this.proxyUrl}/availability?${params.toString()}`,
+          { headers: { Accept: "application/json" } },
+        );
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        this.availability = await response.json();
+        this.statusEl.hidden = true;
+      } catch {
+        this.statusEl.textContent = this.messages.loadError;
+        this.statusEl.hidden = false;
+        this.availability = null;
+      }
+
+      if (this.availability && !this.selectors) {
+        this.selectors = this.availability.selectors;
+        this.bindCartForm();
+      }
+
+      this.render();
+      this.validate();
+    }
+
+    bindCartForm() {
+      const form = document.querySelector(this.selectors.cartForm);
+      if (!form) return;
+
+      form.addEventListener("submit", (event) => {
+        if (!this.isValid) {
+          event.preventDefault();
+          this.errorEl.hidden = false;
+        }
+      });
+    }
+
+    render() {
+      if (!this.availability) return;
+
+      this.renderMethod();
+      this.renderCities();
+      this.renderPickupLocations();
+      this.renderDates();
+      this.renderSlots();
+    }
+
+    renderCities() {
+      const selected = this.attributes[ATTRIBUTE_KEYS.cityId];
+      this.citySelect.replaceChildren(
+        new Option(this.messages.selectCity, ""),
+        ...this.availability.cities.map(
+          (city) =>
+            new Option(city.name, city.id, false, String(city.id) === selected),
+        ),
+      );
+      this.citySelect.disabled = false;
+    }
+
+    renderMethod() {
+      const isPickup = this.isPickup();
+
+      // Shops without pickup locations only deliver
+      this.methodField.hidden =
+        this.availability.pickupLocations.length === 0 && !isPickup;
+      this.methodInputs.forEach((input) => {
+        input.checked = input.value === (isPickup ? "pickup" : "delivery");
+      });
+      this.cityField.hidden = isPickup;
+      this.pickupField.hidden = !isPickup;
+      this.addressField.hidden = isPickup;
+    }
+
+    renderPickupLocations() {
+      const selected = this.attributes[ATTRIBUTE_KEYS.pickupLocationId];
+      this.pickupSelect.replaceChildren(
+        new Option(this.messages.selectPickupLocation, ""),
+        ...this.availability.pickupLocations.map(
+          (location) =>
+            new Option(
+              location.address
+                ? `${location.name} - ${location.address}`
+                : location.name,
+              location.id,
+              false,
+              String(location.id) === selected,
+            ),
+        ),
+      );
+      this.pickupSelect.disabled = false;
+    }
+
+    renderDates() {
+      const selected = this.attributes[ATTRIBUTE_KEYS.deliveryDate];
+      const hasCity = Boolean(this.attributes[this.locationKey()]);
+
+      this.dateSelect.replaceChildren(
+        new Option(this.messages.selectDate, ""),
+        ...this.availability.dates.map((item) => {
+          const label = item.disabled
+            ? `${item.date} (${item.reason})`
+            : item.date;
+          const option = new Option(
+            label,
+            item.date,
+            false,
+            !item.disabled && item.date === selected,
+          );
+          option.disabled = item.disabled;
+          return option;
+        }),
+      );
+      this.dateSelect.disabled = !hasCity;
+
+      // Drop a stored date that is no longer selectable
+      if (selected && this.dateSelect.value !== selected) {
+        this.attributes[ATTRIBUTE_KEYS.deliveryDate] = "";
+        this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot] = "";
+        this.save();
+      }
+    }
+
+    renderSlots() {
+      const date = this.attributes[ATTRIBUTE_KEYS.deliveryDate];
+      const selected = this.attributes[ATTRIBUTE_KEYS.deliveryTimeSlot];
+      const dateItem = this.availability
+        ? this.availability.dates.find((item) => item.date === date)
+        : null;
+
+      if (!dateItem || dateItem.slots.length === 0) {
+        const empty = document.createElement("p");
+        empty.textContent = date ? this.messages.noSlots : "";
+        this.slotsEl.replaceChildren(empty);
+        return;
+      }
+
+      this.slotsEl.replaceChildren(
+        ...dateItem.slots.map((item) => {
+          const label = document.createElement("label");
+          label.className = "delivery-date-picker__slot";
+
+          const input = document.createElement("input");
+          input.type = "radio";
+          input.name = `delivery-slot-${this.root.dataset.blockId}`;
+          input.value = String(item.slot.id);
+          input.disabled = item.disabled;
+          input.checked = !item.disabled && input.value === selected;
+
+          const text = document.createElement("span");
+          text.textContent = item.disabled
+            ? `${item.slot.label} (${item.reason})`
+            : item.slot.label;
+
+          label.append(input, text);
+          return label;
+        }),
+      );
+    }
+
+    async save() {
+      let saved = false;
+
+      try {
+        const response = await fetch("/cart/update.js", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({ attributes: this.attributes }),
+        });
+        saved = response.ok;
+      } catch {
+        // Reported below, like a rejected update
+      }
+
+      if (!saved) {
+        // The cart does not hold the selection, so keep checkout disabled
+        this.isValid = false;
+        this.errorEl.textContent = this.messages.saveError;
+        this.errorEl.hidden = false;
+        this.toggleCheckout();
+        return;
+      }
+
+      this.validate();
+    }
+
+    async validate() {
+      let result = { isValid: false, errors: [] };
+
+      try {
+        const response = await fetch(`${this.proxyUrl}/validate`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({
+            attributes: this.attributes,
+            // The server loads tags and prep days by variant
+            lines: this.lines.map(({ variantId, quantity }) => ({
+              variantId,
+              quantity,
+            })),
+          }),
+        });
+        if (response.ok) result = await response.json();
+      } catch {
+        // Keep checkout disabled if validation cannot be reached
+      }
+
+      this.isValid = result.isValid;
+      this.errorEl.textContent = result.errors[0] || "";
+      this.errorEl.hidden = true;
+      this.toggleCheckout();
+    }
+
+    toggleCheckout() {
+      if (!this.selectors) return;
+
+      document
+        .querySelectorAll(this.selectors.checkoutButton)
+        .forEach((button) => {
+          button.disabled = !this.isValid;
+          button.setAttribute("aria-disabled", String(!this.isValid));
+        });
+    }
+  }
+
+  document
+    .querySelectorAll("[data-delivery-date-picker]")
+    .forEach((root) => new DeliveryDatePicker(root));
+})();
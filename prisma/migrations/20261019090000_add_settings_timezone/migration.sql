@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Settings` ADD COLUMN `timezone` VARCHAR(191) NULL;
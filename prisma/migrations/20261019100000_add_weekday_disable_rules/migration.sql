@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE `DisableWeekdayRules` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `cityId` INTEGER NULL,
+    `daysOfWeek` VARCHAR(191) NOT NULL,
+    `startDate` DATETIME(3) NULL,
+    `endDate` DATETIME(3) NULL,
+    `reason` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `DisableWeekdayRules_cityId_idx`(`cityId`),
+    INDEX `DisableWeekdayRules_shop_idx`(`shop`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `DisableWeekdayRules` ADD CONSTRAINT `DisableWeekdayRules_cityId_fkey` FOREIGN KEY (`cityId`) REFERENCES `City`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `DisableDateRules` ADD COLUMN `repeatsYearly` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE `Settings` ADD COLUMN `slotCapacity` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `SlotCapacityRule` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `timeSlotId` INTEGER NULL,
+    `cityId` INTEGER NULL,
+    `date` DATETIME(3) NULL,
+    `capacity` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SlotCapacityRule_shop_idx`(`shop`),
+    INDEX `SlotCapacityRule_cityId_idx`(`cityId`),
+    INDEX `SlotCapacityRule_timeSlotId_idx`(`timeSlotId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `DeliveryBooking` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `orderId` VARCHAR(191) NOT NULL,
+    `orderName` VARCHAR(191) NULL,
+    `cityId` INTEGER NULL,
+    `timeSlotId` INTEGER NULL,
+    `deliveryDate` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `DeliveryBooking_shop_deliveryDate_idx`(`shop`, `deliveryDate`),
+    UNIQUE INDEX `DeliveryBooking_shop_orderId_key`(`shop`, `orderId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SlotCapacityRule` ADD CONSTRAINT `SlotCapacityRule_timeSlotId_fkey` FOREIGN KEY (`timeSlotId`) REFERENCES `TimeSlot`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SlotCapacityRule` ADD CONSTRAINT `SlotCapacityRule_cityId_fkey` FOREIGN KEY (`cityId`) REFERENCES `City`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `DeliveryBooking` ADD COLUMN `fullName` VARCHAR(191) NULL,
+    ADD COLUMN `phoneNumber` VARCHAR(191) NULL,
+    ADD COLUMN `deliveryAddress` TEXT NULL;
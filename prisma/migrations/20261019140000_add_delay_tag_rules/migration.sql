@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `DelayTagRule` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `matchType` VARCHAR(191) NOT NULL DEFAULT 'exact',
+    `tag` VARCHAR(191) NOT NULL,
+    `delayDays` INTEGER NOT NULL DEFAULT 1,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `DelayTagRule_shop_idx`(`shop`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
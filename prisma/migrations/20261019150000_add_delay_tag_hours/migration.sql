@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `DelayTagRule` ADD COLUMN `delayHours` INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `Settings` ADD COLUMN `delayStrategy` VARCHAR(191) NOT NULL DEFAULT 'max';
+
+-- CreateTable
+CREATE TABLE `QuantityDelayTier` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `tag` VARCHAR(191) NOT NULL,
+    `minQuantity` INTEGER NOT NULL,
+    `extraDays` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `QuantityDelayTier_shop_idx`(`shop`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
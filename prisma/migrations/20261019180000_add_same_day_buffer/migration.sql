@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `City` ADD COLUMN `sameDayBufferMinutes` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `TimeSlot` ADD COLUMN `sameDayBufferMinutes` INTEGER NULL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `TimeSlot` ADD COLUMN `cutoffTime` VARCHAR(191) NULL,
+    ADD COLUMN `cutoffDaysBefore` INTEGER NOT NULL DEFAULT 0;
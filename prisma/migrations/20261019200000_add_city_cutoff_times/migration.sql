@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `CityCutoffTime` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `cityId` INTEGER NOT NULL,
+    `dayOfWeek` INTEGER NOT NULL,
+    `cutoffTime` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `CityCutoffTime_cityId_idx`(`cityId`),
+    UNIQUE INDEX `CityCutoffTime_cityId_dayOfWeek_key`(`cityId`, `dayOfWeek`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CityCutoffTime` ADD CONSTRAINT `CityCutoffTime_cityId_fkey` FOREIGN KEY (`cityId`) REFERENCES `City`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `City` ADD COLUMN `specialExtraLeadDays` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `specialNoSameDay` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `specialWeekdays` VARCHAR(191) NULL,
+    ADD COLUMN `specialSlotIds` VARCHAR(191) NULL;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `DeliveryZone` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `cityId` INTEGER NOT NULL,
+    `matchType` VARCHAR(191) NOT NULL DEFAULT 'postalCode',
+    `value` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `DeliveryZone_shop_idx`(`shop`),
+    INDEX `DeliveryZone_cityId_idx`(`cityId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `DeliveryZone` ADD CONSTRAINT `DeliveryZone_cityId_fkey` FOREIGN KEY (`cityId`) REFERENCES `City`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
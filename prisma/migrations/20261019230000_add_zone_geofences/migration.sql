@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `DeliveryZone` ADD COLUMN `geometry` TEXT NULL,
+    ADD COLUMN `cutoffTime` VARCHAR(191) NULL,
+    ADD COLUMN `timeSlotIds` VARCHAR(191) NULL;
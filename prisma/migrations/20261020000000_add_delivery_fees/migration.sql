@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE `City` ADD COLUMN `deliveryFee` DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `TimeSlot` ADD COLUMN `surcharge` DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE `DateSurchargeRule` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `cityId` INTEGER NULL,
+    `startDate` DATETIME(3) NOT NULL,
+    `endDate` DATETIME(3) NULL,
+    `repeatsYearly` BOOLEAN NOT NULL DEFAULT false,
+    `amount` DECIMAL(10, 2) NOT NULL,
+    `label` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `DateSurchargeRule_cityId_idx`(`cityId`),
+    INDEX `DateSurchargeRule_shop_idx`(`shop`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `DateSurchargeRule` ADD CONSTRAINT `DateSurchargeRule_cityId_fkey` FOREIGN KEY (`cityId`) REFERENCES `City`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
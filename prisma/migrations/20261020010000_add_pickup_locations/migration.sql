@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE `DisableDateRules` ADD COLUMN `pickupLocationId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `DisableTimeSlotRules` ADD COLUMN `pickupLocationId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `DeliveryBooking` ADD COLUMN `pickupLocationId` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `PickupLocation` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `shop` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `address` TEXT NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `cutoffTime` VARCHAR(191) NOT NULL,
+    `sameDayBufferMinutes` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `PickupLocation_shop_idx`(`shop`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PickupLocationTimeSlot` (
+    `pickupLocationId` INTEGER NOT NULL,
+    `timeSlotId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `PickupLocationTimeSlot_pickupLocationId_idx`(`pickupLocationId`),
+    INDEX `PickupLocationTimeSlot_timeSlotId_idx`(`timeSlotId`),
+    PRIMARY KEY (`pickupLocationId`, `timeSlotId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PickupOpeningHours` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `pickupLocationId` INTEGER NOT NULL,
+    `dayOfWeek` INTEGER NOT NULL,
+    `openTime` VARCHAR(191) NOT NULL,
+    `closeTime` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `PickupOpeningHours_pickupLocationId_idx`(`pickupLocationId`),
+    UNIQUE INDEX `PickupOpeningHours_pickupLocationId_dayOfWeek_key`(`pickupLocationId`, `dayOfWeek`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `DisableDateRules_pickupLocationId_idx` ON `DisableDateRules`(`pickupLocationId`);
+
+-- CreateIndex
+CREATE INDEX `DisableTimeSlotRules_pickupLocationId_idx` ON `DisableTimeSlotRules`(`pickupLocationId`);
+
+-- AddForeignKey
+ALTER TABLE `PickupLocationTimeSlot` ADD CONSTRAINT `PickupLocationTimeSlot_pickupLocationId_fkey` FOREIGN KEY (`pickupLocationId`) REFERENCES `PickupLocation`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PickupLocationTimeSlot` ADD CONSTRAINT `PickupLocationTimeSlot_timeSlotId_fkey` FOREIGN KEY (`timeSlotId`) REFERENCES `TimeSlot`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PickupOpeningHours` ADD CONSTRAINT `PickupOpeningHours_pickupLocationId_fkey` FOREIGN KEY (`pickupLocationId`) REFERENCES `PickupLocation`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `DisableDateRules` ADD CONSTRAINT `DisableDateRules_pickupLocationId_fkey` FOREIGN KEY (`pickupLocationId`) REFERENCES `PickupLocation`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `DisableTimeSlotRules` ADD CONSTRAINT `DisableTimeSlotRules_pickupLocationId_fkey` FOREIGN KEY (`pickupLocationId`) REFERENCES `PickupLocation`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `DeliveryBooking` ADD COLUMN `orderUpdatedAt` DATETIME(3) NULL,
+    ADD COLUMN `cancelledAt` DATETIME(3) NULL;